@@ -1,5 +1,12 @@
 import { DataSource } from 'typeorm';
 import { MediaItem } from '../entities/MediaItem';
+import { EmbeddingCacheEntry } from '../entities/EmbeddingCacheEntry';
+import { MediaChunk } from '../entities/MediaChunk';
+import { EmbeddingState } from '../entities/EmbeddingState';
+import { MediaFieldEmbedding } from '../entities/MediaFieldEmbedding';
+import { VocabularyTerm } from '../entities/VocabularyTerm';
+import { SavedSearch } from '../entities/SavedSearch';
+import { SavedSearchMatch } from '../entities/SavedSearchMatch';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -11,7 +18,7 @@ export const AppDataSource = new DataSource({
   username: process.env.DB_USERNAME || 'postgres',
   password: process.env.DB_PASSWORD || 'postgres',
   database: process.env.DB_DATABASE || 'media_library',
-  entities: [MediaItem],
+  entities: [MediaItem, EmbeddingCacheEntry, MediaChunk, EmbeddingState, MediaFieldEmbedding, VocabularyTerm, SavedSearch, SavedSearchMatch],
   synchronize: true, // Set to false in production and use migrations
   logging: false,
 });
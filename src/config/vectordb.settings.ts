@@ -208,10 +208,45 @@ export const RecommendationSettings = {
  */
 export const EmbeddingSettings = {
   /**
-   * Embedding model name
+   * Default embedding provider ('gemini' | 'openai' | 'local')
+   * Overridden by the EMBEDDING_PROVIDER environment variable
+   * 'local' is a deterministic offline provider for development and CI
+   */
+  PROVIDER: 'gemini',
+
+  /**
+   * Embedding model name (Gemini provider)
+   * Overridden by the EMBEDDING_MODEL environment variable
    */
   MODEL_NAME: 'text-embedding-004',
 
+  /**
+   * Default model name for the OpenAI-compatible provider
+   */
+  OPENAI_MODEL_NAME: 'text-embedding-3-small',
+
+  /**
+   * Default base URL for the OpenAI-compatible provider
+   * Overridden by the OPENAI_EMBEDDING_BASE_URL environment variable
+   */
+  OPENAI_BASE_URL: 'https://api.openai.com/v1',
+
+  /**
+   * Text prepended to queries by the OpenAI-compatible provider
+   * For asymmetric models served without task types (e.g. 'query: ' for E5)
+   */
+  OPENAI_QUERY_PREFIX: '',
+
+  /**
+   * Text prepended to documents by the OpenAI-compatible provider (e.g. 'passage: ' for E5)
+   */
+  OPENAI_DOCUMENT_PREFIX: '',
+
+  /**
+   * Model name reported by the local hashing provider
+   */
+  LOCAL_MODEL_NAME: 'local-hash-v1',
+
   /**
    * Embedding dimension (vector size)
    */
@@ -222,12 +257,144 @@ export const EmbeddingSettings = {
    */
   RATE_LIMIT_DELAY: 100,
 
+  /**
+   * Retries for rate-limited or unavailable embedding calls (per call)
+   */
+  MAX_RETRIES: 3,
+
+  /**
+   * Backoff before the first retry (ms), doubled per retry with full jitter
+   * A provider Retry-After is honored instead when present
+   */
+  RETRY_BASE_DELAY: 500,
+
+  /**
+   * Longest wait before a retry (ms)
+   * If the provider asks for longer, the call fails and the circuit opens for that long
+   */
+  RETRY_MAX_DELAY: 10000,
+
+  /**
+   * Consecutive failed embedding calls (after retries) that open the circuit breaker
+   */
+  CIRCUIT_FAILURE_THRESHOLD: 5,
+
+  /**
+   * How long the circuit stays open before a trial call is allowed (ms)
+   */
+  CIRCUIT_RESET_TIMEOUT: 30000,
+
+  /**
+   * Number of embedding batches processed in parallel during backfill
+   * Batch size comes from PerformanceSettings.BATCH_SIZE
+   */
+  BACKFILL_CONCURRENCY: 4,
+
+  /**
+   * How often a running server re-reads the active embedding model (ms)
+   * Picks up shadow swaps performed by another process or the admin script
+   */
+  ACTIVE_MODEL_REFRESH_INTERVAL: 30000,
+
   /**
    * Auto-backfill on startup
    */
   AUTO_BACKFILL_ON_STARTUP: true,
 } as const;
 
+/**
+ * Chunking Settings
+ * Configuration for multi-vector indexing of long text content
+ */
+export const ChunkingSettings = {
+  /**
+   * Enable chunked indexing of long content
+   */
+  ENABLED: true,
+
+  /**
+   * Only content longer than this (characters) is split into chunks
+   */
+  MIN_CONTENT_LENGTH: 1500,
+
+  /**
+   * Target chunk length (characters)
+   */
+  CHUNK_SIZE: 1000,
+
+  /**
+   * Overlap between consecutive chunks (characters)
+   */
+  CHUNK_OVERLAP: 200,
+
+  /**
+   * Maximum chunks stored per item (safety limit)
+   */
+  MAX_CHUNKS_PER_ITEM: 200,
+
+  /**
+   * Chunk candidates fetched per requested result
+   * Several chunks usually belong to the same item, so fetch more than needed
+   */
+  CANDIDATE_MULTIPLIER: 5,
+} as const;
+
+/**
+ * Field Embedding Settings
+ * Configuration for the per-field (title, description, body) vectors
+ */
+export const FieldEmbeddingSettings = {
+  /**
+   * Embed title, description and body separately, in addition to the item vector
+   */
+  ENABLED: true,
+
+  /**
+   * Field weights used when a search asks for field fusion without giving weights
+   */
+  DEFAULT_WEIGHTS: {
+    title: 0.5,
+    description: 0.2,
+    body: 0.3,
+  },
+} as const;
+
+/**
+ * Embedding Pipeline Settings
+ * Configuration for the background worker that embeds newly created items
+ */
+export const EmbeddingPipelineSettings = {
+  /**
+   * Start the background worker with the server
+   */
+  WORKER_ENABLED: true,
+
+  /**
+   * How often the worker checks for pending items when idle (ms)
+   */
+  POLL_INTERVAL: 2000,
+
+  /**
+   * Items claimed and embedded per worker round
+   */
+  BATCH_SIZE: 5,
+
+  /**
+   * Attempts before an item is marked as failed
+   */
+  MAX_ATTEMPTS: 5,
+
+  /**
+   * Delay before the first retry (ms), doubled on every further attempt
+   */
+  RETRY_BASE_DELAY: 5000,
+
+  /**
+   * Upper bound for the retry delay (ms)
+   */
+  RETRY_MAX_DELAY: 300000,
+} as const;
+
 /**
  * Search Settings
  * General search configuration
@@ -249,6 +416,121 @@ export const SearchSettings = {
   ENABLE_LOGGING: true,
 } as const;
 
+/**
+ * Pagination Settings
+ * Cursor pagination of the library listing and search results
+ */
+export const PaginationSettings = {
+  /**
+   * Default page size of the library listing (GET /api/media)
+   */
+  DEFAULT_PAGE_SIZE: 50,
+
+  /**
+   * Default listing order by creation time ('desc' = newest first)
+   */
+  DEFAULT_ORDER: 'desc' as const,
+
+  /**
+   * Ranked results a paginated search can walk through
+   * Each page re-ranks this many candidates, so cursors stay stable between pages
+   */
+  MAX_SEARCH_RESULTS: 500,
+} as const;
+
+/**
+ * Keyword Search Settings
+ * Case-insensitive substring search in SQL; the score is the sum of the
+ * weights of the fields containing the query, normalized to 0-1
+ */
+export const KeywordSearchSettings = {
+  /**
+   * Weight of a title match
+   */
+  TITLE_WEIGHT: 3,
+
+  /**
+   * Weight of a description match
+   */
+  DESCRIPTION_WEIGHT: 2,
+
+  /**
+   * Weight of a content match
+   */
+  CONTENT_WEIGHT: 1,
+} as const;
+
+/**
+ * Facet Settings
+ * Counts of the items matching a search, by type, MIME type, URL platform,
+ * creation month and duration bucket
+ */
+export const FacetSettings = {
+  /**
+   * Values returned per facet (most frequent first; months newest first)
+   */
+  MAX_VALUES: 20,
+} as const;
+
+/**
+ * Saved Search Settings
+ * Saved searches are matched against every newly embedded item
+ */
+export const SavedSearchSettings = {
+  /**
+   * Minimum score of a match when a saved search sets no threshold, by mode
+   * - keyword: keyword score (0: any field contains the query)
+   * - vector, semantic: cosine similarity to the item vector
+   * - fuzzy: trigram score
+   * - hybrid: cosine similarity; items matching the full-text query match whatever their similarity
+   */
+  DEFAULT_THRESHOLDS: {
+    keyword: 0,
+    vector: 0.5,
+    semantic: 0.3,
+    fuzzy: 0.3,
+    hybrid: 0.5,
+  },
+
+  /**
+   * Matches returned by one check of a saved search (oldest first; the next check continues)
+   */
+  MAX_MATCHES_PER_CHECK: 100,
+} as const;
+
+/**
+ * Hybrid Search Settings
+ * Configuration for lexical (full-text) + vector search fused with reciprocal rank fusion
+ */
+export const HybridSearchSettings = {
+  /**
+   * Postgres text search configuration used for media_items.searchVector and queries
+   * Changing it makes TypeORM regenerate the column on the next start
+   */
+  TEXT_SEARCH_CONFIG: 'english',
+
+  /**
+   * Reciprocal rank fusion constant k: score = sum(weight / (k + rank))
+   * Higher values flatten the difference between top and lower ranks
+   */
+  RRF_K: 60,
+
+  /**
+   * Default weight of the vector (pgvector) ranking
+   */
+  DEFAULT_VECTOR_WEIGHT: 1.0,
+
+  /**
+   * Default weight of the full-text ranking
+   */
+  DEFAULT_TEXT_WEIGHT: 1.0,
+
+  /**
+   * Candidates fetched from each ranking before fusion
+   */
+  CANDIDATE_LIMIT: 100,
+} as const;
+
 /**
  * Fuzzy Search Settings
  * Configuration for fuzzy search (typo-tolerant search)
@@ -288,6 +570,300 @@ export const FuzzySearchSettings = {
    * Default limit for fuzzy search results
    */
   DEFAULT_LIMIT: 20,
+
+  /**
+   * Default fuzzy matching mode
+   * - trigram: pg_trgm similarity/word_similarity in Postgres (GIN indexed)
+   * - levenshtein: in-process Levenshtein matching over every item (fallback when pg_trgm is unavailable)
+   */
+  DEFAULT_MODE: 'trigram' as 'trigram' | 'levenshtein',
+} as const;
+
+/**
+ * Highlight Settings
+ * Match highlighting and passage snippets in search responses
+ */
+export const HighlightSettings = {
+  /**
+   * Add highlight spans and a snippet to search results
+   */
+  ENABLED: true,
+
+  /**
+   * Minimum fuzzy similarity for a word to be highlighted (exact and prefix matches always are)
+   */
+  MIN_WORD_SIMILARITY: 0.75,
+
+  /**
+   * Maximum highlight spans per field
+   */
+  MAX_SPANS_PER_FIELD: 20,
+
+  /**
+   * Target snippet length (characters)
+   */
+  SNIPPET_LENGTH: 240,
+
+  /**
+   * Pick the snippet of vector-based results by embedding sentence windows
+   * and comparing them with the query (false: snippet around the best lexical match)
+   */
+  SEMANTIC_SNIPPETS: true,
+
+  /**
+   * Sentences per snippet window
+   */
+  SENTENCES_PER_WINDOW: 2,
+
+  /**
+   * Maximum sentence windows embedded per search, spent on the best results first
+   * (the others keep their lexical snippet)
+   */
+  MAX_SNIPPET_WINDOWS_PER_SEARCH: 16,
+
+  /**
+   * Maximum sentence windows embedded per result
+   * Windows with the most query word matches are preferred
+   */
+  MAX_SNIPPET_WINDOWS_PER_RESULT: 4,
+} as const;
+
+/**
+ * Query Expansion Settings
+ * Expansion of semantic search queries with synonyms, acronyms and
+ * terms that co-occur with the query in the corpus
+ */
+export const QueryExpansionSettings = {
+  /**
+   * Expand semantic search queries without the request asking for it
+   * Off by default: expansion changes what the query matches, so requests opt in
+   */
+  DEFAULT_ENABLED: false,
+
+  /**
+   * Synonyms and acronym expansions by lowercase term (single words or phrases)
+   * Lookups also go the other way: "machine learning" expands to "ml"
+   */
+  SYNONYMS: {
+    ai: ['artificial intelligence'],
+    ml: ['machine learning'],
+    dl: ['deep learning'],
+    nlp: ['natural language processing'],
+    llm: ['large language model'],
+    js: ['javascript'],
+    ts: ['typescript'],
+    db: ['database'],
+    api: ['application programming interface'],
+    ui: ['user interface'],
+    ux: ['user experience'],
+    k8s: ['kubernetes'],
+    tutorial: ['guide', 'walkthrough'],
+    howto: ['tutorial', 'guide'],
+    podcast: ['episode', 'interview'],
+    talk: ['presentation', 'lecture'],
+    movie: ['film'],
+    song: ['track', 'music'],
+    photo: ['picture', 'image'],
+    intro: ['introduction', 'beginner'],
+  } as Record<string, readonly string[]>,
+
+  /**
+   * Maximum dictionary expansions added per query term
+   */
+  MAX_SYNONYMS_PER_TERM: 2,
+
+  /**
+   * Add terms that co-occur with the query in matching items when the request does not say
+   * Off by default: it runs an extra full-text query and can drift from the query's intent
+   */
+  CORPUS_TERMS_ENABLED: false,
+
+  /**
+   * Best full-text matches of the query sampled for co-occurring terms
+   */
+  CORPUS_SAMPLE_SIZE: 50,
+
+  /**
+   * Minimum sampled items a term must appear in
+   */
+  MIN_CO_OCCURRENCE: 2,
+
+  /**
+   * Minimum lift of a term: its frequency in the sample over its frequency in the corpus
+   * Filters out words that are common everywhere
+   */
+  MIN_LIFT: 1.5,
+
+  /**
+   * Maximum co-occurring terms added per query
+   */
+  MAX_CORPUS_TERMS: 3,
+
+  /**
+   * Default multi-query mode
+   * - off: embed one expanded query
+   * - vector: embed each phrasing and search with their mean vector
+   * - results: search with each phrasing and keep every item's best similarity
+   */
+  DEFAULT_MULTI_QUERY: 'off' as 'off' | 'vector' | 'results',
+
+  /**
+   * Maximum phrasings embedded in multi-query mode (including the original query)
+   */
+  MAX_QUERY_VARIANTS: 3,
+} as const;
+
+/**
+ * Spelling Suggestion Settings
+ * "Did you mean" corrections drawn from the library vocabulary
+ */
+export const SpellingSettings = {
+  /**
+   * Return spelling suggestions with search results
+   */
+  ENABLED: true,
+
+  /**
+   * Shortest word indexed and corrected
+   */
+  MIN_TERM_LENGTH: 3,
+
+  /**
+   * Longest word indexed (longer tokens are usually IDs or URLs)
+   */
+  MAX_TERM_LENGTH: 30,
+
+  /**
+   * Maximum edits between a query word and its correction
+   */
+  MAX_EDIT_DISTANCE: 2,
+
+  /**
+   * Words up to this length are corrected by one edit at most
+   */
+  SHORT_WORD_LENGTH: 4,
+
+  /**
+   * Maximum suggested queries per search
+   */
+  MAX_SUGGESTIONS: 3,
+
+  /**
+   * Re-run the best suggestion when a query has no results, unless the request says otherwise
+   */
+  DEFAULT_AUTO_CORRECT: false,
+
+  /**
+   * Reload the in-memory vocabulary after this many milliseconds
+   * (picks up items created or deleted by other server processes)
+   */
+  REFRESH_INTERVAL: 60000,
+} as const;
+
+/**
+ * Reranker Settings
+ * Second-stage scoring of semantic search candidates (see utils/rerankers.ts)
+ */
+export const RerankerSettings = {
+  /**
+   * Reranker used when the request does not name one (overridden by the RERANKER environment variable)
+   * - none: keep the relevance order
+   * - bm25: lexical BM25 over the candidates, blended with relevance
+   * - cross-encoder: HTTP cross-encoder endpoint
+   */
+  DEFAULT_RERANKER: 'none' as 'none' | 'bm25' | 'cross-encoder',
+
+  /**
+   * Maximum candidates sent to a reranker (the best by relevance); the rest follow them in relevance order
+   */
+  MAX_CANDIDATES: 100,
+
+  /**
+   * Characters of each item (title, description, content) given to the reranker
+   */
+  MAX_DOCUMENT_LENGTH: 2000,
+
+  /**
+   * BM25 term frequency saturation
+   */
+  BM25_K1: 1.2,
+
+  /**
+   * BM25 document length normalization (0 = none, 1 = full)
+   */
+  BM25_B: 0.75,
+
+  /**
+   * Share of the normalized BM25 score in the bm25 reranker score (the rest is relevance)
+   */
+  BM25_WEIGHT: 0.5,
+
+  /**
+   * Cross-encoder rerank endpoint (overridden by CROSS_ENCODER_URL)
+   * Receives { model, query, documents } and returns { results: [{ index, relevance_score }] }
+   * or [{ index, score }] (Cohere, Jina and text-embeddings-inference formats)
+   */
+  CROSS_ENCODER_URL: 'http://localhost:8080/rerank',
+
+  /**
+   * Cross-encoder model name sent with each request (overridden by CROSS_ENCODER_MODEL)
+   */
+  CROSS_ENCODER_MODEL: 'BAAI/bge-reranker-base',
+
+  /**
+   * Cross-encoder request timeout (milliseconds)
+   */
+  CROSS_ENCODER_TIMEOUT: 10000,
+} as const;
+
+/**
+ * MMR Settings
+ * Maximal marginal relevance diversification of search results and recommendations
+ */
+export const MMRSettings = {
+  /**
+   * Lambda used when a request asks for MMR without a value
+   * 1 = pure relevance, 0 = pure diversity
+   */
+  DEFAULT_LAMBDA: 0.7,
+
+  /**
+   * Most relevant candidates re-ranked by MMR (only they are returned)
+   */
+  MAX_CANDIDATES: 100,
+} as const;
+
+/**
+ * Vector Arithmetic Search Settings
+ * Rocchio-style query vector built from example items and texts:
+ *   query = a * text+ + b * items+ - c * items- - d * text-
+ * where each term is the mean of its unit-normalized vectors
+ */
+export const RocchioSettings = {
+  /**
+   * Weight of the positive text (a)
+   */
+  POSITIVE_TEXT_WEIGHT: 1.0,
+
+  /**
+   * Weight of the positive example items (b)
+   */
+  POSITIVE_ITEM_WEIGHT: 0.75,
+
+  /**
+   * Weight of the negative example items (c)
+   */
+  NEGATIVE_ITEM_WEIGHT: 0.25,
+
+  /**
+   * Weight of the negative text (d)
+   */
+  NEGATIVE_TEXT_WEIGHT: 0.25,
+
+  /**
+   * Example items accepted per search (positive and negative together)
+   */
+  MAX_EXAMPLE_ITEMS: 50,
 } as const;
 
 /**
@@ -415,15 +991,34 @@ export const DatabaseSettings = {
  */
 export const PerformanceSettings = {
   /**
-   * Enable caching (if implemented)
+   * Enable embedding caching
+   * Persistent cache (embedding_cache table) keyed by hash(text) + model + dimension,
+   * plus an in-process LRU for query embeddings
    */
-  ENABLE_CACHING: false,
+  ENABLE_CACHING: true,
 
   /**
-   * Cache TTL in seconds
+   * Cache TTL in seconds (in-process query embedding cache)
    */
   CACHE_TTL: 3600,
 
+  /**
+   * Persistent cache TTL in seconds (embedding_cache table)
+   * Older rows are ignored on lookup, replaced when the text is embedded again
+   * and deleted every CACHE_PRUNE_INTERVAL
+   */
+  PERSISTENT_CACHE_TTL: 30 * 24 * 3600,
+
+  /**
+   * How often a running server deletes expired embedding_cache rows (ms)
+   */
+  CACHE_PRUNE_INTERVAL: 3600000,
+
+  /**
+   * Maximum number of query embeddings kept in memory
+   */
+  QUERY_CACHE_MAX_ENTRIES: 1000,
+
   /**
    * Batch size for bulk operations
    */
@@ -440,8 +1035,22 @@ export const VectorDBSettings = {
   semantic: SemanticSearchSettings,
   recommendations: RecommendationSettings,
   embeddings: EmbeddingSettings,
+  chunking: ChunkingSettings,
+  fields: FieldEmbeddingSettings,
+  pipeline: EmbeddingPipelineSettings,
   search: SearchSettings,
+  pagination: PaginationSettings,
+  keyword: KeywordSearchSettings,
+  facets: FacetSettings,
+  savedSearches: SavedSearchSettings,
+  hybrid: HybridSearchSettings,
   fuzzy: FuzzySearchSettings,
+  highlights: HighlightSettings,
+  queryExpansion: QueryExpansionSettings,
+  spelling: SpellingSettings,
+  reranker: RerankerSettings,
+  mmr: MMRSettings,
+  rocchio: RocchioSettings,
   mediaMatching: MediaMatchingSettings,
   database: DatabaseSettings,
   performance: PerformanceSettings,
@@ -0,0 +1,29 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * Persistent embedding cache
+ * One row per (content hash, model, dimension) so the same text is never embedded
+ * twice by the same model; rows expire after PerformanceSettings.PERSISTENT_CACHE_TTL
+ */
+@Entity('embedding_cache')
+export class EmbeddingCacheEntry {
+  @PrimaryColumn({ type: 'varchar', length: 64 })
+  contentHash!: string; // SHA-256 of the embedded text
+
+  @PrimaryColumn({ type: 'varchar', length: 255 })
+  modelName!: string;
+
+  @PrimaryColumn({ type: 'int' })
+  dimension!: number;
+
+  @Column({ type: 'text' })
+  embedding!: string; // Stored as "[1,2,3,...]"
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Role of an embedding column
+ * - active: media_items.embedding, used by every search
+ * - shadow: media_items.shadowEmbedding, filled in the background before a swap
+ */
+export type EmbeddingRole = 'active' | 'shadow';
+
+/**
+ * Embedding model recorded for each embedding column
+ * Lets every server process agree on which model produced the active vectors,
+ * so queries are embedded with the same model after a shadow swap
+ */
+@Entity('embedding_state')
+export class EmbeddingState {
+  @PrimaryColumn({ type: 'varchar', length: 20 })
+  role!: EmbeddingRole;
+
+  @Column({ type: 'varchar', length: 50 })
+  provider!: string; // EmbeddingProvider.name
+
+  @Column({ type: 'varchar', length: 255 })
+  modelName!: string;
+
+  @Column({ type: 'int' })
+  dimension!: number;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
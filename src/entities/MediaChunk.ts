@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { MediaItem } from './MediaItem';
+
+/**
+ * A passage of a media item's content with its own vector
+ * Long text is split into overlapping chunks so each passage is embedded
+ * without being diluted by (or truncated with) the rest of the document
+ */
+@Entity('media_chunks')
+export class MediaChunk {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  mediaItemId!: string;
+
+  @ManyToOne(() => MediaItem, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'mediaItemId' })
+  mediaItem?: MediaItem;
+
+  @Column({ type: 'int' })
+  chunkIndex!: number;
+
+  @Column({ type: 'text' })
+  content!: string;
+
+  @Column({ type: 'int' })
+  startOffset!: number; // Character offset into MediaItem.content
+
+  @Column({ type: 'int' })
+  endOffset!: number;
+
+  @Column({ type: 'text', nullable: true })
+  embedding?: string; // Converted to vector type in DB after sync, like MediaItem.embedding
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  embeddingModel?: string; // Model that produced the embedding
+
+  @Column({ type: 'int', nullable: true })
+  embeddingDimension?: number; // Length of the stored embedding
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  embeddingTaskType?: string; // EmbeddingTaskType the chunk was embedded with
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
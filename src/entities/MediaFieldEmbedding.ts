@@ -0,0 +1,58 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { MediaItem } from './MediaItem';
+
+/**
+ * Field of a media item with its own vector
+ * - title: MediaItem.title
+ * - description: MediaItem.description
+ * - body: content plus metadata keywords and transcription (audio/video)
+ */
+export type EmbeddingField = 'title' | 'description' | 'body';
+
+export const EMBEDDING_FIELDS: readonly EmbeddingField[] = ['title', 'description', 'body'];
+
+/**
+ * Vector of a single field of a media item
+ * Searches can weight the fields at query time, so a strong title match is
+ * not drowned out by a long transcript in the combined item vector
+ */
+@Entity('media_field_embeddings')
+@Index(['mediaItemId', 'field', 'embeddingModel'], { unique: true })
+export class MediaFieldEmbedding {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  mediaItemId!: string;
+
+  @ManyToOne(() => MediaItem, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'mediaItemId' })
+  mediaItem?: MediaItem;
+
+  @Column({ type: 'varchar', length: 20 })
+  field!: EmbeddingField;
+
+  @Column({ type: 'text', nullable: true })
+  embedding?: string; // Converted to vector type in DB after sync, like MediaItem.embedding
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  embeddingModel?: string; // Model that produced the embedding
+
+  @Column({ type: 'int', nullable: true })
+  embeddingDimension?: number; // Length of the stored embedding
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  embeddingTaskType?: string; // EmbeddingTaskType the field was embedded with
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -4,7 +4,9 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  Index,
 } from 'typeorm';
+import { HybridSearchSettings } from '../config/vectordb.settings';
 
 export enum MediaType {
   TEXT = 'text',
@@ -13,20 +15,31 @@ export enum MediaType {
   IMAGE = 'image',
 }
 
+export enum EmbeddingStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  READY = 'ready',
+  FAILED = 'failed',
+}
+
 @Entity('media_items')
 export class MediaItem {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
 
+  // Trigram GIN indexes on title, description and content (fuzzy search) are created at startup
+  @Index('IDX_media_items_title_trgm', { synchronize: false })
   @Column({ type: 'varchar', length: 255 })
   title!: string;
 
   @Column({ type: 'enum', enum: MediaType })
   type!: MediaType;
 
+  @Index('IDX_media_items_content_trgm', { synchronize: false })
   @Column({ type: 'text', nullable: true })
   content?: string; // For text content or file paths/URLs
 
+  @Index('IDX_media_items_description_trgm', { synchronize: false })
   @Column({ type: 'text', nullable: true })
   description?: string;
 
@@ -39,8 +52,59 @@ export class MediaItem {
   @Column({ type: 'varchar', length: 100, nullable: true })
   mimeType?: string;
 
+  @Column({ type: 'float', nullable: true })
+  duration?: number | null; // Length in seconds (audio/video), recorded from file metadata when embedded
+
+  @Column({ type: 'text', nullable: true })
+  embedding?: string; // Vector embedding stored as text, converted to vector type in DB after sync
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  embeddingModel?: string; // Model that produced the embedding (EmbeddingProvider.modelName)
+
+  @Column({ type: 'int', nullable: true })
+  embeddingDimension?: number; // Length of the stored embedding
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  embeddingTaskType?: string; // EmbeddingTaskType the item was embedded with (null: before task types)
+
+  @Column({ type: 'enum', enum: EmbeddingStatus, default: EmbeddingStatus.PENDING })
+  embeddingStatus!: EmbeddingStatus;
+
   @Column({ type: 'text', nullable: true })
-  embedding?: string; // Vector embedding stored as text, converted to vector(768) type in DB after sync
+  embeddingError?: string | null; // Last embedding error (kept until the item is embedded)
+
+  @Column({ type: 'int', default: 0 })
+  embeddingAttempts!: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  embeddingNextAttemptAt?: Date | null; // Earliest time the worker retries a pending item
+
+  @Column({ type: 'text', nullable: true })
+  shadowEmbedding?: string; // Embedding from the next model, filled before a swap (never searched)
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  shadowEmbeddingModel?: string;
+
+  @Column({ type: 'int', nullable: true })
+  shadowEmbeddingDimension?: number;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  shadowEmbeddingTaskType?: string;
+
+  // Full-text search document (title weighted A, description B, content C), kept up to date by postgres.
+  // The GIN index is created at startup (TypeORM cannot declare GIN indexes), hence synchronize: false.
+  @Index('IDX_media_items_search_vector', { synchronize: false })
+  @Column({
+    type: 'tsvector',
+    nullable: true,
+    select: false,
+    generatedType: 'STORED',
+    asExpression:
+      `setweight(to_tsvector('${HybridSearchSettings.TEXT_SEARCH_CONFIG}', coalesce(title, '')), 'A') || ` +
+      `setweight(to_tsvector('${HybridSearchSettings.TEXT_SEARCH_CONFIG}', coalesce(description, '')), 'B') || ` +
+      `setweight(to_tsvector('${HybridSearchSettings.TEXT_SEARCH_CONFIG}', coalesce(content, '')), 'C')`,
+  })
+  searchVector?: string;
 
   @CreateDateColumn()
   createdAt!: Date;
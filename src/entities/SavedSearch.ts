@@ -0,0 +1,39 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+import type { SearchMode } from '../services/unifiedSearchService';
+
+/**
+ * Named search kept on the server
+ * Every newly embedded item is scored against it; items scoring at least
+ * the threshold are recorded as matches (see SavedSearchMatch)
+ */
+@Entity('saved_searches')
+export class SavedSearch {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name!: string;
+
+  @Column({ type: 'text' })
+  query!: string; // Inline syntax as accepted by the search mode
+
+  @Column({ type: 'varchar', length: 20 })
+  mode!: SearchMode;
+
+  @Column({ type: 'jsonb', default: {} })
+  filters!: Record<string, unknown>; // Metadata filters as accepted by parseSearchFilters
+
+  @Column({ type: 'float', nullable: true })
+  threshold?: number | null; // Minimum score of a match (null: default of the mode)
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastCheckedAt?: Date | null; // Creation time of the last match returned by a check
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -0,0 +1,46 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+import { MediaItem } from './MediaItem';
+import { SavedSearch } from './SavedSearch';
+
+/**
+ * Newly embedded item matching a saved search
+ */
+@Entity('saved_search_matches')
+@Unique(['savedSearchId', 'mediaItemId'])
+export class SavedSearchMatch {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  savedSearchId!: string;
+
+  @ManyToOne(() => SavedSearch, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'savedSearchId' })
+  savedSearch?: SavedSearch;
+
+  @Column({ type: 'uuid' })
+  mediaItemId!: string;
+
+  @ManyToOne(() => MediaItem, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'mediaItemId' })
+  mediaItem?: MediaItem;
+
+  @Column({ type: 'float' })
+  score!: number; // Score of the item in the saved search's mode
+
+  @Column({ type: 'boolean', default: false })
+  seen!: boolean;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+}
@@ -0,0 +1,19 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+} from 'typeorm';
+
+/**
+ * Word of the library vocabulary (titles, descriptions and content)
+ * Kept up to date when items are created and deleted; spelling suggestions
+ * are drawn from it
+ */
+@Entity('vocabulary_terms')
+export class VocabularyTerm {
+  @PrimaryColumn({ type: 'varchar', length: 100 })
+  term!: string; // Lowercase word
+
+  @Column({ type: 'int' })
+  documentCount!: number; // Items containing the word
+}
@@ -3,9 +3,16 @@ import cors from 'cors';
 import { Client } from 'pg';
 import { AppDataSource } from './config/database';
 import mediaRoutes from './routes/mediaRoutes';
-import { MediaItem } from './entities/MediaItem';
-import { generateEmbedding, prepareTextForEmbedding } from './utils/embeddings';
-import { EmbeddingSettings } from './config/vectordb.settings';
+import { getEmbeddingProvider } from './utils/embeddingProviders';
+import { EmbeddingBackfillService, logBackfillProgress } from './services/embeddingBackfillService';
+import { ChunkService } from './services/chunkService';
+import { FieldEmbeddingService } from './services/fieldEmbeddingService';
+import { EmbeddingMigrationService } from './services/embeddingMigrationService';
+import { ShadowEmbeddingService } from './services/shadowEmbeddingService';
+import { EmbeddingPipelineService } from './services/embeddingPipelineService';
+import { VocabularyService } from './services/vocabularyService';
+import { EmbeddingCacheService } from './services/embeddingCacheService';
+import { EmbeddingSettings, EmbeddingPipelineSettings, PerformanceSettings } from './config/vectordb.settings';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -47,6 +54,14 @@ async function startServer() {
     // Enable pgvector extension BEFORE TypeORM tries to create tables
     await client.query('CREATE EXTENSION IF NOT EXISTS vector;');
     console.log('pgvector extension enabled');
+
+    // pg_trgm backs fuzzy search; without it fuzzy search falls back to in-process matching
+    try {
+      await client.query('CREATE EXTENSION IF NOT EXISTS pg_trgm;');
+      console.log('pg_trgm extension enabled');
+    } catch (error) {
+      console.warn('⚠ pg_trgm extension not available, fuzzy search will match in-process:', error instanceof Error ? error.message : error);
+    }
     
     await client.end();
     
@@ -54,51 +69,44 @@ async function startServer() {
     await AppDataSource.initialize();
     console.log('Database connected successfully');
 
-    // Convert the embedding column from text to vector type after table creation
-    try {
-      const columnInfo = await AppDataSource.query(`
-        SELECT data_type 
-        FROM information_schema.columns 
-        WHERE table_name = 'media_items' AND column_name = 'embedding';
-      `);
-
-      if (columnInfo.length > 0) {
-        // Check if it's already vector type
-        const isVectorType = await AppDataSource.query(`
-          SELECT EXISTS (
-            SELECT 1 
-            FROM pg_type t 
-            JOIN pg_namespace n ON n.oid = t.typnamespace 
-            WHERE t.typname = 'vector' 
-            AND n.nspname = 'public'
-          );
-        `);
+    // Convert the embedding columns from text to vector type after table creation
+    await ensureVectorColumn('media_items');
+    await ensureVectorColumn('media_chunks');
+    await ensureVectorColumn('media_field_embeddings');
+    await ensureVectorColumn('media_items', 'shadowEmbedding', null);
 
-        // If column exists and is text type, convert to vector
-        if (columnInfo[0].data_type === 'text') {
-          await AppDataSource.query(`
-            ALTER TABLE media_items 
-            ALTER COLUMN embedding TYPE vector(768) 
-            USING CASE 
-              WHEN embedding IS NULL THEN NULL 
-              ELSE embedding::vector 
-            END;
-          `);
-          console.log('Vector column type converted from text to vector(768)');
-        } else if (columnInfo[0].data_type === 'USER-DEFINED') {
-          console.log('Vector column already exists with correct type');
-        }
-      }
-    } catch (error) {
-      console.log('Vector column setup:', error instanceof Error ? error.message : 'OK');
-    }
+    // GIN index on the generated full-text column (used by hybrid search)
+    await ensureSearchIndex();
+
+    // Trigram GIN indexes on the text fields (used by fuzzy search)
+    await ensureTrigramIndexes();
+
+    // Spelling vocabulary for libraries created before it existed
+    await buildVocabularyOnStartup();
+
+    // Use the model recorded for the active embedding column (set by shadow swaps)
+    await loadActiveEmbeddingModel();
+
+    // Drop expired embedding cache rows now and periodically
+    await pruneEmbeddingCache();
+
+    // Detect embedding model/dimension changes since the library was embedded
+    await checkEmbeddingModelOnStartup();
 
     // Auto-backfill embeddings for items without embeddings
     await backfillEmbeddingsOnStartup();
 
+    // Embed newly created items in the background
+    if (EmbeddingPipelineSettings.WORKER_ENABLED) {
+      await new EmbeddingPipelineService().start();
+    }
+
     app.listen(PORT, () => {
       console.log(`Server is running on http://localhost:${PORT}`);
       console.log(`API endpoints available at http://localhost:${PORT}/api/media`);
+
+      // Chunks and field vectors can take long on a large library: fill them while serving
+      backfillIndexesInBackground();
     });
   } catch (error) {
     console.error('Error starting server:', error);
@@ -106,69 +114,198 @@ async function startServer() {
   }
 }
 
+// Convert a table's embedding column from text to vector type
+// (dimension null = unconstrained vector, used by the shadow column)
+async function ensureVectorColumn(
+  tableName: string,
+  columnName: string = 'embedding',
+  dimension: number | null = EmbeddingSettings.DIMENSION
+) {
+  const vectorType = dimension !== null ? `vector(${dimension})` : 'vector';
+  try {
+    const columnInfo = await AppDataSource.query(`
+      SELECT data_type 
+      FROM information_schema.columns 
+      WHERE table_name = $1 AND column_name = $2;
+    `, [tableName, columnName]);
+
+    if (columnInfo.length > 0) {
+      // If column exists and is text type, convert to vector
+      if (columnInfo[0].data_type === 'text') {
+        await AppDataSource.query(`
+          ALTER TABLE ${tableName} 
+          ALTER COLUMN "${columnName}" TYPE ${vectorType} 
+          USING CASE 
+            WHEN "${columnName}" IS NULL THEN NULL 
+            ELSE "${columnName}"::vector 
+          END;
+        `);
+        console.log(`Vector column type converted from text to ${vectorType} on ${tableName}.${columnName}`);
+      } else if (columnInfo[0].data_type === 'USER-DEFINED') {
+        console.log(`Vector column on ${tableName}.${columnName} already exists with correct type`);
+      }
+    }
+  } catch (error) {
+    console.log(`Vector column setup (${tableName}.${columnName}):`, error instanceof Error ? error.message : 'OK');
+  }
+}
+
+// Create the GIN index on media_items.searchVector (TypeORM cannot declare GIN indexes)
+async function ensureSearchIndex() {
+  try {
+    await AppDataSource.query(
+      'CREATE INDEX IF NOT EXISTS "IDX_media_items_search_vector" ON media_items USING GIN ("searchVector")'
+    );
+    console.log('Full-text search index on media_items.searchVector is ready');
+  } catch (error) {
+    console.log('Full-text search index setup:', error instanceof Error ? error.message : 'OK');
+  }
+}
+
+// Create the trigram GIN indexes used by fuzzy search (requires pg_trgm)
+async function ensureTrigramIndexes() {
+  try {
+    for (const column of ['title', 'description', 'content']) {
+      await AppDataSource.query(
+        `CREATE INDEX IF NOT EXISTS "IDX_media_items_${column}_trgm" ON media_items USING GIN ("${column}" gin_trgm_ops)`
+      );
+    }
+    console.log('Trigram indexes on media_items title/description/content are ready');
+  } catch (error) {
+    console.log('Trigram index setup:', error instanceof Error ? error.message : 'OK');
+  }
+}
+
+// Build the spelling vocabulary from every item when it is empty
+async function buildVocabularyOnStartup() {
+  try {
+    const terms = await new VocabularyService().buildIfEmpty();
+    if (terms > 0) {
+      console.log(`✓ Built spelling vocabulary (${terms} words)`);
+    }
+  } catch (error) {
+    console.error('Error building spelling vocabulary:', error instanceof Error ? error.message : error);
+  }
+}
+
+// Load the active embedding model and keep it in sync with swaps done by other processes
+async function loadActiveEmbeddingModel() {
+  const shadowService = new ShadowEmbeddingService();
+  try {
+    await shadowService.loadActiveProvider();
+    await shadowService.checkConfiguredProvider();
+  } catch (error) {
+    console.error('Error loading active embedding model:', error instanceof Error ? error.message : error);
+  }
+
+  setInterval(() => {
+    shadowService.loadActiveProvider().catch(error => {
+      console.error('Error refreshing active embedding model:', error instanceof Error ? error.message : error);
+    });
+  }, EmbeddingSettings.ACTIVE_MODEL_REFRESH_INTERVAL);
+}
+
+// Delete expired persistent cache rows, then keep doing so in the background
+async function pruneEmbeddingCache() {
+  const cacheService = new EmbeddingCacheService();
+  const prune = async () => {
+    const pruned = await cacheService.pruneExpired();
+    if (pruned > 0) {
+      console.log(`✓ Pruned ${pruned} expired embedding cache entries`);
+    }
+  };
+
+  try {
+    await prune();
+  } catch (error) {
+    console.error('Error pruning embedding cache:', error instanceof Error ? error.message : error);
+  }
+
+  setInterval(() => {
+    prune().catch(error => {
+      console.error('Error pruning embedding cache:', error instanceof Error ? error.message : error);
+    });
+  }, PerformanceSettings.CACHE_PRUNE_INTERVAL);
+}
+
+// Compare stored embeddings with the configured model and warn about stale vectors
+async function checkEmbeddingModelOnStartup() {
+  try {
+    const migrationService = new EmbeddingMigrationService();
+    const labelled = await migrationService.labelLegacyEmbeddings();
+    if (labelled > 0) {
+      console.log(`✓ Tagged ${labelled} existing embeddings with model ${EmbeddingSettings.MODEL_NAME}`);
+    }
+
+    // Allow new-dimension vectors to be stored while old ones are still present
+    await migrationService.prepareColumns();
+
+    const status = await migrationService.getStatus();
+    if (status.staleItems > 0) {
+      const stored = status.models
+        .filter(row => row.model !== status.currentModel || row.dimension !== status.currentDimension)
+        .map(row => `${row.model ?? 'unknown'} (${row.dimension ?? '?'}d): ${row.count}`)
+        .join(', ');
+      console.warn(
+        `⚠ Embedding model changed to ${status.currentModel} (${status.currentDimension}d). ` +
+        `${status.staleItems} items were embedded with another model [${stored}] and are excluded from search ` +
+        `until re-embedded. Run: npm run reembed:embeddings`
+      );
+    } else {
+      console.log(`✓ All embeddings match ${status.currentModel} (${status.currentDimension}d)`);
+    }
+  } catch (error) {
+    console.error('Error checking embedding model:', error instanceof Error ? error.message : error);
+  }
+}
+
 // Auto-backfill embeddings on startup
 async function backfillEmbeddingsOnStartup() {
   try {
-    const mediaRepository = AppDataSource.getRepository(MediaItem);
-    
-    // Get all items without embeddings
-    const itemsWithoutEmbeddings = await mediaRepository
-      .createQueryBuilder('item')
-      .where('item.embedding IS NULL')
-      .getMany();
+    const backfillService = new EmbeddingBackfillService();
+    const pending = await backfillService.countPending();
 
-    if (itemsWithoutEmbeddings.length === 0) {
+    if (pending === 0) {
       console.log('✓ All items already have embeddings');
-      return;
-    }
+    } else {
+      const provider = getEmbeddingProvider();
+      console.log(`\n🔄 Found ${pending} items without embeddings. Generating embeddings with ${provider.name} (${provider.modelName})...`);
 
-    console.log(`\n🔄 Found ${itemsWithoutEmbeddings.length} items without embeddings. Generating embeddings...`);
-
-    let successCount = 0;
-    let skipCount = 0;
-
-    for (const item of itemsWithoutEmbeddings) {
-      try {
-        // Generate embedding with enhanced support for audio/video
-        const textForEmbedding = await prepareTextForEmbedding(
-          item.title,
-          item.description || undefined,
-          item.content || undefined,
-          item // Pass item for enhanced audio/video processing
-        );
-        
-        // Skip if no relevant field
-        if (!textForEmbedding || textForEmbedding.trim() === '') {
-          console.log(`⚠ Skipping "${item.title}" - no text content to embed`);
-          skipCount++;
-          continue;
-        }
-        
-        const embeddingArray = await generateEmbedding(textForEmbedding);
-        const embeddingString = `[${embeddingArray.join(',')}]`;
-
-        // Update the embedding
-        await mediaRepository.query(
-          `UPDATE media_items SET embedding = $1::vector(768) WHERE id = $2`,
-          [embeddingString, item.id]
-        );
-
-        successCount++;
-        console.log(`✓ Generated embedding for: "${item.title}"`);
-        
-        // Small delay to avoid rate limiting (from settings)
-        await new Promise(resolve => setTimeout(resolve, EmbeddingSettings.RATE_LIMIT_DELAY));
-      } catch (error) {
-        console.error(`✗ Error processing "${item.title}":`, error instanceof Error ? error.message : error);
-      }
-    }
+      const result = await backfillService.run({ onProgress: logBackfillProgress });
 
-    console.log(`\n✅ Embedding backfill complete! Generated: ${successCount}, Skipped: ${skipCount}\n`);
+      console.log(`\n✅ Embedding backfill complete! Generated: ${result.succeeded}, Skipped: ${result.skipped}, Failed: ${result.failed}\n`);
+    }
   } catch (error) {
     console.error('Error during embedding backfill:', error);
     // Don't exit - continue with server startup even if backfill fails
   }
 }
 
+// Chunk and embed the fields of items stored before chunks/field vectors existed
+// (or by a previous model), without holding up the server; searches use them as they come
+async function backfillIndexesInBackground() {
+  const provider = getEmbeddingProvider();
+
+  // Chunk long content that was stored before chunked indexing existed
+  try {
+    const chunked = await new ChunkService().backfillMissingChunks(provider, { onProgress: logBackfillProgress });
+    if (chunked > 0) {
+      console.log(`✓ Indexed chunks for ${chunked} items with long content`);
+    }
+  } catch (error) {
+    console.error('Error during chunk backfill:', error);
+  }
+
+  // Embed title/description/body of items stored before field vectors existed
+  try {
+    const fieldItems = await new FieldEmbeddingService().backfillMissingFields(provider, { onProgress: logBackfillProgress });
+    if (fieldItems > 0) {
+      console.log(`✓ Embedded fields for ${fieldItems} items`);
+    }
+  } catch (error) {
+    console.error('Error during field embedding backfill:', error);
+  }
+}
+
 startServer();
 
@@ -3,27 +3,121 @@ import { MediaService } from '../services/mediaService';
 import { MediaType } from '../entities/MediaItem';
 import { upload } from '../middleware/upload';
 import { RecommendationService } from '../services/recommendationService';
+import { EmbeddingCacheService } from '../services/embeddingCacheService';
+import { ShadowEmbeddingService } from '../services/shadowEmbeddingService';
+import { EmbeddingPipelineService } from '../services/embeddingPipelineService';
+import { normalizeFieldWeights } from '../services/fieldEmbeddingService';
+import { normalizeExpansionOptions } from '../services/queryExpansionService';
+import { UnifiedSearchService, SEARCH_MODES, isSearchMode } from '../services/unifiedSearchService';
+import { SavedSearchService } from '../services/savedSearchService';
+import { SavedSearchMatch } from '../entities/SavedSearchMatch';
+import { RERANKER_NAMES, isRerankerName } from '../utils/rerankers';
+import { normalizeMMRLambda } from '../utils/mmr';
+import { normalizeRocchioWeights } from '../utils/rocchio';
+import { EmbeddingError } from '../utils/embeddingErrors';
+import { parseSearchFilters, SearchFilterError } from '../utils/searchFilters';
+import { CursorError } from '../utils/pagination';
 import { 
   LimitSettings, 
   SimilaritySettings, 
   SemanticSearchSettings,
   RecommendationSettings,
   SearchSettings,
-  FuzzySearchSettings
+  FuzzySearchSettings,
+  HybridSearchSettings,
+  PaginationSettings,
+  RocchioSettings
 } from '../config/vectordb.settings';
 import path from 'path';
 
 const router = express.Router();
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 const mediaService = new MediaService();
 const recommendationService = new RecommendationService();
+const unifiedSearchService = new UnifiedSearchService();
+const savedSearchService = new SavedSearchService();
+const embeddingCacheService = new EmbeddingCacheService();
+const shadowEmbeddingService = new ShadowEmbeddingService();
+const embeddingPipeline = new EmbeddingPipelineService();
 
-// Get all media items
+/**
+ * Respond to embedding provider failures: 503 (with Retry-After when known)
+ * while the provider is rate limited, unavailable or the circuit is open,
+ * 400 when the provider rejected the input
+ * @returns Whether a response was sent
+ */
+function sendEmbeddingError(res: Response, error: unknown): boolean {
+  if (!(error instanceof EmbeddingError) || error.kind === 'unknown') {
+    return false;
+  }
+
+  if (error.kind === 'invalid_input') {
+    res.status(400).json({ error: 'Query could not be embedded', details: error.message, kind: error.kind });
+    return true;
+  }
+
+  const retryAfter = error.retryAfterMs !== undefined ? Math.ceil(error.retryAfterMs / 1000) : undefined;
+  if (retryAfter !== undefined) {
+    res.set('Retry-After', String(retryAfter));
+  }
+  res.status(503).json({
+    error: 'Embedding service unavailable',
+    details: error.message,
+    kind: error.kind,
+    retryAfter,
+  });
+  return true;
+}
+
+/**
+ * Respond 400 to invalid search filters
+ * @returns Whether a response was sent
+ */
+function sendFilterError(res: Response, error: unknown): boolean {
+  if (!(error instanceof SearchFilterError)) {
+    return false;
+  }
+  res.status(400).json({ error: 'Invalid filters', details: error.message });
+  return true;
+}
+
+/**
+ * Respond 400 to invalid pagination cursors
+ * @returns Whether a response was sent
+ */
+function sendCursorError(res: Response, error: unknown): boolean {
+  if (!(error instanceof CursorError)) {
+    return false;
+  }
+  res.status(400).json({ error: 'Invalid cursor', details: error.message });
+  return true;
+}
+
+// Saved search match as returned by the match routes
+function formatSavedSearchMatch(match: SavedSearchMatch) {
+  return {
+    id: match.id,
+    score: match.score,
+    seen: match.seen,
+    matchedAt: match.createdAt,
+    item: match.mediaItem,
+  };
+}
+
+// Get media items, one page at a time (query params: limit, order=desc|asc, cursor)
 router.get('/', async (req: Request, res: Response) => {
   try {
-    const mediaItems = await mediaService.getAllMedia();
-    res.json(mediaItems);
+    const limit = parseInt(req.query.limit as string) || PaginationSettings.DEFAULT_PAGE_SIZE;
+    const order = req.query.order as string | undefined;
+    if (order !== undefined && order !== 'asc' && order !== 'desc') {
+      return res.status(400).json({ error: 'order must be "asc" or "desc"' });
+    }
+
+    const page = await mediaService.getMediaPage(limit, order, req.query.cursor as string | undefined);
+    res.json(page);
   } catch (error) {
     console.error('Error fetching media:', error);
+    if (sendCursorError(res, error)) return;
     res.status(500).json({ error: 'Failed to fetch media items' });
   }
 });
@@ -39,6 +133,134 @@ router.get('/stats/embeddings', async (req: Request, res: Response) => {
   }
 });
 
+// Get embedding cache hit/miss statistics
+router.get('/stats/embedding-cache', async (req: Request, res: Response) => {
+  try {
+    const stats = await embeddingCacheService.getStats();
+    res.json(stats);
+  } catch (error) {
+    console.error('Error fetching embedding cache stats:', error);
+    res.status(500).json({ error: 'Failed to fetch embedding cache statistics' });
+  }
+});
+
+// List items whose embedding failed after all retries
+router.get('/embeddings/failed', async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || LimitSettings.MAX_LIMIT;
+    const items = await embeddingPipeline.listFailed(limit);
+    res.json(items.map(item => ({
+      id: item.id,
+      title: item.title,
+      type: item.type,
+      embeddingStatus: item.embeddingStatus,
+      embeddingError: item.embeddingError,
+      embeddingAttempts: item.embeddingAttempts,
+      updatedAt: item.updatedAt,
+    })));
+  } catch (error) {
+    console.error('Error fetching failed embeddings:', error);
+    res.status(500).json({ error: 'Failed to fetch failed embeddings' });
+  }
+});
+
+// Retry failed embeddings (all, or the given item IDs)
+router.post('/embeddings/retry', async (req: Request, res: Response) => {
+  try {
+    const { ids } = req.body;
+
+    if (
+      ids !== undefined &&
+      (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string' || !UUID_PATTERN.test(id)))
+    ) {
+      return res.status(400).json({ error: 'ids must be a non-empty array of item IDs (UUIDs)' });
+    }
+
+    const queued = await embeddingPipeline.retry(ids);
+    res.status(202).json({ queued });
+  } catch (error) {
+    console.error('Error retrying embeddings:', error);
+    res.status(500).json({ error: 'Failed to retry embeddings' });
+  }
+});
+
+// Retry the embedding of one failed item
+router.post('/:id/embedding/retry', async (req: Request, res: Response) => {
+  try {
+    if (!UUID_PATTERN.test(req.params.id)) {
+      return res.status(404).json({ error: 'No failed embedding found for this item' });
+    }
+
+    const queued = await embeddingPipeline.retry([req.params.id]);
+
+    if (queued === 0) {
+      return res.status(404).json({ error: 'No failed embedding found for this item' });
+    }
+
+    res.status(202).json({ queued });
+  } catch (error) {
+    console.error('Error retrying embedding:', error);
+    res.status(500).json({ error: 'Failed to retry embedding' });
+  }
+});
+
+// Get shadow re-embedding status (active model, shadow model, coverage)
+router.get('/admin/embeddings/shadow', async (req: Request, res: Response) => {
+  try {
+    const status = await shadowEmbeddingService.getStatus();
+    res.json(status);
+  } catch (error) {
+    console.error('Error fetching shadow embedding status:', error);
+    res.status(500).json({ error: 'Failed to fetch shadow embedding status' });
+  }
+});
+
+// Start a shadow re-embed with a new model and fill it in the background
+router.post('/admin/embeddings/shadow', async (req: Request, res: Response) => {
+  try {
+    const { provider, model, dimension } = req.body;
+
+    if (!provider) {
+      return res.status(400).json({ error: 'provider is required' });
+    }
+
+    await shadowEmbeddingService.start(provider, model, dimension ? parseInt(dimension) : undefined);
+    shadowEmbeddingService.startBackgroundFill();
+    res.status(202).json(await shadowEmbeddingService.getStatus());
+  } catch (error) {
+    console.error('Error starting shadow re-embed:', error);
+    res.status(400).json({
+      error: 'Failed to start shadow re-embed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Resume filling the shadow column (e.g. after a restart or failed items)
+router.post('/admin/embeddings/shadow/fill', async (req: Request, res: Response) => {
+  try {
+    const started = shadowEmbeddingService.startBackgroundFill();
+    res.status(202).json({ started, status: await shadowEmbeddingService.getStatus() });
+  } catch (error) {
+    console.error('Error filling shadow embeddings:', error);
+    res.status(500).json({ error: 'Failed to fill shadow embeddings' });
+  }
+});
+
+// Atomically swap the shadow column in (requires 100% coverage)
+router.post('/admin/embeddings/shadow/swap', async (req: Request, res: Response) => {
+  try {
+    const result = await shadowEmbeddingService.swap();
+    res.json(result);
+  } catch (error) {
+    console.error('Error swapping shadow embeddings:', error);
+    res.status(409).json({
+      error: 'Failed to swap shadow embeddings',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Create text media item
 router.post('/text', async (req: Request, res: Response) => {
   try {
@@ -156,26 +378,75 @@ router.post('/search', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Search query is required' });
     }
 
+    const fieldWeights = req.body.fieldWeights !== undefined ? normalizeFieldWeights(req.body.fieldWeights) : undefined;
+    if (fieldWeights === null) {
+      return res.status(400).json({ error: 'fieldWeights must map title, description and/or body to non-negative weights' });
+    }
+
+    if (req.body.autoCorrect !== undefined && typeof req.body.autoCorrect !== 'boolean') {
+      return res.status(400).json({ error: 'autoCorrect must be true or false' });
+    }
+
+    if (req.body.explain !== undefined && typeof req.body.explain !== 'boolean') {
+      return res.status(400).json({ error: 'explain must be true or false' });
+    }
+
+    if (req.body.facets !== undefined && typeof req.body.facets !== 'boolean') {
+      return res.status(400).json({ error: 'facets must be true or false' });
+    }
+
+    const mmrLambda = normalizeMMRLambda(req.body.mmr);
+    if (mmrLambda === null) {
+      return res.status(400).json({ error: 'mmr must be true or a lambda between 0 and 1' });
+    }
+
+    const filters = parseSearchFilters(req.body.filters);
+
     console.log(`Search request: query="${query}", limit=${limit || LimitSettings.DEFAULT_SEARCH_LIMIT}, maxDistance=${maxDistance || 'default'}, metric=${metric || SearchSettings.DEFAULT_METRIC}`);
 
-    const results = await mediaService.searchMedia(
+    const page = await mediaService.searchMedia(
       query,
       limit || LimitSettings.DEFAULT_SEARCH_LIMIT,
       maxDistance,
-      metric || SearchSettings.DEFAULT_METRIC
+      metric || SearchSettings.DEFAULT_METRIC,
+      fieldWeights,
+      filters,
+      req.body.cursor,
+      req.body.autoCorrect,
+      mmrLambda,
+      req.body.explain,
+      req.body.facets
     );
     
     res.json({
       query,
-      count: results.length,
-      results: results.map(r => ({
+      parsedQuery: page.parsedQuery,
+      suggestions: page.suggestions,
+      correctedQuery: page.correctedQuery,
+      count: page.results.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
+      fieldWeights,
+      filters,
+      facets: page.facets,
+      facetsTruncated: page.facetsTruncated,
+      results: page.results.map(r => ({
         ...r.item,
         similarity: r.similarity,
         distance: r.distance,
+        bestPassage: r.bestPassage,
+        fieldScores: r.fieldScores,
+        mmrScore: r.mmrScore,
+        explanation: r.explanation,
+        highlights: r.highlights,
+        snippet: r.snippet,
       })),
     });
   } catch (error) {
     console.error('Error searching media:', error);
+    if (sendFilterError(res, error)) return;
+    if (sendCursorError(res, error)) return;
+    if (sendEmbeddingError(res, error)) return;
     if (error instanceof Error) {
       res.status(500).json({ error: 'Failed to search media items', details: error.message });
     } else {
@@ -193,6 +464,38 @@ router.post('/search/semantic', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Search query is required' });
     }
 
+    const fieldWeights = req.body.fieldWeights !== undefined ? normalizeFieldWeights(req.body.fieldWeights) : undefined;
+    if (fieldWeights === null) {
+      return res.status(400).json({ error: 'fieldWeights must map title, description and/or body to non-negative weights' });
+    }
+
+    const expansion = normalizeExpansionOptions(req.body.expandQuery);
+    if (expansion === null) {
+      return res.status(400).json({ error: 'expandQuery must be a boolean or an object of enabled, synonyms, corpusTerms (booleans) and multiQuery ("off", "vector" or "results")' });
+    }
+    if (req.body.reranker !== undefined && !isRerankerName(req.body.reranker)) {
+      return res.status(400).json({ error: `reranker must be one of: ${RERANKER_NAMES.join(', ')}` });
+    }
+
+    if (req.body.autoCorrect !== undefined && typeof req.body.autoCorrect !== 'boolean') {
+      return res.status(400).json({ error: 'autoCorrect must be true or false' });
+    }
+
+    if (req.body.explain !== undefined && typeof req.body.explain !== 'boolean') {
+      return res.status(400).json({ error: 'explain must be true or false' });
+    }
+
+    if (req.body.facets !== undefined && typeof req.body.facets !== 'boolean') {
+      return res.status(400).json({ error: 'facets must be true or false' });
+    }
+
+    const mmrLambda = normalizeMMRLambda(req.body.mmr);
+    if (mmrLambda === null) {
+      return res.status(400).json({ error: 'mmr must be true or a lambda between 0 and 1' });
+    }
+
+    const filters = parseSearchFilters(req.body.filters);
+
     console.log(`Semantic search request: query="${query}", limit=${limit || LimitSettings.DEFAULT_SEARCH_LIMIT}`);
 
     const result = await mediaService.semanticSearch(
@@ -202,12 +505,24 @@ router.post('/search/semantic', async (req: Request, res: Response) => {
         minSimilarity: minSimilarity || SemanticSearchSettings.DEFAULT_MIN_SIMILARITY,
         includeRelated: includeRelated !== false ? SemanticSearchSettings.DEFAULT_INCLUDE_RELATED : false,
         contextBoost: contextBoost !== false ? SemanticSearchSettings.DEFAULT_CONTEXT_BOOST : false,
+        fieldWeights,
+        filters,
+        cursor: req.body.cursor,
+        expansion,
+        autoCorrect: req.body.autoCorrect,
+        reranker: req.body.reranker,
+        mmrLambda,
+        explain: req.body.explain,
+        facets: req.body.facets,
       }
     );
     
     res.json(result);
   } catch (error) {
     console.error('Error in semantic search:', error);
+    if (sendFilterError(res, error)) return;
+    if (sendCursorError(res, error)) return;
+    if (sendEmbeddingError(res, error)) return;
     if (error instanceof Error) {
       res.status(500).json({ error: 'Failed to perform semantic search', details: error.message });
     } else {
@@ -216,35 +531,123 @@ router.post('/search/semantic', async (req: Request, res: Response) => {
   }
 });
 
+// Hybrid search endpoint - full-text + vector rankings fused with reciprocal rank fusion
+router.post('/search/hybrid', async (req: Request, res: Response) => {
+  try {
+    const { query, limit } = req.body;
+    const vectorWeight = req.body.vectorWeight ?? HybridSearchSettings.DEFAULT_VECTOR_WEIGHT;
+    const textWeight = req.body.textWeight ?? HybridSearchSettings.DEFAULT_TEXT_WEIGHT;
+    const rrfK = req.body.rrfK ?? HybridSearchSettings.RRF_K;
+
+    if (!query) {
+      return res.status(400).json({ error: 'Search query is required' });
+    }
+
+    const weights = [vectorWeight, textWeight];
+    if (weights.some(weight => typeof weight !== 'number' || weight < 0) || weights.every(weight => weight === 0)) {
+      return res.status(400).json({ error: 'vectorWeight and textWeight must be non-negative numbers, not both 0' });
+    }
+    if (typeof rrfK !== 'number' || rrfK < 0) {
+      return res.status(400).json({ error: 'rrfK must be a non-negative number' });
+    }
+    if (req.body.facets !== undefined && typeof req.body.facets !== 'boolean') {
+      return res.status(400).json({ error: 'facets must be true or false' });
+    }
+
+    const filters = parseSearchFilters(req.body.filters);
+
+    console.log(`Hybrid search request: query="${query}", limit=${limit || LimitSettings.DEFAULT_SEARCH_LIMIT}, vectorWeight=${vectorWeight}, textWeight=${textWeight}`);
+
+    const result = await mediaService.hybridSearch(
+      query,
+      limit || LimitSettings.DEFAULT_SEARCH_LIMIT,
+      { vectorWeight, textWeight, rrfK, filters, cursor: req.body.cursor, facets: req.body.facets }
+    );
+
+    res.json({
+      query,
+      count: result.results.length,
+      total: result.total,
+      nextCursor: result.nextCursor,
+      results: result.results.map(r => ({
+        ...r.item,
+        score: r.score,
+        vectorRank: r.vectorRank,
+        textRank: r.textRank,
+        similarity: r.similarity,
+        textScore: r.textScore,
+        bestPassage: r.bestPassage,
+        highlights: r.highlights,
+        snippet: r.snippet,
+      })),
+      facets: result.facets,
+      facetsTruncated: result.facetsTruncated,
+      searchMetadata: result.searchMetadata,
+    });
+  } catch (error) {
+    console.error('Error in hybrid search:', error);
+    if (sendFilterError(res, error)) return;
+    if (sendCursorError(res, error)) return;
+    if (sendEmbeddingError(res, error)) return;
+    if (error instanceof Error) {
+      res.status(500).json({ error: 'Failed to perform hybrid search', details: error.message });
+    } else {
+      res.status(500).json({ error: 'Failed to perform hybrid search' });
+    }
+  }
+});
+
 // Fuzzy search endpoint - typo-tolerant search
 router.post('/search/fuzzy', async (req: Request, res: Response) => {
   try {
     const { query, limit, minScore, searchFields } = req.body;
+    const mode = req.body.mode ?? FuzzySearchSettings.DEFAULT_MODE;
 
     if (!query) {
       return res.status(400).json({ error: 'Search query is required' });
     }
+    if (mode !== 'trigram' && mode !== 'levenshtein') {
+      return res.status(400).json({ error: 'mode must be "trigram" or "levenshtein"' });
+    }
+
+    if (req.body.autoCorrect !== undefined && typeof req.body.autoCorrect !== 'boolean') {
+      return res.status(400).json({ error: 'autoCorrect must be true or false' });
+    }
+
+    const filters = parseSearchFilters(req.body.filters);
 
     console.log(`Fuzzy search request: query="${query}", limit=${limit || FuzzySearchSettings.DEFAULT_LIMIT}`);
 
-    const results = await mediaService.fuzzySearch(
+    const { results, total, nextCursor, mode: usedMode, parsedQuery, suggestions, correctedQuery } = await mediaService.fuzzySearch(
       query,
       limit || FuzzySearchSettings.DEFAULT_LIMIT,
       minScore || FuzzySearchSettings.DEFAULT_MIN_SCORE,
-      searchFields || [...FuzzySearchSettings.DEFAULT_SEARCH_FIELDS]
+      searchFields || [...FuzzySearchSettings.DEFAULT_SEARCH_FIELDS],
+      filters,
+      req.body.cursor,
+      mode,
+      req.body.autoCorrect
     );
     
     res.json({
       query,
+      parsedQuery,
+      suggestions,
+      correctedQuery,
       count: results.length,
+      total,
+      nextCursor,
       results: results.map(r => ({
         ...r.item,
         fuzzyScore: r.fuzzyScore,
         matchedField: r.matchedField,
         matchedText: r.matchedText,
+        highlights: r.highlights,
+        snippet: r.snippet,
       })),
       metadata: {
         searchType: 'fuzzy',
+        mode: usedMode,
         averageScore: results.length > 0
           ? results.reduce((sum, r) => sum + r.fuzzyScore, 0) / results.length
           : 0,
@@ -254,6 +657,8 @@ router.post('/search/fuzzy', async (req: Request, res: Response) => {
     });
   } catch (error) {
     console.error('Error in fuzzy search:', error);
+    if (sendFilterError(res, error)) return;
+    if (sendCursorError(res, error)) return;
     if (error instanceof Error) {
       res.status(500).json({ error: 'Failed to perform fuzzy search', details: error.message });
     } else {
@@ -262,6 +667,349 @@ router.post('/search/fuzzy', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Vector arithmetic search - "like these, but not like those"
+ * POST /api/media/search/examples
+ * Body: {
+ *   positiveIds?: string[], negativeIds?: string[], positiveText?: string, negativeText?: string,
+ *   weights?: { positiveText?, positiveItems?, negativeItems?, negativeText? },
+ *   limit?, cursor?, maxDistance?, metric?, fieldWeights?, filters?, mmr?
+ * }
+ */
+router.post('/search/examples', async (req: Request, res: Response) => {
+  try {
+    const { positiveIds = [], negativeIds = [], positiveText, negativeText, limit, maxDistance, metric } = req.body;
+
+    for (const [name, ids] of [['positiveIds', positiveIds], ['negativeIds', negativeIds]] as const) {
+      if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string' || !UUID_PATTERN.test(id))) {
+        return res.status(400).json({ error: `${name} must be an array of item IDs (UUIDs)` });
+      }
+    }
+    if (positiveIds.length + negativeIds.length > RocchioSettings.MAX_EXAMPLE_ITEMS) {
+      return res.status(400).json({ error: `At most ${RocchioSettings.MAX_EXAMPLE_ITEMS} example items are allowed` });
+    }
+    for (const [name, text] of [['positiveText', positiveText], ['negativeText', negativeText]] as const) {
+      if (text !== undefined && typeof text !== 'string') {
+        return res.status(400).json({ error: `${name} must be a string` });
+      }
+    }
+    if (positiveIds.length === 0 && !positiveText?.trim()) {
+      return res.status(400).json({ error: 'At least one positive example item or text is required' });
+    }
+
+    const weights = normalizeRocchioWeights(req.body.weights);
+    if (weights === null) {
+      return res.status(400).json({ error: 'weights must map positiveText, positiveItems, negativeItems and/or negativeText to non-negative numbers' });
+    }
+
+    const fieldWeights = req.body.fieldWeights !== undefined ? normalizeFieldWeights(req.body.fieldWeights) : undefined;
+    if (fieldWeights === null) {
+      return res.status(400).json({ error: 'fieldWeights must map title, description and/or body to non-negative weights' });
+    }
+
+    const mmrLambda = normalizeMMRLambda(req.body.mmr);
+    if (mmrLambda === null) {
+      return res.status(400).json({ error: 'mmr must be true or a lambda between 0 and 1' });
+    }
+
+    const filters = parseSearchFilters(req.body.filters);
+
+    const page = await mediaService.searchByExamples(
+      { positiveIds, negativeIds, positiveText, negativeText },
+      limit || LimitSettings.DEFAULT_SEARCH_LIMIT,
+      maxDistance,
+      metric || SearchSettings.DEFAULT_METRIC,
+      fieldWeights,
+      filters,
+      req.body.cursor,
+      mmrLambda,
+      weights
+    );
+
+    res.json({
+      examples: page.examples,
+      weights: page.weights,
+      count: page.results.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
+      fieldWeights,
+      filters,
+      results: page.results.map(r => ({
+        ...r.item,
+        similarity: r.similarity,
+        distance: r.distance,
+        bestPassage: r.bestPassage,
+        fieldScores: r.fieldScores,
+        mmrScore: r.mmrScore,
+        highlights: r.highlights,
+        snippet: r.snippet,
+      })),
+    });
+  } catch (error) {
+    console.error('Error in example search:', error);
+    if (sendFilterError(res, error)) return;
+    if (sendCursorError(res, error)) return;
+    if (sendEmbeddingError(res, error)) return;
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message.includes('embedding') || error.message.includes('examples')) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to search media items', details: error.message });
+    } else {
+      res.status(500).json({ error: 'Failed to search media items' });
+    }
+  }
+});
+
+/**
+ * Unified search - every search mode with one response envelope
+ * POST /api/media/search/unified
+ * Body: {
+ *   query: string,
+ *   mode: 'keyword' | 'vector' | 'semantic' | 'fuzzy' | 'hybrid',
+ *   limit?, cursor?, filters?, autoCorrect?, facets?,
+ *   ...options of the mode (as on its own route; fuzzy takes fuzzyMode instead of mode)
+ * }
+ */
+router.post('/search/unified', async (req: Request, res: Response) => {
+  try {
+    const { query, mode, limit } = req.body;
+
+    if (!query) {
+      return res.status(400).json({ error: 'Search query is required' });
+    }
+    if (!isSearchMode(mode)) {
+      return res.status(400).json({ error: `mode must be one of: ${SEARCH_MODES.join(', ')}` });
+    }
+
+    const fieldWeights = req.body.fieldWeights !== undefined ? normalizeFieldWeights(req.body.fieldWeights) : undefined;
+    if (fieldWeights === null) {
+      return res.status(400).json({ error: 'fieldWeights must map title, description and/or body to non-negative weights' });
+    }
+
+    const expansion = normalizeExpansionOptions(req.body.expandQuery);
+    if (expansion === null) {
+      return res.status(400).json({ error: 'expandQuery must be a boolean or an object of enabled, synonyms, corpusTerms (booleans) and multiQuery ("off", "vector" or "results")' });
+    }
+    if (req.body.reranker !== undefined && !isRerankerName(req.body.reranker)) {
+      return res.status(400).json({ error: `reranker must be one of: ${RERANKER_NAMES.join(', ')}` });
+    }
+
+    for (const name of ['autoCorrect', 'explain', 'facets', 'includeRelated', 'contextBoost']) {
+      if (req.body[name] !== undefined && typeof req.body[name] !== 'boolean') {
+        return res.status(400).json({ error: `${name} must be true or false` });
+      }
+    }
+
+    const mmrLambda = normalizeMMRLambda(req.body.mmr);
+    if (mmrLambda === null) {
+      return res.status(400).json({ error: 'mmr must be true or a lambda between 0 and 1' });
+    }
+
+    const { vectorWeight, textWeight, rrfK, fuzzyMode } = req.body;
+    const weights = [vectorWeight ?? HybridSearchSettings.DEFAULT_VECTOR_WEIGHT, textWeight ?? HybridSearchSettings.DEFAULT_TEXT_WEIGHT];
+    if (weights.some(weight => typeof weight !== 'number' || weight < 0) || weights.every(weight => weight === 0)) {
+      return res.status(400).json({ error: 'vectorWeight and textWeight must be non-negative numbers, not both 0' });
+    }
+    if (rrfK !== undefined && (typeof rrfK !== 'number' || rrfK < 0)) {
+      return res.status(400).json({ error: 'rrfK must be a non-negative number' });
+    }
+    if (fuzzyMode !== undefined && fuzzyMode !== 'trigram' && fuzzyMode !== 'levenshtein') {
+      return res.status(400).json({ error: 'fuzzyMode must be "trigram" or "levenshtein"' });
+    }
+
+    const filters = parseSearchFilters(req.body.filters);
+
+    console.log(`Unified search request: mode=${mode}, query="${query}", limit=${limit || LimitSettings.DEFAULT_SEARCH_LIMIT}`);
+
+    const result = await unifiedSearchService.search(query, mode, {
+      limit: limit || LimitSettings.DEFAULT_SEARCH_LIMIT,
+      cursor: req.body.cursor,
+      filters,
+      autoCorrect: req.body.autoCorrect,
+      explain: req.body.explain,
+      facets: req.body.facets,
+      mmrLambda,
+      fieldWeights,
+      metric: req.body.metric,
+      maxDistance: req.body.maxDistance,
+      minSimilarity: req.body.minSimilarity,
+      includeRelated: req.body.includeRelated,
+      contextBoost: req.body.contextBoost,
+      expansion,
+      reranker: req.body.reranker,
+      minScore: req.body.minScore,
+      searchFields: req.body.searchFields,
+      fuzzyMode,
+      vectorWeight,
+      textWeight,
+      rrfK,
+    });
+
+    res.json({ ...result, filters });
+  } catch (error) {
+    console.error('Error in unified search:', error);
+    if (sendFilterError(res, error)) return;
+    if (sendCursorError(res, error)) return;
+    if (sendEmbeddingError(res, error)) return;
+    if (error instanceof Error) {
+      res.status(500).json({ error: 'Failed to search media items', details: error.message });
+    } else {
+      res.status(500).json({ error: 'Failed to search media items' });
+    }
+  }
+});
+
+// ==================== SAVED SEARCH ENDPOINTS ====================
+// (must be before /:id route)
+
+/**
+ * List saved searches with their new and unseen match counts
+ * GET /api/media/saved-searches
+ */
+router.get('/saved-searches', async (req: Request, res: Response) => {
+  try {
+    const savedSearches = await savedSearchService.list();
+    res.json({ count: savedSearches.length, savedSearches });
+  } catch (error) {
+    console.error('Error fetching saved searches:', error);
+    res.status(500).json({ error: 'Failed to fetch saved searches' });
+  }
+});
+
+/**
+ * Save a search; every item embedded from now on is matched against it
+ * POST /api/media/saved-searches
+ * Body: { name, query, mode, filters?, threshold? (minimum score, default per mode) }
+ */
+router.post('/saved-searches', async (req: Request, res: Response) => {
+  try {
+    const { name, query, mode, filters, threshold } = req.body;
+
+    if (typeof name !== 'string' || !name.trim() || name.length > 255) {
+      return res.status(400).json({ error: 'name must be a non-empty string of at most 255 characters' });
+    }
+    if (typeof query !== 'string' || !query.trim()) {
+      return res.status(400).json({ error: 'Search query is required' });
+    }
+    if (!isSearchMode(mode)) {
+      return res.status(400).json({ error: `mode must be one of: ${SEARCH_MODES.join(', ')}` });
+    }
+    if (threshold !== undefined && (typeof threshold !== 'number' || threshold < 0 || threshold > 1)) {
+      return res.status(400).json({ error: 'threshold must be a number between 0 and 1' });
+    }
+
+    const savedSearch = await savedSearchService.create(name.trim(), query, mode, filters, threshold);
+    res.status(201).json(savedSearch);
+  } catch (error) {
+    console.error('Error saving search:', error);
+    if (sendFilterError(res, error)) return;
+    if (error instanceof Error) {
+      res.status(500).json({ error: 'Failed to save search', details: error.message });
+    } else {
+      res.status(500).json({ error: 'Failed to save search' });
+    }
+  }
+});
+
+// Delete a saved search and its matches
+router.delete('/saved-searches/:id', async (req: Request, res: Response) => {
+  try {
+    if (!UUID_PATTERN.test(req.params.id)) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+    const deleted = await savedSearchService.delete(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+    res.json({ message: 'Saved search deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    res.status(500).json({ error: 'Failed to delete saved search' });
+  }
+});
+
+/**
+ * Matches of a saved search (oldest first), read-only: pass nextCursor back as cursor
+ * to continue after them, and unseen=true for the matches not marked seen
+ * GET /api/media/saved-searches/:id/matches?cursor=...&unseen=true&limit=100
+ */
+router.get('/saved-searches/:id/matches', async (req: Request, res: Response) => {
+  try {
+    if (!UUID_PATTERN.test(req.params.id)) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+    const page = await savedSearchService.listMatches(req.params.id, {
+      cursor: req.query.cursor as string | undefined,
+      unseen: req.query.unseen === 'true',
+      limit: parseInt(req.query.limit as string) || undefined,
+    });
+    if (!page) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+    res.json({ ...page, count: page.matches.length, matches: page.matches.map(formatSavedSearchMatch) });
+  } catch (error) {
+    console.error('Error fetching saved search matches:', error);
+    if (sendCursorError(res, error)) return;
+    res.status(500).json({ error: 'Failed to fetch saved search matches' });
+  }
+});
+
+/**
+ * Matches recorded since the last check (oldest first); the check moves past them,
+ * and hasMore tells to check again for the rest
+ * POST /api/media/saved-searches/:id/matches/check
+ */
+router.post('/saved-searches/:id/matches/check', async (req: Request, res: Response) => {
+  try {
+    if (!UUID_PATTERN.test(req.params.id)) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+    const check = await savedSearchService.checkMatches(req.params.id);
+    if (!check) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+    res.json({ ...check, count: check.matches.length, matches: check.matches.map(formatSavedSearchMatch) });
+  } catch (error) {
+    console.error('Error checking saved search matches:', error);
+    res.status(500).json({ error: 'Failed to check saved search matches' });
+  }
+});
+
+/**
+ * Mark matches of a saved search seen
+ * POST /api/media/saved-searches/:id/matches/seen
+ * Body: { matchIds? (default: every match) }
+ */
+router.post('/saved-searches/:id/matches/seen', async (req: Request, res: Response) => {
+  try {
+    const { matchIds } = req.body;
+
+    if (
+      matchIds !== undefined &&
+      (!Array.isArray(matchIds) || matchIds.length === 0 ||
+        matchIds.some(id => typeof id !== 'string' || !UUID_PATTERN.test(id)))
+    ) {
+      return res.status(400).json({ error: 'matchIds must be a non-empty array of match IDs (UUIDs)' });
+    }
+    if (!UUID_PATTERN.test(req.params.id)) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+
+    const marked = await savedSearchService.markSeen(req.params.id, matchIds);
+    if (marked === null) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+    res.json({ marked });
+  } catch (error) {
+    console.error('Error marking saved search matches seen:', error);
+    res.status(500).json({ error: 'Failed to mark matches seen' });
+  }
+});
+
 // Find similar media items to a given media item (must be before /:id route)
 router.get('/:id/similar', async (req: Request, res: Response) => {
   try {
@@ -269,20 +1017,29 @@ router.get('/:id/similar', async (req: Request, res: Response) => {
     const limit = parseInt(req.query.limit as string) || LimitSettings.DEFAULT_SIMILAR_ITEMS_LIMIT;
     const maxDistance = req.query.maxDistance ? parseFloat(req.query.maxDistance as string) : undefined;
     const metric = (req.query.metric as 'cosine' | 'l2' | 'inner_product') || SearchSettings.DEFAULT_METRIC;
+    const filters = parseSearchFilters(req.query);
+    const explain = req.query.explain === 'true';
 
-    const results = await mediaService.findSimilarMedia(id, limit, maxDistance, metric);
+    const cursor = req.query.cursor as string | undefined;
+
+    const page = await mediaService.findSimilarMedia(id, limit, maxDistance, metric, filters, explain, cursor);
     
     res.json({
       sourceId: id,
-      count: results.length,
-      results: results.map(r => ({
+      count: page.results.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
+      results: page.results.map(r => ({
         ...r.item,
         similarity: r.similarity,
         distance: r.distance,
+        explanation: r.explanation,
       })),
     });
   } catch (error) {
     console.error('Error finding similar media:', error);
+    if (sendFilterError(res, error)) return;
+    if (sendCursorError(res, error)) return;
     if (error instanceof Error && error.message === 'Media item not found') {
       return res.status(404).json({ error: error.message });
     }
@@ -342,7 +1099,7 @@ router.get('/file/:id', async (req: Request, res: Response) => {
 /**
  * Get item-based recommendations
  * GET /api/media/recommendations/item/:id
- * Query params: limit, minSimilarity, excludeIds (comma-separated)
+ * Query params: limit, minSimilarity, excludeIds (comma-separated), mmr (true or lambda), filter keys (see parseSearchFilters)
  */
 router.get('/recommendations/item/:id', async (req: Request, res: Response) => {
   try {
@@ -354,17 +1111,25 @@ router.get('/recommendations/item/:id', async (req: Request, res: Response) => {
     const excludeIds = req.query.excludeIds 
       ? (req.query.excludeIds as string).split(',').filter(id => id.trim())
       : [];
+    const filters = parseSearchFilters(req.query);
+    const mmrLambda = normalizeMMRLambda(req.query.mmr);
+    if (mmrLambda === null) {
+      return res.status(400).json({ error: 'mmr must be true or a lambda between 0 and 1' });
+    }
 
     const result = await recommendationService.getItemBasedRecommendations(
       id,
       limit,
       minSimilarity,
-      excludeIds
+      excludeIds,
+      filters,
+      mmrLambda
     );
 
     res.json(result);
   } catch (error) {
     console.error('Error getting item-based recommendations:', error);
+    if (sendFilterError(res, error)) return;
     if (error instanceof Error) {
       if (error.message.includes('not found')) {
         return res.status(404).json({ error: error.message });
@@ -382,7 +1147,7 @@ router.get('/recommendations/item/:id', async (req: Request, res: Response) => {
 /**
  * Get multi-item based recommendations
  * POST /api/media/recommendations/multi-item
- * Body: { itemIds: string[], limit?: number, minSimilarity?: number, excludeIds?: string[] }
+ * Body: { itemIds: string[], limit?: number, minSimilarity?: number, excludeIds?: string[], filters?: SearchFilters, mmr?: boolean | number }
  */
 router.post('/recommendations/multi-item', async (req: Request, res: Response) => {
   try {
@@ -397,16 +1162,24 @@ router.post('/recommendations/multi-item', async (req: Request, res: Response) =
       return res.status(400).json({ error: 'itemIds array is required' });
     }
 
+    const mmrLambda = normalizeMMRLambda(req.body.mmr);
+    if (mmrLambda === null) {
+      return res.status(400).json({ error: 'mmr must be true or a lambda between 0 and 1' });
+    }
+
     const result = await recommendationService.getMultiItemRecommendations(
       itemIds,
       limit,
       minSimilarity,
-      excludeIds
+      excludeIds,
+      parseSearchFilters(req.body.filters),
+      mmrLambda
     );
 
     res.json(result);
   } catch (error) {
     console.error('Error getting multi-item recommendations:', error);
+    if (sendFilterError(res, error)) return;
     if (error instanceof Error) {
       if (error.message.includes('not found') || error.message.includes('No source items')) {
         return res.status(404).json({ error: error.message });
@@ -424,7 +1197,7 @@ router.post('/recommendations/multi-item', async (req: Request, res: Response) =
 /**
  * Get content-based recommendations
  * POST /api/media/recommendations/content-based
- * Body: { query: string, limit?: number, minSimilarity?: number, excludeIds?: string[] }
+ * Body: { query: string, limit?: number, minSimilarity?: number, excludeIds?: string[], filters?: SearchFilters, mmr?: boolean | number }
  */
 router.post('/recommendations/content-based', async (req: Request, res: Response) => {
   try {
@@ -439,16 +1212,25 @@ router.post('/recommendations/content-based', async (req: Request, res: Response
       return res.status(400).json({ error: 'query is required' });
     }
 
+    const mmrLambda = normalizeMMRLambda(req.body.mmr);
+    if (mmrLambda === null) {
+      return res.status(400).json({ error: 'mmr must be true or a lambda between 0 and 1' });
+    }
+
     const result = await recommendationService.getContentBasedRecommendations(
       query,
       limit,
       minSimilarity,
-      excludeIds
+      excludeIds,
+      parseSearchFilters(req.body.filters),
+      mmrLambda
     );
 
     res.json(result);
   } catch (error) {
     console.error('Error getting content-based recommendations:', error);
+    if (sendFilterError(res, error)) return;
+    if (sendEmbeddingError(res, error)) return;
     if (error instanceof Error) {
       res.status(500).json({ error: 'Failed to get recommendations', details: error.message });
     } else {
@@ -466,6 +1248,8 @@ router.post('/recommendations/content-based', async (req: Request, res: Response
  *   limit?: number, 
  *   minSimilarity?: number, 
  *   excludeIds?: string[],
+ *   filters?: SearchFilters,
+ *   mmr?: boolean | number, // Diversify: true or lambda (0-1)
  *   weights?: { itemBased?: number, contentBased?: number }
  * }
  */
@@ -486,18 +1270,27 @@ router.post('/recommendations/hybrid', async (req: Request, res: Response) => {
       });
     }
 
+    const mmrLambda = normalizeMMRLambda(req.body.mmr);
+    if (mmrLambda === null) {
+      return res.status(400).json({ error: 'mmr must be true or a lambda between 0 and 1' });
+    }
+
     const result = await recommendationService.getHybridRecommendations({
       itemIds,
       query,
       limit,
       minSimilarity,
       excludeIds,
+      filters: parseSearchFilters(req.body.filters),
+      mmrLambda,
       weights,
     });
 
     res.json(result);
   } catch (error) {
     console.error('Error getting hybrid recommendations:', error);
+    if (sendFilterError(res, error)) return;
+    if (sendEmbeddingError(res, error)) return;
     if (error instanceof Error) {
       res.status(500).json({ error: 'Failed to get recommendations', details: error.message });
     } else {
@@ -517,6 +1310,8 @@ router.post('/recommendations/hybrid', async (req: Request, res: Response) => {
  *   limit?: number,
  *   minSimilarity?: number,
  *   excludeIds?: string[],
+ *   filters?: SearchFilters,
+ *   mmr?: boolean | number, // Diversify: true or lambda (0-1)
  *   weights?: { itemBased?: number, contentBased?: number }
  * }
  */
@@ -533,6 +1328,12 @@ router.post('/recommendations', async (req: Request, res: Response) => {
       weights = RecommendationSettings.HYBRID_WEIGHTS
     } = req.body;
 
+    const filters = parseSearchFilters(req.body.filters);
+    const mmrLambda = normalizeMMRLambda(req.body.mmr);
+    if (mmrLambda === null) {
+      return res.status(400).json({ error: 'mmr must be true or a lambda between 0 and 1' });
+    }
+
     // Auto-detect strategy if not specified
     let detectedStrategy = strategy;
     if (!detectedStrategy) {
@@ -562,7 +1363,9 @@ router.post('/recommendations', async (req: Request, res: Response) => {
           idToUse,
           limit,
           minSimilarity,
-          excludeIds
+          excludeIds,
+          filters,
+          mmrLambda
         );
         break;
 
@@ -574,7 +1377,9 @@ router.post('/recommendations', async (req: Request, res: Response) => {
           itemIds,
           limit,
           minSimilarity,
-          excludeIds
+          excludeIds,
+          filters,
+          mmrLambda
         );
         break;
 
@@ -586,7 +1391,9 @@ router.post('/recommendations', async (req: Request, res: Response) => {
           query,
           limit,
           minSimilarity,
-          excludeIds
+          excludeIds,
+          filters,
+          mmrLambda
         );
         break;
 
@@ -597,6 +1404,8 @@ router.post('/recommendations', async (req: Request, res: Response) => {
           limit,
           minSimilarity,
           excludeIds,
+          filters,
+          mmrLambda,
           weights,
         });
         break;
@@ -608,6 +1417,8 @@ router.post('/recommendations', async (req: Request, res: Response) => {
     res.json(result);
   } catch (error) {
     console.error('Error getting recommendations:', error);
+    if (sendFilterError(res, error)) return;
+    if (sendEmbeddingError(res, error)) return;
     if (error instanceof Error) {
       if (error.message.includes('not found')) {
         return res.status(404).json({ error: error.message });
@@ -1,61 +1,61 @@
 import { AppDataSource } from '../config/database';
-import { MediaItem } from '../entities/MediaItem';
-import { generateEmbedding, prepareTextForEmbedding } from '../utils/embeddings';
+import { EmbeddingBackfillService, logBackfillProgress } from '../services/embeddingBackfillService';
+import { ChunkService } from '../services/chunkService';
+import { FieldEmbeddingService } from '../services/fieldEmbeddingService';
+import { ShadowEmbeddingService } from '../services/shadowEmbeddingService';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
 
+/**
+ * Usage:
+ *   npm run backfill:embeddings -- [--batch-size=100] [--concurrency=4] [--after=<item id>]
+ *
+ * The backfill is resumable: re-running it only processes items that still have
+ * no embedding. Use --after with the "last ID" from the progress log to skip
+ * items that failed in a previous run.
+ */
+function parseArgs(argv: string[]): { batchSize?: number; concurrency?: number; afterId?: string } {
+  const args: { batchSize?: number; concurrency?: number; afterId?: string } = {};
+  for (const arg of argv) {
+    const [key, value] = arg.split('=');
+    if (!value) continue;
+    if (key === '--batch-size') args.batchSize = parseInt(value);
+    if (key === '--concurrency') args.concurrency = parseInt(value);
+    if (key === '--after') args.afterId = value;
+  }
+  return args;
+}
+
 async function backfillEmbeddings() {
   try {
     await AppDataSource.initialize();
     console.log('Database connected');
 
-    const mediaRepository = AppDataSource.getRepository(MediaItem);
-    
-    // Get all items without embeddings
-    const itemsWithoutEmbeddings = await mediaRepository.find({
-      where: { embedding: null as unknown as string },
-    });
+    const args = parseArgs(process.argv.slice(2));
+    const backfillService = new EmbeddingBackfillService();
 
-    console.log(`Found ${itemsWithoutEmbeddings.length} items without embeddings`);
+    const pending = await backfillService.countPending(args.afterId);
+    const provider = await new ShadowEmbeddingService().loadActiveProvider();
+    console.log(`Found ${pending} items without embeddings`);
+    console.log(`Using embedding provider: ${provider.name} (${provider.modelName}, ${provider.dimension} dimensions)`);
 
-    for (const item of itemsWithoutEmbeddings) {
-      try {
-        console.log(`Processing: ${item.title}`);
-        
-        // Generate embedding with enhanced support for audio/video
-        const textForEmbedding = await prepareTextForEmbedding(
-          item.title,
-          item.description || undefined,
-          item.content || undefined,
-          item // Pass item for enhanced audio/video processing
-        );
-        
-        // Skip if no relevant field
-        if (!textForEmbedding || textForEmbedding.trim() === '') {
-          console.log(`⚠ Skipping ${item.title} - no ${item.type === 'text' ? 'content' : item.type === 'video' ? 'url' : 'file'}`);
-          continue;
-        }
-        
-        const embeddingArray = await generateEmbedding(textForEmbedding);
-        const embeddingString = `[${embeddingArray.join(',')}]`;
+    const result = await backfillService.run({ ...args, onProgress: logBackfillProgress });
 
-        // Update the embedding
-        await mediaRepository.query(
-          `UPDATE media_items SET embedding = $1::vector(768) WHERE id = $2`,
-          [embeddingString, item.id]
-        );
+    console.log(`Backfill complete! Generated: ${result.succeeded}, Skipped: ${result.skipped}, Failed: ${result.failed} in ${(result.elapsedMs / 1000).toFixed(1)}s`);
 
-        console.log(`✓ Added embedding for: ${item.title}`);
-        
-        // Small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 100));
-      } catch (error) {
-        console.error(`Error processing ${item.title}:`, error);
-      }
+    // Chunks and field vectors use the same batch size and concurrency
+    const indexOptions = { batchSize: args.batchSize, concurrency: args.concurrency, onProgress: logBackfillProgress };
+    const chunked = await new ChunkService().backfillMissingChunks(provider, indexOptions);
+    if (chunked > 0) {
+      console.log(`Indexed chunks for ${chunked} items with long content`);
+    }
+
+    const fieldItems = await new FieldEmbeddingService().backfillMissingFields(provider, indexOptions);
+    if (fieldItems > 0) {
+      console.log(`Embedded fields for ${fieldItems} items`);
     }
 
-    console.log('Backfill complete!');
     await AppDataSource.destroy();
     process.exit(0);
   } catch (error) {
@@ -65,4 +65,3 @@ async function backfillEmbeddings() {
 }
 
 backfillEmbeddings();
-
@@ -0,0 +1,82 @@
+import { AppDataSource } from '../config/database';
+import { EmbeddingMigrationService } from '../services/embeddingMigrationService';
+import { logBackfillProgress } from '../services/embeddingBackfillService';
+import { ShadowEmbeddingService } from '../services/shadowEmbeddingService';
+import { createConfiguredEmbeddingProvider, setEmbeddingProvider } from '../utils/embeddingProviders';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Usage:
+ *   npm run reembed:embeddings -- [--batch-size=100] [--concurrency=4] [--after=<item id>] [--status]
+ *
+ * Re-embeds every item whose embedding was produced by a different model or
+ * dimension than the configured provider. Until an item is re-embedded it is
+ * excluded from searches, so vectors from different models are never compared.
+ * Use --status to only print the per-model breakdown.
+ *
+ * Uses the provider configured through EMBEDDING_PROVIDER / EMBEDDING_MODEL and
+ * records it as the active model once every item is re-embedded. To switch
+ * models without search downtime use npm run shadow:embeddings instead.
+ */
+function parseArgs(argv: string[]): { batchSize?: number; concurrency?: number; afterId?: string; statusOnly: boolean } {
+  const args: { batchSize?: number; concurrency?: number; afterId?: string; statusOnly: boolean } = { statusOnly: false };
+  for (const arg of argv) {
+    if (arg === '--status') args.statusOnly = true;
+    const [key, value] = arg.split('=');
+    if (!value) continue;
+    if (key === '--batch-size') args.batchSize = parseInt(value);
+    if (key === '--concurrency') args.concurrency = parseInt(value);
+    if (key === '--after') args.afterId = value;
+  }
+  return args;
+}
+
+async function reembedEmbeddings() {
+  try {
+    await AppDataSource.initialize();
+    console.log('Database connected');
+
+    const { statusOnly, ...options } = parseArgs(process.argv.slice(2));
+    const migrationService = new EmbeddingMigrationService();
+    const shadowService = new ShadowEmbeddingService();
+    const configuredProvider = createConfiguredEmbeddingProvider();
+    setEmbeddingProvider(configuredProvider);
+
+    await migrationService.labelLegacyEmbeddings();
+    const status = await migrationService.getStatus();
+    console.log(`Current model: ${status.currentModel} (${status.currentDimension} dimensions)`);
+    for (const row of status.models) {
+      console.log(`  ${row.model ?? 'unknown'} (${row.dimension ?? '?'}d): ${row.count} items`);
+    }
+    console.log(`Stale: ${status.staleItems}, Missing: ${status.missingItems}`);
+
+    if (!statusOnly) {
+      const result = await migrationService.reembed({ ...options, onProgress: logBackfillProgress });
+      console.log(
+        `Re-embed complete! Generated: ${result.backfill.succeeded}, Skipped: ${result.backfill.skipped}, ` +
+        `Failed: ${result.backfill.failed} in ${(result.backfill.elapsedMs / 1000).toFixed(1)}s`
+      );
+      if (result.chunkedItems > 0) {
+        console.log(`Re-indexed chunks for ${result.chunkedItems} items with long content`);
+      }
+      if (result.fieldItems > 0) {
+        console.log(`Re-embedded fields for ${result.fieldItems} items`);
+      }
+      if ((await migrationService.getStatus()).staleItems === 0) {
+        await shadowService.setActiveProvider(configuredProvider);
+        console.log(`Active embedding model is now ${configuredProvider.modelName}`);
+      }
+      console.log(`Vector column: ${result.columnDimension !== null ? `vector(${result.columnDimension})` : 'vector (mixed dimensions remain)'}`);
+    }
+
+    await AppDataSource.destroy();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error in re-embed:', error);
+    process.exit(1);
+  }
+}
+
+reembedEmbeddings();
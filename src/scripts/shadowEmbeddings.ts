@@ -0,0 +1,105 @@
+import { AppDataSource } from '../config/database';
+import { ShadowEmbeddingService, ShadowEmbeddingStatus } from '../services/shadowEmbeddingService';
+import { logBackfillProgress } from '../services/embeddingBackfillService';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Usage:
+ *   npm run shadow:embeddings -- status
+ *   npm run shadow:embeddings -- start --provider=openai [--model=text-embedding-3-large] [--dimension=1024]
+ *   npm run shadow:embeddings -- fill [--batch-size=100] [--concurrency=4]
+ *   npm run shadow:embeddings -- swap
+ *
+ * Zero-downtime model switch: "start" records the new model, "fill" embeds every
+ * item into the shadow column while searches keep using the active column, and
+ * "swap" atomically makes the shadow column active once coverage is 100%.
+ * Running servers pick up the new active model within
+ * EmbeddingSettings.ACTIVE_MODEL_REFRESH_INTERVAL (use the admin route to swap
+ * inside the serving process instead).
+ */
+function parseArgs(argv: string[]): {
+  command: string;
+  provider?: string;
+  model?: string;
+  dimension?: number;
+  batchSize?: number;
+  concurrency?: number;
+} {
+  const args: ReturnType<typeof parseArgs> = { command: argv[0] || 'status' };
+  for (const arg of argv.slice(1)) {
+    const [key, value] = arg.split('=');
+    if (!value) continue;
+    if (key === '--provider') args.provider = value;
+    if (key === '--model') args.model = value;
+    if (key === '--dimension') args.dimension = parseInt(value);
+    if (key === '--batch-size') args.batchSize = parseInt(value);
+    if (key === '--concurrency') args.concurrency = parseInt(value);
+  }
+  return args;
+}
+
+function printStatus(status: ShadowEmbeddingStatus) {
+  console.log(`Active: ${status.active.provider} (${status.active.modelName}, ${status.active.dimension}d)`);
+  if (!status.shadow) {
+    console.log('Shadow: none');
+    return;
+  }
+  console.log(`Shadow: ${status.shadow.provider} (${status.shadow.modelName}, ${status.shadow.dimension}d)`);
+  console.log(
+    `Coverage: ${status.readyItems}/${status.totalItems} (${(status.coverage * 100).toFixed(1)}%), ` +
+    `items pending chunks: ${status.pendingChunkItems}, pending field vectors: ${status.pendingFieldItems}, ready to swap: ${status.readyToSwap ? 'yes' : 'no'}`
+  );
+}
+
+async function shadowEmbeddings() {
+  try {
+    await AppDataSource.initialize();
+    console.log('Database connected');
+
+    const args = parseArgs(process.argv.slice(2));
+    const shadowService = new ShadowEmbeddingService();
+    await shadowService.loadActiveProvider();
+
+    switch (args.command) {
+      case 'status':
+        printStatus(await shadowService.getStatus());
+        break;
+      case 'start':
+        if (!args.provider) {
+          throw new Error('--provider is required');
+        }
+        printStatus(await shadowService.start(args.provider, args.model, args.dimension));
+        break;
+      case 'fill': {
+        const result = await shadowService.fill({
+          batchSize: args.batchSize,
+          concurrency: args.concurrency,
+          onProgress: logBackfillProgress,
+        });
+        console.log(
+          `Shadow fill complete! Generated: ${result.backfill.succeeded}, Skipped: ${result.backfill.skipped}, ` +
+          `Failed: ${result.backfill.failed}, Chunked: ${result.chunkedItems}, Fields: ${result.fieldItems}`
+        );
+        printStatus(await shadowService.getStatus());
+        break;
+      }
+      case 'swap': {
+        const result = await shadowService.swap();
+        console.log(`Swap complete! ${result.previous.modelName} → ${result.active.modelName} (${result.swappedItems} items)`);
+        break;
+      }
+      default:
+        throw new Error(`Unknown command: ${args.command} (expected status, start, fill or swap)`);
+    }
+
+    await AppDataSource.destroy();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error in shadow re-embed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+shadowEmbeddings();
@@ -0,0 +1,294 @@
+import { Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { MediaItem } from '../entities/MediaItem';
+import { MediaChunk } from '../entities/MediaChunk';
+import { EmbeddingCacheService, taskTypeForUsage } from './embeddingCacheService';
+import { EmbeddingProvider, getEmbeddingProvider } from '../utils/embeddingProviders';
+import { DistanceMetric } from './mediaService';
+import { TextChunk, chunkText } from '../utils/textChunking';
+import { SearchFilters, buildFilterConditions, hasSearchFilters } from '../utils/searchFilters';
+import { BackfillOptions, BatchResult, runBackfillRounds } from './embeddingBackfillService';
+import { ChunkingSettings } from '../config/vectordb.settings';
+
+/**
+ * Best-matching passage of an item for a query
+ */
+export interface BestPassage {
+  chunkIndex: number;
+  text: string;
+  startOffset: number; // Character offset into the item's content
+  endOffset: number;
+  similarity: number;
+  distance: number;
+}
+
+/**
+ * Chunk Service
+ * Maintains the media_chunks table (overlapping passages of long content, each
+ * with its own vector) and finds the best passage per item for a query vector
+ */
+export class ChunkService {
+  private chunkRepository: Repository<MediaChunk>;
+  private embeddingCache: EmbeddingCacheService;
+
+  constructor() {
+    this.chunkRepository = AppDataSource.getRepository(MediaChunk);
+    this.embeddingCache = new EmbeddingCacheService();
+  }
+
+  /**
+   * Check whether an item's content is long enough to be chunked
+   */
+  shouldChunk(item: MediaItem): boolean {
+    return ChunkingSettings.ENABLED &&
+      !!item.content &&
+      item.content.length > ChunkingSettings.MIN_CONTENT_LENGTH;
+  }
+
+  /**
+   * (Re)build the chunks of an item for one model
+   * Chunks of other models are kept, so a shadow model can be indexed
+   * while searches keep using the active model's chunks
+   * @returns Number of chunks stored
+   */
+  async indexItem(item: MediaItem, provider: EmbeddingProvider = getEmbeddingProvider()): Promise<number> {
+    if (!this.shouldChunk(item)) {
+      await this.deleteForItem(item.id, provider.modelName);
+      return 0;
+    }
+
+    const chunks = this.chunkItem(item);
+    const embeddings = await this.embeddingCache.getEmbeddings(
+      chunks.map(chunk => this.chunkText(item, chunk)),
+      'document',
+      provider,
+      chunks.map(() => item.title)
+    );
+
+    await this.storeChunks(item, chunks, embeddings, provider);
+    return chunks.length;
+  }
+
+  /**
+   * Remove the chunks of an item (all models, or only the given one)
+   */
+  async deleteForItem(mediaItemId: string, embeddingModel?: string): Promise<void> {
+    await this.chunkRepository.delete(embeddingModel ? { mediaItemId, embeddingModel } : { mediaItemId });
+  }
+
+  /**
+   * Split an item's content into passages
+   * @private
+   */
+  private chunkItem(item: MediaItem): TextChunk[] {
+    return chunkText(
+      item.content!,
+      ChunkingSettings.CHUNK_SIZE,
+      ChunkingSettings.CHUNK_OVERLAP,
+      ChunkingSettings.MAX_CHUNKS_PER_ITEM
+    );
+  }
+
+  /**
+   * Text embedded for a passage: prefixed with the title so it keeps its document context
+   * @private
+   */
+  private chunkText(item: MediaItem, chunk: TextChunk): string {
+    return `${item.title}\n${chunk.content}`;
+  }
+
+  /**
+   * Replace the chunks of an item for one model
+   * @private
+   */
+  private async storeChunks(
+    item: MediaItem,
+    chunks: TextChunk[],
+    embeddings: number[][],
+    provider: EmbeddingProvider
+  ): Promise<void> {
+    await this.deleteForItem(item.id, provider.modelName);
+    await this.chunkRepository.query(
+      `INSERT INTO media_chunks ("mediaItemId", "chunkIndex", content, "startOffset", "endOffset", embedding, "embeddingModel", "embeddingTaskType", "embeddingDimension")
+       SELECT $1, idx, content, start_offset, end_offset, embedding::vector, $7, $8, $9
+       FROM unnest($2::int[], $3::text[], $4::int[], $5::int[], $6::text[])
+         AS t(idx, content, start_offset, end_offset, embedding)`,
+      [
+        item.id,
+        chunks.map(chunk => chunk.index),
+        chunks.map(chunk => chunk.content),
+        chunks.map(chunk => chunk.startOffset),
+        chunks.map(chunk => chunk.endOffset),
+        embeddings.map(embedding => `[${embedding.join(',')}]`),
+        provider.modelName,
+        taskTypeForUsage('document'),
+        provider.dimension,
+      ]
+    );
+  }
+
+  /**
+   * Find the best-matching chunk per item for a query vector
+   *
+   * @param queryVector - Query vector in "[1,2,3,...]" format
+   * @param candidateLimit - Number of chunks to consider (nearest first)
+   * @param metric - Distance metric to use
+   * @param filters - Only consider chunks of items matching these filters
+   * @returns Map of item ID to its best passage, nearest items first
+   */
+  async findBestChunks(
+    queryVector: string,
+    candidateLimit: number,
+    metric: DistanceMetric = 'cosine',
+    filters: SearchFilters = {}
+  ): Promise<Map<string, BestPassage>> {
+    const best = new Map<string, BestPassage>();
+    if (!ChunkingSettings.ENABLED) return best;
+
+    let distanceExpression: string;
+    let similarityExpression: string;
+    switch (metric) {
+      case 'l2':
+        distanceExpression = 'embedding::vector <-> $1::vector';
+        similarityExpression = `1 / (1 + (${distanceExpression}))`;
+        break;
+      case 'inner_product':
+        distanceExpression = 'embedding::vector <#> $1::vector';
+        similarityExpression = `-1 * (${distanceExpression})`;
+        break;
+      case 'cosine':
+      default:
+        distanceExpression = 'embedding::vector <=> $1::vector';
+        similarityExpression = `1 - (${distanceExpression})`;
+    }
+
+    let rows: Array<{
+      mediaItemId: string;
+      chunkIndex: number;
+      content: string;
+      startOffset: number;
+      endOffset: number;
+      distance: number;
+      similarity: number;
+    }>;
+    const provider = getEmbeddingProvider();
+    const params: any[] = [queryVector, candidateLimit, provider.modelName, taskTypeForUsage('document'), provider.dimension];
+    const filterCondition = hasSearchFilters(filters)
+      ? `AND "mediaItemId" IN (SELECT id FROM media_items WHERE TRUE ${buildFilterConditions(filters, params)})`
+      : '';
+
+    try {
+      rows = await this.chunkRepository.query(
+        `
+        SELECT
+          "mediaItemId", "chunkIndex", content, "startOffset", "endOffset",
+          (${distanceExpression}) as distance,
+          (${similarityExpression}) as similarity
+        FROM media_chunks
+        WHERE embedding IS NOT NULL
+          AND "embeddingModel" = $3
+          AND "embeddingTaskType" = $4
+          AND "embeddingDimension" = $5
+          ${filterCondition}
+        ORDER BY (${distanceExpression}) ASC
+        LIMIT $2
+        `,
+        params
+      );
+    } catch (error) {
+      console.error('Error in chunk search query:', error);
+      return best;
+    }
+
+    // Rows are ordered by distance, so the first chunk seen per item is its best
+    for (const row of rows) {
+      if (best.has(row.mediaItemId)) continue;
+      best.set(row.mediaItemId, {
+        chunkIndex: row.chunkIndex,
+        text: row.content,
+        startOffset: row.startOffset,
+        endOffset: row.endOffset,
+        similarity: row.similarity,
+        distance: row.distance,
+      });
+    }
+
+    return best;
+  }
+
+  /**
+   * Chunk items with long content that have no chunks from the current model yet
+   * (items created before chunking was enabled, or chunked by a previous model)
+   * Walks the items in ID order with the backfill's batches, concurrency and progress.
+   * @param provider - Model to chunk for (default: the active provider)
+   * @param options - Batch size, concurrency, afterId and onProgress (see BackfillOptions)
+   * @returns Number of items chunked
+   */
+  async backfillMissingChunks(
+    provider: EmbeddingProvider = getEmbeddingProvider(),
+    options: BackfillOptions = {}
+  ): Promise<number> {
+    if (!ChunkingSettings.ENABLED) return 0;
+
+    const pending = (afterId: string | undefined) => {
+      const query = AppDataSource.getRepository(MediaItem)
+        .createQueryBuilder('item')
+        .where('LENGTH(item.content) > :minLength', { minLength: ChunkingSettings.MIN_CONTENT_LENGTH })
+        .andWhere(
+          'NOT EXISTS (SELECT 1 FROM media_chunks c WHERE c."mediaItemId" = item.id ' +
+          'AND c."embeddingModel" = :model AND c."embeddingDimension" = :dimension AND c."embeddingTaskType" = :taskType)',
+          { model: provider.modelName, dimension: provider.dimension, taskType: taskTypeForUsage('document') }
+        );
+      if (afterId) {
+        query.andWhere('item.id > :afterId', { afterId });
+      }
+      return query;
+    };
+
+    const progress = await runBackfillRounds(
+      pending,
+      items => this.indexBatch(items, provider),
+      { ...options, provider }
+    );
+    return progress.succeeded;
+  }
+
+  /**
+   * Chunk a batch of items, embedding the passages of every item in one batched call
+   * Falls back to item-by-item indexing if the batch request fails
+   * @private
+   */
+  private async indexBatch(items: MediaItem[], provider: EmbeddingProvider): Promise<BatchResult> {
+    const result: BatchResult = { succeeded: 0, skipped: 0, failed: 0 };
+    const chunked = items.map(item => ({ item, chunks: this.chunkItem(item) }));
+
+    let embeddings: number[][] | undefined;
+    try {
+      embeddings = await this.embeddingCache.getEmbeddings(
+        chunked.flatMap(({ item, chunks }) => chunks.map(chunk => this.chunkText(item, chunk))),
+        'document',
+        provider,
+        chunked.flatMap(({ item, chunks }) => chunks.map(() => item.title))
+      );
+    } catch (error) {
+      console.warn(`Batch chunk embedding failed (${error instanceof Error ? error.message : error}), retrying items individually`);
+    }
+
+    let offset = 0;
+    for (const { item, chunks } of chunked) {
+      try {
+        if (embeddings) {
+          await this.storeChunks(item, chunks, embeddings.slice(offset, offset + chunks.length), provider);
+        } else {
+          await this.indexItem(item, provider);
+        }
+        result.succeeded++;
+      } catch (error) {
+        console.error(`✗ Error chunking "${item.title}":`, error instanceof Error ? error.message : error);
+        result.failed++;
+      }
+      offset += chunks.length;
+    }
+    return result;
+  }
+}
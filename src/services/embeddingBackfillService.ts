@@ -0,0 +1,291 @@
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { MediaItem, EmbeddingStatus } from '../entities/MediaItem';
+import { prepareTextForEmbedding, getEmbeddingCircuitStatus } from '../utils/embeddings';
+import { EmbeddingCacheService, taskTypeForUsage } from './embeddingCacheService';
+import { EmbeddingProvider, getEmbeddingProvider } from '../utils/embeddingProviders';
+import { EmbeddingSettings, PerformanceSettings } from '../config/vectordb.settings';
+
+/**
+ * Backfill options
+ */
+export interface BackfillOptions {
+  batchSize?: number; // Items per embedding request (default: PerformanceSettings.BATCH_SIZE)
+  concurrency?: number; // Batches embedded in parallel (default: EmbeddingSettings.BACKFILL_CONCURRENCY)
+  afterId?: string; // Resume after this item ID (items are processed in ID order)
+  includeStale?: boolean; // Also re-embed items embedded by a different model/dimension (re-embed job)
+  target?: 'active' | 'shadow'; // Column to fill: embedding (default) or shadowEmbedding
+  provider?: EmbeddingProvider; // Provider to embed with (default: the active provider)
+  onProgress?: (progress: BackfillProgress) => void;
+}
+
+/**
+ * Backfill progress snapshot (also the final result)
+ */
+export interface BackfillProgress {
+  total: number;
+  processed: number;
+  succeeded: number;
+  skipped: number;
+  failed: number;
+  lastId?: string; // Pass as afterId to resume from here
+  elapsedMs: number;
+  itemsPerSecond: number;
+  etaSeconds: number;
+}
+
+/**
+ * Outcome of one batch of a backfill
+ */
+export interface BatchResult {
+  succeeded: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Walk pending items in ID order, one round of concurrent batches at a time,
+ * reporting progress after each round (shared by the embedding, chunk and field backfills)
+ * @param pending - Query of the items still pending after an ID
+ * @param processBatch - Process one batch of items
+ * @param options - batchSize, concurrency, afterId, provider (circuit breaker) and onProgress
+ */
+export async function runBackfillRounds(
+  pending: (afterId: string | undefined) => SelectQueryBuilder<MediaItem>,
+  processBatch: (items: MediaItem[]) => Promise<BatchResult>,
+  options: BackfillOptions = {}
+): Promise<BackfillProgress> {
+  const batchSize = Math.max(1, options.batchSize ?? PerformanceSettings.BATCH_SIZE);
+  const concurrency = Math.max(1, options.concurrency ?? EmbeddingSettings.BACKFILL_CONCURRENCY);
+  const startedAt = Date.now();
+
+  const progress: BackfillProgress = {
+    total: await pending(options.afterId).getCount(),
+    processed: 0,
+    succeeded: 0,
+    skipped: 0,
+    failed: 0,
+    lastId: options.afterId,
+    elapsedMs: 0,
+    itemsPerSecond: 0,
+    etaSeconds: 0,
+  };
+
+  if (progress.total === 0) {
+    return progress;
+  }
+
+  while (true) {
+    // Wait out an open circuit instead of failing every item in the round
+    const circuitWait = getEmbeddingCircuitStatus(options.provider).retryAfterMs;
+    if (circuitWait > 0) {
+      console.warn(`⚠ Embedding provider unavailable, pausing backfill for ${Math.ceil(circuitWait / 1000)}s`);
+      await new Promise(resolve => setTimeout(resolve, circuitWait));
+    }
+
+    // Fetch enough items for one round of concurrent batches
+    const window = await pending(progress.lastId)
+      .orderBy('item.id', 'ASC')
+      .take(batchSize * concurrency)
+      .getMany();
+
+    if (window.length === 0) break;
+
+    const batches: MediaItem[][] = [];
+    for (let i = 0; i < window.length; i += batchSize) {
+      batches.push(window.slice(i, i + batchSize));
+    }
+
+    const batchResults = await Promise.all(batches.map(processBatch));
+
+    for (const result of batchResults) {
+      progress.succeeded += result.succeeded;
+      progress.skipped += result.skipped;
+      progress.failed += result.failed;
+    }
+    progress.processed += window.length;
+    progress.lastId = window[window.length - 1].id;
+    progress.elapsedMs = Date.now() - startedAt;
+    progress.itemsPerSecond = Math.round((progress.processed / Math.max(progress.elapsedMs, 1)) * 1000 * 10) / 10;
+    progress.etaSeconds = progress.itemsPerSecond > 0
+      ? Math.round(Math.max(progress.total - progress.processed, 0) / progress.itemsPerSecond)
+      : 0;
+
+    options.onProgress?.({ ...progress });
+
+    // Small delay between rounds to avoid rate limiting (from settings)
+    await new Promise(resolve => setTimeout(resolve, EmbeddingSettings.RATE_LIMIT_DELAY));
+  }
+
+  progress.elapsedMs = Date.now() - startedAt;
+  return progress;
+}
+
+/**
+ * Embedding Backfill Service
+ * Generates embeddings for items that have none, in batches with bounded concurrency.
+ * Resumable: items are walked in ID order and only rows still missing an embedding
+ * are selected, so re-running after an interruption picks up where it stopped.
+ */
+export class EmbeddingBackfillService {
+  private mediaRepository: Repository<MediaItem>;
+  private embeddingCache: EmbeddingCacheService;
+
+  constructor() {
+    this.mediaRepository = AppDataSource.getRepository(MediaItem);
+    this.embeddingCache = new EmbeddingCacheService();
+  }
+
+  /**
+   * Count items still waiting for an embedding
+   */
+  async countPending(afterId?: string, includeStale: boolean = false): Promise<number> {
+    return await this.pendingQuery(afterId, { includeStale }).getCount();
+  }
+
+  /**
+   * Items without an embedding (and optionally, with an embedding from another model)
+   * The shadow column is always compared against the provider's model
+   * @private
+   */
+  private pendingQuery(afterId: string | undefined, options: BackfillOptions) {
+    const query = this.mediaRepository.createQueryBuilder('item');
+    const provider = options.provider ?? getEmbeddingProvider();
+    const current = { model: provider.modelName, dimension: provider.dimension, taskType: taskTypeForUsage('document') };
+    if (options.target === 'shadow') {
+      query.where(
+        '(item.shadowEmbedding IS NULL OR item.shadowEmbeddingModel IS DISTINCT FROM :model ' +
+        'OR item.shadowEmbeddingDimension IS DISTINCT FROM :dimension OR item.shadowEmbeddingTaskType IS DISTINCT FROM :taskType)',
+        current
+      );
+    } else if (options.includeStale) {
+      query.where(
+        '(item.embedding IS NULL OR item.embeddingModel IS DISTINCT FROM :model ' +
+        'OR item.embeddingDimension IS DISTINCT FROM :dimension OR item.embeddingTaskType IS DISTINCT FROM :taskType)',
+        current
+      );
+    } else {
+      // Items that exhausted their retries are only picked up again through the retry route
+      query.where('item.embedding IS NULL AND item.embeddingStatus != :failed', { failed: EmbeddingStatus.FAILED });
+    }
+    if (afterId) {
+      query.andWhere('item.id > :afterId', { afterId });
+    }
+    return query;
+  }
+
+  /**
+   * Run the backfill
+   */
+  async run(options: BackfillOptions = {}): Promise<BackfillProgress> {
+    return await runBackfillRounds(
+      afterId => this.pendingQuery(afterId, options),
+      batch => this.processBatch(batch, options),
+      options
+    );
+  }
+
+  /**
+   * Embed and store one batch of items
+   * Falls back to item-by-item embedding if the batch request fails,
+   * so one bad input does not fail the whole batch
+   * @private
+   */
+  private async processBatch(items: MediaItem[], options: BackfillOptions): Promise<BatchResult> {
+    const provider = options.provider ?? getEmbeddingProvider();
+    let skipped = 0;
+    let failed = 0;
+
+    // Generate text with enhanced support for audio/video
+    const prepared: Array<{ item: MediaItem; text: string }> = [];
+    for (const item of items) {
+      try {
+        const text = await prepareTextForEmbedding(
+          item.title,
+          item.description || undefined,
+          item.content || undefined,
+          item // Pass item for enhanced audio/video processing
+        );
+        // Skip if no relevant field
+        if (!text || text.trim() === '') {
+          console.log(`⚠ Skipping "${item.title}" - no text content to embed`);
+          skipped++;
+          continue;
+        }
+        prepared.push({ item, text });
+      } catch (error) {
+        console.error(`✗ Error preparing "${item.title}":`, error instanceof Error ? error.message : error);
+        failed++;
+      }
+    }
+
+    if (prepared.length === 0) {
+      return { succeeded: 0, skipped, failed };
+    }
+
+    const embedded: Array<{ id: string; embedding: number[] }> = [];
+    try {
+      const embeddings = await this.embeddingCache.getEmbeddings(
+        prepared.map(p => p.text),
+        'document',
+        provider,
+        prepared.map(p => p.item.title)
+      );
+      prepared.forEach((p, i) => embedded.push({ id: p.item.id, embedding: embeddings[i] }));
+    } catch (error) {
+      console.warn(`Batch embedding failed (${error instanceof Error ? error.message : error}), retrying items individually`);
+      for (const p of prepared) {
+        try {
+          const embedding = await this.embeddingCache.getEmbedding(p.text, 'document', provider, p.item.title);
+          embedded.push({ id: p.item.id, embedding });
+        } catch (itemError) {
+          console.error(`✗ Error processing "${p.item.title}":`, itemError instanceof Error ? itemError.message : itemError);
+          failed++;
+        }
+      }
+    }
+
+    if (embedded.length === 0) {
+      return { succeeded: 0, skipped, failed };
+    }
+
+    try {
+      // Record which model produced each vector so mixed-model vectors are never compared
+      const setClause = options.target === 'shadow'
+        ? `"shadowEmbedding" = v.embedding::vector, "shadowEmbeddingModel" = $3, "shadowEmbeddingDimension" = $4,
+           "shadowEmbeddingTaskType" = $5`
+        : `embedding = v.embedding::vector, "embeddingModel" = $3, "embeddingDimension" = $4, "embeddingTaskType" = $5,
+           "embeddingStatus" = 'ready', "embeddingError" = NULL, "embeddingNextAttemptAt" = NULL`;
+      await this.mediaRepository.query(
+        `UPDATE media_items AS m
+         SET ${setClause}
+         FROM unnest($1::uuid[], $2::text[]) AS v(id, embedding)
+         WHERE m.id = v.id`,
+        [
+          embedded.map(e => e.id),
+          embedded.map(e => `[${e.embedding.join(',')}]`),
+          provider.modelName,
+          embedded[0].embedding.length,
+          taskTypeForUsage('document'),
+        ]
+      );
+    } catch (error) {
+      console.error('✗ Error saving batch embeddings:', error instanceof Error ? error.message : error);
+      return { succeeded: 0, skipped, failed: failed + embedded.length };
+    }
+
+    return { succeeded: embedded.length, skipped, failed };
+  }
+}
+
+/**
+ * Default progress logger for backfill runs
+ */
+export function logBackfillProgress(progress: BackfillProgress): void {
+  const percent = progress.total > 0 ? ((progress.processed / progress.total) * 100).toFixed(1) : '100.0';
+  console.log(
+    `  ${progress.processed}/${progress.total} (${percent}%) - ` +
+    `ok: ${progress.succeeded}, skipped: ${progress.skipped}, failed: ${progress.failed} - ` +
+    `${progress.itemsPerSecond} items/s, ETA ${progress.etaSeconds}s (last ID: ${progress.lastId})`
+  );
+}
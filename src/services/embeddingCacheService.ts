@@ -0,0 +1,261 @@
+import { createHash } from 'crypto';
+import { Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { EmbeddingCacheEntry } from '../entities/EmbeddingCacheEntry';
+import { generateEmbedding, generateEmbeddings } from '../utils/embeddings';
+import { EmbeddingProvider, EmbeddingTaskType, getEmbeddingProvider } from '../utils/embeddingProviders';
+import { LRUCache } from '../utils/lruCache';
+import { PerformanceSettings } from '../config/vectordb.settings';
+
+/**
+ * What the embedding is used for
+ * - query: search text, embedded as retrieval_query and also kept in the
+ *   in-process LRU (queries repeat a lot)
+ * - document: item text, embedded as retrieval_document and only kept in the
+ *   persistent cache
+ */
+export type EmbeddingUsage = 'query' | 'document';
+
+/**
+ * Task type used to embed text for a usage
+ */
+export function taskTypeForUsage(usage: EmbeddingUsage): EmbeddingTaskType {
+  return usage === 'query' ? 'retrieval_query' : 'retrieval_document';
+}
+
+/**
+ * Embedding cache hit/miss statistics
+ */
+export interface EmbeddingCacheStats {
+  enabled: boolean;
+  memoryHits: number;
+  persistentHits: number;
+  misses: number;
+  hitRate: number; // 0-1, (memory + persistent hits) / lookups
+  memoryEntries: number;
+  persistentEntries: number;
+}
+
+// Shared across all service instances (routes, recommendation service, backfill)
+const queryCache = new LRUCache<string, number[]>(
+  PerformanceSettings.QUERY_CACHE_MAX_ENTRIES,
+  PerformanceSettings.CACHE_TTL * 1000
+);
+
+const counters = {
+  memoryHits: 0,
+  persistentHits: 0,
+  misses: 0,
+};
+
+/**
+ * Hash text for use as a cache key
+ */
+export function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Embedding Cache Service
+ * Wraps generateEmbedding with a persistent cache keyed by hash(text) + model + dimension
+ * and an in-process LRU for query embeddings
+ */
+export class EmbeddingCacheService {
+  private cacheRepository: Repository<EmbeddingCacheEntry>;
+
+  constructor() {
+    this.cacheRepository = AppDataSource.getRepository(EmbeddingCacheEntry);
+  }
+
+  /**
+   * Get an embedding for the text, generating (and caching) it on a miss
+   * 
+   * @param text - Text to embed
+   * @param usage - 'query' for search text, 'document' for item text
+   * @param provider - Provider to embed with (default: the active provider)
+   * @param title - Document title (documents only)
+   */
+  async getEmbedding(
+    text: string,
+    usage: EmbeddingUsage = 'document',
+    provider: EmbeddingProvider = getEmbeddingProvider(),
+    title?: string
+  ): Promise<number[]> {
+    if (!PerformanceSettings.ENABLE_CACHING) {
+      return await generateEmbedding(text, provider, { taskType: taskTypeForUsage(usage), title });
+    }
+
+    const [embedding] = await this.getEmbeddings([text], usage, provider, [title]);
+    return embedding;
+  }
+
+  /**
+   * Get embeddings for several texts, generating all cache misses in batches
+   * Output order matches input order
+   * 
+   * @param texts - Texts to embed
+   * @param usage - 'query' for search text, 'document' for item text
+   * @param provider - Provider to embed with (default: the active provider)
+   * @param titles - Document titles by index (documents only)
+   * @param bestEffort - Generate misses without retries or circuit breaker accounting (optional extras)
+   */
+  async getEmbeddings(
+    texts: string[],
+    usage: EmbeddingUsage = 'document',
+    provider: EmbeddingProvider = getEmbeddingProvider(),
+    titles?: Array<string | undefined>,
+    bestEffort: boolean = false
+  ): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const taskType = taskTypeForUsage(usage);
+    if (usage === 'query') {
+      titles = undefined; // Titles only apply to documents
+    }
+
+    if (!PerformanceSettings.ENABLE_CACHING) {
+      return await generateEmbeddings(texts, provider, { taskType, titles }, bestEffort);
+    }
+
+    // The task type and title change the vector, so they are part of the key
+    const hashes = texts.map((text, i) => hashText(`${taskType}\n${titles?.[i] ?? ''}\n${text}`));
+    const resolved = new Map<string, number[]>();
+
+    // 1. In-process LRU (queries only)
+    if (usage === 'query') {
+      for (const hash of hashes) {
+        const cached = queryCache.get(`${provider.modelName}:${provider.dimension}:${hash}`);
+        if (cached) resolved.set(hash, cached);
+      }
+    }
+
+    // 2. Persistent cache
+    const unresolvedHashes = [...new Set(hashes.filter(hash => !resolved.has(hash)))];
+    const persisted = await this.findPersisted(unresolvedHashes, provider);
+    for (const [hash, embedding] of persisted) {
+      if (embedding.length === provider.dimension) {
+        resolved.set(hash, embedding);
+      }
+    }
+
+    // 3. Generate the rest in one batched pass (deduplicated by hash)
+    const missing = new Map<string, number>(); // hash -> index of the first text with it
+    hashes.forEach((hash, i) => {
+      if (!resolved.has(hash) && !missing.has(hash)) missing.set(hash, i);
+    });
+
+    if (missing.size > 0) {
+      const missingIndexes = [...missing.values()];
+      const generated = await generateEmbeddings(
+        missingIndexes.map(i => texts[i]),
+        provider,
+        { taskType, titles: titles ? missingIndexes.map(i => titles![i]) : undefined },
+        bestEffort
+      );
+      const missingHashes = [...missing.keys()];
+      missingHashes.forEach((hash, i) => resolved.set(hash, generated[i]));
+      await this.persist(missingHashes, generated, provider);
+    }
+
+    // Record statistics per requested text
+    hashes.forEach(hash => {
+      if (missing.has(hash)) counters.misses++;
+      else if (persisted.has(hash)) counters.persistentHits++;
+      else counters.memoryHits++;
+    });
+
+    if (usage === 'query') {
+      for (const hash of hashes) {
+        queryCache.set(`${provider.modelName}:${provider.dimension}:${hash}`, resolved.get(hash)!);
+      }
+    }
+
+    return hashes.map(hash => resolved.get(hash)!);
+  }
+
+  /**
+   * Get cache hit/miss statistics
+   */
+  async getStats(): Promise<EmbeddingCacheStats> {
+    const lookups = counters.memoryHits + counters.persistentHits + counters.misses;
+    let persistentEntries = 0;
+    try {
+      persistentEntries = await this.cacheRepository.count();
+    } catch (error) {
+      console.warn('Error counting embedding cache entries:', error instanceof Error ? error.message : error);
+    }
+
+    return {
+      enabled: PerformanceSettings.ENABLE_CACHING,
+      ...counters,
+      hitRate: lookups > 0
+        ? Math.round(((counters.memoryHits + counters.persistentHits) / lookups) * 1000) / 1000
+        : 0,
+      memoryEntries: queryCache.size,
+      persistentEntries,
+    };
+  }
+
+  /**
+   * Delete persisted embeddings older than PerformanceSettings.PERSISTENT_CACHE_TTL
+   * @returns Number of rows deleted
+   */
+  async pruneExpired(): Promise<number> {
+    const result = await this.cacheRepository.query(
+      `DELETE FROM embedding_cache WHERE "createdAt" < now() - make_interval(secs => $1)`,
+      [PerformanceSettings.PERSISTENT_CACHE_TTL]
+    );
+    // DELETE via query() resolves to [rows, affectedCount] on postgres
+    return Array.isArray(result) ? result[1] ?? 0 : 0;
+  }
+
+  /**
+   * Look up unexpired persisted embeddings by hash (cache failures never break embedding)
+   * @private
+   */
+  private async findPersisted(contentHashes: string[], provider: EmbeddingProvider): Promise<Map<string, number[]>> {
+    const found = new Map<string, number[]>();
+    if (contentHashes.length === 0) return found;
+
+    try {
+      const rows: Array<{ contentHash: string; embedding: string }> = await this.cacheRepository.query(
+        `SELECT "contentHash", embedding FROM embedding_cache
+         WHERE "modelName" = $1 AND dimension = $2 AND "contentHash" = ANY($3::varchar[])
+           AND "createdAt" >= now() - make_interval(secs => $4)`,
+        [provider.modelName, provider.dimension, contentHashes, PerformanceSettings.PERSISTENT_CACHE_TTL]
+      );
+      for (const row of rows) {
+        found.set(row.contentHash, JSON.parse(row.embedding));
+      }
+    } catch (error) {
+      console.warn('Error reading embedding cache:', error instanceof Error ? error.message : error);
+    }
+    return found;
+  }
+
+  /**
+   * Persist embeddings in the cache table (replacing expired rows)
+   * @private
+   */
+  private async persist(contentHashes: string[], embeddings: number[][], provider: EmbeddingProvider): Promise<void> {
+    if (contentHashes.length === 0) return;
+
+    try {
+      await this.cacheRepository.query(
+        `INSERT INTO embedding_cache ("contentHash", "modelName", dimension, embedding)
+         SELECT hash, $3, $4, embedding
+         FROM unnest($1::varchar[], $2::text[]) AS t(hash, embedding)
+         ON CONFLICT ("contentHash", "modelName", dimension)
+         DO UPDATE SET embedding = EXCLUDED.embedding, "createdAt" = now()`,
+        [
+          contentHashes,
+          embeddings.map(embedding => `[${embedding.join(',')}]`),
+          provider.modelName,
+          provider.dimension,
+        ]
+      );
+    } catch (error) {
+      console.warn('Error writing embedding cache:', error instanceof Error ? error.message : error);
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { AppDataSource } from '../config/database';
+import { getEmbeddingProvider } from '../utils/embeddingProviders';
+import { EmbeddingBackfillService, BackfillOptions, BackfillProgress } from './embeddingBackfillService';
+import { ChunkService } from './chunkService';
+import { FieldEmbeddingService } from './fieldEmbeddingService';
+import { taskTypeForUsage } from './embeddingCacheService';
+import { EmbeddingSettings } from '../config/vectordb.settings';
+
+/**
+ * Embedding model status of the library
+ */
+export interface EmbeddingModelStatus {
+  currentModel: string;
+  currentDimension: number;
+  columnDimension: number | null; // Declared vector(N) of media_items.embedding, null if unconstrained
+  models: Array<{ model: string | null; dimension: number | null; taskType: string | null; count: number }>;
+  staleItems: number; // Embedded by another model, with another dimension or without the document task type
+  missingItems: number; // No embedding at all
+}
+
+/**
+ * Re-embed result
+ */
+export interface ReembedResult {
+  backfill: BackfillProgress;
+  chunkedItems: number;
+  fieldItems: number;
+  columnDimension: number | null;
+}
+
+const VECTOR_TABLES = ['media_items', 'media_chunks', 'media_field_embeddings'];
+
+/**
+ * Embedding Migration Service
+ * Detects when the configured embedding model or dimension changes and re-embeds
+ * the library. Every vector is tagged with the model that produced it and searches
+ * only compare vectors of the current model, so a partially re-embedded library
+ * returns fewer results rather than wrong ones.
+ */
+export class EmbeddingMigrationService {
+  private backfillService: EmbeddingBackfillService;
+
+  constructor() {
+    this.backfillService = new EmbeddingBackfillService();
+  }
+
+  /**
+   * Tag embeddings stored before model tracking existed with the default model
+   * (and chunks/field vectors stored before dimension tracking with their dimension)
+   * @returns Number of items labelled
+   */
+  async labelLegacyEmbeddings(): Promise<number> {
+    const result = await AppDataSource.query(
+      `UPDATE media_items
+       SET "embeddingModel" = $1, "embeddingDimension" = vector_dims(embedding::vector)
+       WHERE embedding IS NOT NULL AND "embeddingModel" IS NULL`,
+      [EmbeddingSettings.MODEL_NAME]
+    );
+    await AppDataSource.query(
+      `UPDATE media_chunks SET "embeddingModel" = $1
+       WHERE embedding IS NOT NULL AND "embeddingModel" IS NULL`,
+      [EmbeddingSettings.MODEL_NAME]
+    );
+    // Chunks and field vectors stored before they recorded their dimension
+    for (const table of ['media_chunks', 'media_field_embeddings']) {
+      await AppDataSource.query(
+        `UPDATE ${table} SET "embeddingDimension" = vector_dims(embedding::vector)
+         WHERE embedding IS NOT NULL AND "embeddingDimension" IS NULL`
+      );
+    }
+    // UPDATE via query() resolves to [rows, affectedCount] on postgres
+    return Array.isArray(result) ? result[1] ?? 0 : 0;
+  }
+
+  /**
+   * Compare stored embeddings against the configured provider
+   */
+  async getStatus(): Promise<EmbeddingModelStatus> {
+    const provider = getEmbeddingProvider();
+
+    const modelRows = await AppDataSource.query(`
+      SELECT "embeddingModel" as model, "embeddingDimension" as dimension, "embeddingTaskType" as "taskType",
+             COUNT(*) as count
+      FROM media_items
+      WHERE embedding IS NOT NULL
+      GROUP BY "embeddingModel", "embeddingDimension", "embeddingTaskType"
+      ORDER BY COUNT(*) DESC
+    `);
+    type ModelRow = { model: string | null; dimension: number | null; taskType: string | null };
+    const models = modelRows.map((row: ModelRow & { count: string }) => ({
+      model: row.model,
+      dimension: row.dimension,
+      taskType: row.taskType,
+      count: parseInt(row.count),
+    }));
+
+    const staleItems = models
+      .filter((row: ModelRow) =>
+        row.model !== provider.modelName ||
+        row.dimension !== provider.dimension ||
+        row.taskType !== taskTypeForUsage('document'))
+      .reduce((sum: number, row: { count: number }) => sum + row.count, 0);
+
+    const missingResult = await AppDataSource.query(
+      'SELECT COUNT(*) as count FROM media_items WHERE embedding IS NULL'
+    );
+
+    return {
+      currentModel: provider.modelName,
+      currentDimension: provider.dimension,
+      columnDimension: await this.getColumnDimension('media_items'),
+      models,
+      staleItems,
+      missingItems: parseInt(missingResult[0]?.count || '0'),
+    };
+  }
+
+  /**
+   * Relax vector(N) columns to unconstrained vector when the provider's dimension
+   * differs, so vectors of the new dimension can be written next to the old ones
+   */
+  async prepareColumns(): Promise<void> {
+    const dimension = getEmbeddingProvider().dimension;
+    for (const table of VECTOR_TABLES) {
+      const columnDimension = await this.getColumnDimension(table);
+      if (columnDimension !== null && columnDimension !== dimension) {
+        await AppDataSource.query(`ALTER TABLE ${table} ALTER COLUMN embedding TYPE vector`);
+        console.log(`✓ Relaxed ${table}.embedding from vector(${columnDimension}) to vector for ${dimension}-dimension embeddings`);
+      }
+    }
+  }
+
+  /**
+   * Pin vector columns to the provider's dimension once no stale vectors remain
+   * @returns Whether the columns were pinned
+   */
+  async finalizeColumns(): Promise<boolean> {
+    const provider = getEmbeddingProvider();
+    const status = await this.getStatus();
+    if (status.staleItems > 0) {
+      return false;
+    }
+
+    // Chunks and field vectors from other models or dimensions are only dropped once every
+    // item has been re-embedded (those of a shadow model being filled are kept)
+    for (const table of ['media_chunks', 'media_field_embeddings']) {
+      await AppDataSource.query(
+        `DELETE FROM ${table}
+         WHERE ("embeddingModel" IS DISTINCT FROM $1
+                AND "embeddingModel" NOT IN (SELECT "modelName" FROM embedding_state))
+            OR ("embeddingModel" = $1 AND "embeddingDimension" IS DISTINCT FROM $2)`,
+        [provider.modelName, provider.dimension]
+      );
+    }
+
+    for (const table of VECTOR_TABLES) {
+      if (await this.getColumnDimension(table) === null) {
+        await AppDataSource.query(
+          `ALTER TABLE ${table} ALTER COLUMN embedding TYPE vector(${provider.dimension})`
+        );
+        console.log(`✓ Pinned ${table}.embedding to vector(${provider.dimension})`);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Re-embed every item that is missing an embedding or was embedded by a
+   * different model/dimension, then rebuild chunks and field vectors for the current model.
+   * Resumable like the backfill: pass the last ID from progress as afterId.
+   */
+  async reembed(options: BackfillOptions = {}): Promise<ReembedResult> {
+    await this.labelLegacyEmbeddings();
+    await this.prepareColumns();
+
+    const backfill = await this.backfillService.run({ ...options, includeStale: true });
+    const chunkedItems = await new ChunkService().backfillMissingChunks();
+    const fieldItems = await new FieldEmbeddingService().backfillMissingFields();
+
+    await this.finalizeColumns();
+
+    return {
+      backfill,
+      chunkedItems,
+      fieldItems,
+      columnDimension: await this.getColumnDimension('media_items'),
+    };
+  }
+
+  /**
+   * Read the declared dimension of a vector column
+   * (pgvector stores it as the column's type modifier)
+   * @returns Dimension, or null if the column is unconstrained or missing
+   */
+  async getColumnDimension(tableName: string, columnName: string = 'embedding'): Promise<number | null> {
+    const rows = await AppDataSource.query(
+      `SELECT a.atttypmod as typmod
+       FROM pg_attribute a
+       WHERE a.attrelid = $1::regclass AND a.attname = $2 AND NOT a.attisdropped`,
+      [tableName, columnName]
+    );
+    if (rows.length === 0 || rows[0].typmod < 0) {
+      return null;
+    }
+    return rows[0].typmod;
+  }
+}
@@ -0,0 +1,354 @@
+import { In, Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { MediaItem, EmbeddingStatus } from '../entities/MediaItem';
+import { EmbeddingField } from '../entities/MediaFieldEmbedding';
+import { prepareFieldTextsForEmbedding, joinFieldTexts } from '../utils/embeddings';
+import { getEmbeddingProvider } from '../utils/embeddingProviders';
+import { classifyEmbeddingError } from '../utils/embeddingErrors';
+import { EmbeddingCacheService, taskTypeForUsage } from './embeddingCacheService';
+import { ChunkService } from './chunkService';
+import { FieldEmbeddingService } from './fieldEmbeddingService';
+import { ShadowEmbeddingService } from './shadowEmbeddingService';
+import { SavedSearchService } from './savedSearchService';
+import { EmbeddingPipelineSettings, LimitSettings } from '../config/vectordb.settings';
+
+/**
+ * Pipeline status counts
+ */
+export type EmbeddingStatusCounts = Record<EmbeddingStatus, number>;
+
+// Worker state (one worker per process)
+let workerStarted = false;
+let workerBusy = false;
+let workerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Embedding Pipeline Service
+ * Items are saved with embeddingStatus = pending and embedded by a background
+ * worker: pending → processing → ready, or back to pending with a retry delay
+ * on errors until EmbeddingPipelineSettings.MAX_ATTEMPTS, then failed.
+ * Items are claimed with FOR UPDATE SKIP LOCKED, so several server processes
+ * can run workers against the same database.
+ */
+export class EmbeddingPipelineService {
+  private mediaRepository: Repository<MediaItem>;
+  private embeddingCache: EmbeddingCacheService;
+  private chunkService: ChunkService;
+  private fieldEmbeddingService: FieldEmbeddingService;
+  private shadowEmbeddingService: ShadowEmbeddingService;
+  private savedSearchService: SavedSearchService;
+
+  constructor() {
+    this.mediaRepository = AppDataSource.getRepository(MediaItem);
+    this.embeddingCache = new EmbeddingCacheService();
+    this.chunkService = new ChunkService();
+    this.fieldEmbeddingService = new FieldEmbeddingService();
+    this.shadowEmbeddingService = new ShadowEmbeddingService();
+    this.savedSearchService = new SavedSearchService();
+  }
+
+  /**
+   * Start the background worker
+   * Items left in processing by a previous run are put back in the queue
+   */
+  async start(): Promise<void> {
+    if (workerStarted) return;
+
+    await this.mediaRepository.query(
+      `UPDATE media_items SET "embeddingStatus" = $1 WHERE "embeddingStatus" = $2`,
+      [EmbeddingStatus.PENDING, EmbeddingStatus.PROCESSING]
+    );
+
+    // Items embedded before the pipeline existed got the default (pending) status
+    await this.mediaRepository.query(
+      `UPDATE media_items SET "embeddingStatus" = $1
+       WHERE "embeddingStatus" = $2 AND "embeddingAttempts" = 0 AND embedding IS NOT NULL`,
+      [EmbeddingStatus.READY, EmbeddingStatus.PENDING]
+    );
+
+    workerStarted = true;
+    this.schedule(0);
+    console.log('✓ Embedding pipeline worker started');
+  }
+
+  /**
+   * Stop the background worker (the current round finishes)
+   */
+  stop(): void {
+    workerStarted = false;
+    if (workerTimer) {
+      clearTimeout(workerTimer);
+      workerTimer = null;
+    }
+  }
+
+  /**
+   * Signal that an item was queued, so an idle worker picks it up right away
+   */
+  notify(): void {
+    if (workerStarted && !workerBusy) {
+      this.schedule(0);
+    }
+  }
+
+  /**
+   * Claim and embed one round of pending items
+   * @returns Number of items processed (items put back while the circuit is open are not counted)
+   */
+  async processPending(): Promise<number> {
+    const claimed: Array<{ id: string }> = await this.mediaRepository.query(
+      `UPDATE media_items
+       SET "embeddingStatus" = $1, "embeddingAttempts" = "embeddingAttempts" + 1
+       WHERE id IN (
+         SELECT id FROM media_items
+         WHERE "embeddingStatus" = $2
+           AND ("embeddingNextAttemptAt" IS NULL OR "embeddingNextAttemptAt" <= NOW())
+         ORDER BY "createdAt" ASC
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id`,
+      [EmbeddingStatus.PROCESSING, EmbeddingStatus.PENDING, EmbeddingPipelineSettings.BATCH_SIZE]
+    ).then(result => result[0]); // UPDATE ... RETURNING resolves to [rows, affectedCount]
+
+    if (claimed.length === 0) return 0;
+
+    const items = await this.mediaRepository.find({ where: { id: In(claimed.map(row => row.id)) } });
+    const processed = await Promise.all(items.map(item => this.processItem(item)));
+    return processed.filter(Boolean).length;
+  }
+
+  /**
+   * Generate and store the embedding (and chunks) of an item
+   * Throws on failure; the caller decides whether to retry
+   */
+  async embedItem(item: MediaItem): Promise<void> {
+    // Generate embedding with enhanced support for audio/video
+    // (field texts are prepared once and reused for the field vectors)
+    const fieldTexts = await prepareFieldTextsForEmbedding(item);
+    const textForEmbedding = joinFieldTexts(fieldTexts);
+
+    // Nothing to embed: the item is done, but has no vector
+    if (!textForEmbedding || textForEmbedding.trim() === '') {
+      return;
+    }
+
+    const embeddingArray = await this.embeddingCache.getEmbedding(
+      textForEmbedding,
+      'document',
+      getEmbeddingProvider(),
+      item.title
+    );
+
+    // Record which model and task type produced the vector so mixed vectors are never compared
+    // (and the duration found in the file metadata while preparing the text)
+    await this.mediaRepository.query(
+      `UPDATE media_items
+       SET embedding = $1::vector, "embeddingModel" = $3, "embeddingDimension" = $4, "embeddingTaskType" = $5,
+           duration = COALESCE($6, duration)
+       WHERE id = $2`,
+      [
+        `[${embeddingArray.join(',')}]`,
+        item.id,
+        getEmbeddingProvider().modelName,
+        embeddingArray.length,
+        taskTypeForUsage('document'),
+        item.duration ?? null,
+      ]
+    );
+
+    // Index overlapping chunks of long content (multi-vector search)
+    await this.chunkService.indexItem(item);
+
+    // Separate title/description/body vectors for field-weighted search
+    await this.fieldEmbeddingService.indexItem(item, getEmbeddingProvider(), fieldTexts);
+
+    // Keep the shadow column complete while a shadow re-embed is running
+    // (failures are left to the shadow fill instead of failing the item)
+    try {
+      await this.indexShadowEmbedding(item, fieldTexts);
+    } catch (error) {
+      console.error('Error saving shadow embedding:', error);
+    }
+  }
+
+  /**
+   * List items whose embedding failed after all retries
+   */
+  async listFailed(limit: number = LimitSettings.MAX_LIMIT): Promise<MediaItem[]> {
+    return await this.mediaRepository.find({
+      where: { embeddingStatus: EmbeddingStatus.FAILED },
+      order: { updatedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Put failed items back in the queue with a fresh retry budget
+   * @param ids - Items to retry (default: every failed item)
+   * @returns Number of items queued
+   */
+  async retry(ids?: string[]): Promise<number> {
+    const query = this.mediaRepository
+      .createQueryBuilder()
+      .update(MediaItem)
+      .set({
+        embeddingStatus: EmbeddingStatus.PENDING,
+        embeddingAttempts: 0,
+        embeddingNextAttemptAt: null,
+      })
+      .where('"embeddingStatus" = :status', { status: EmbeddingStatus.FAILED });
+    if (ids) {
+      query.andWhere('id IN (:...ids)', { ids });
+    }
+
+    const result = await query.execute();
+    this.notify();
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Count items per embedding status
+   */
+  async getStatusCounts(): Promise<EmbeddingStatusCounts> {
+    const rows = await this.mediaRepository.query(
+      `SELECT "embeddingStatus" as status, COUNT(*) as count FROM media_items GROUP BY "embeddingStatus"`
+    );
+    const counts: EmbeddingStatusCounts = {
+      [EmbeddingStatus.PENDING]: 0,
+      [EmbeddingStatus.PROCESSING]: 0,
+      [EmbeddingStatus.READY]: 0,
+      [EmbeddingStatus.FAILED]: 0,
+    };
+    for (const row of rows as Array<{ status: EmbeddingStatus; count: string }>) {
+      counts[row.status] = parseInt(row.count);
+    }
+    return counts;
+  }
+
+  /**
+   * Embed one claimed item and record the outcome
+   * @returns false when the item was put back untried because the circuit is open
+   * @private
+   */
+  private async processItem(item: MediaItem): Promise<boolean> {
+    try {
+      await this.embedItem(item);
+      await this.mediaRepository.update(item.id, {
+        embeddingStatus: EmbeddingStatus.READY,
+        embeddingError: null,
+        embeddingNextAttemptAt: null,
+      });
+      console.log(`✓ Embedded "${item.title}"`);
+      await this.matchSavedSearches(item);
+      return true;
+    } catch (rawError) {
+      const error = classifyEmbeddingError(rawError);
+      const message = `[${error.kind}] ${error.message}`;
+
+      // Provider calls are suspended: wait for the circuit without using up an attempt
+      if (error.kind === 'circuit_open') {
+        await this.mediaRepository.update(item.id, {
+          embeddingStatus: EmbeddingStatus.PENDING,
+          embeddingAttempts: item.embeddingAttempts - 1,
+          embeddingError: message,
+          // Half-open circuits report no wait (0): still back off, or the worker claims the item again at once
+          embeddingNextAttemptAt: new Date(
+            Date.now() + Math.max(error.retryAfterMs ?? 0, EmbeddingPipelineSettings.RETRY_BASE_DELAY)
+          ),
+        });
+        return false;
+      }
+
+      // Rejected input will be rejected again, so fail right away
+      if (error.kind === 'invalid_input' || item.embeddingAttempts >= EmbeddingPipelineSettings.MAX_ATTEMPTS) {
+        await this.mediaRepository.update(item.id, {
+          embeddingStatus: EmbeddingStatus.FAILED,
+          embeddingError: message,
+          embeddingNextAttemptAt: null,
+        });
+        console.error(`✗ Embedding failed for "${item.title}" after ${item.embeddingAttempts} attempts: ${message}`);
+        return true;
+      }
+
+      // Exponential backoff with jitter, but never sooner than the provider asked for
+      const backoff = Math.min(
+        EmbeddingPipelineSettings.RETRY_BASE_DELAY * Math.pow(2, item.embeddingAttempts - 1),
+        EmbeddingPipelineSettings.RETRY_MAX_DELAY
+      );
+      const delay = Math.round(Math.max(backoff / 2 + Math.random() * backoff / 2, error.retryAfterMs ?? 0));
+      await this.mediaRepository.update(item.id, {
+        embeddingStatus: EmbeddingStatus.PENDING,
+        embeddingError: message,
+        embeddingNextAttemptAt: new Date(Date.now() + delay),
+      });
+      console.warn(`⚠ Embedding attempt ${item.embeddingAttempts} failed for "${item.title}", retrying in ${delay}ms: ${message}`);
+      return true;
+    }
+  }
+
+  /**
+   * Record the saved searches a newly embedded item matches
+   * The item is embedded either way, so a failure is only logged
+   * @private
+   */
+  private async matchSavedSearches(item: MediaItem): Promise<void> {
+    try {
+      await this.savedSearchService.matchItem(item);
+    } catch (error) {
+      console.warn(`⚠ Saved searches not matched for "${item.title}":`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Embed an item with the shadow model (if a shadow re-embed is running)
+   * @private
+   */
+  private async indexShadowEmbedding(item: MediaItem, fieldTexts: Record<EmbeddingField, string>): Promise<void> {
+    const shadowProvider = await this.shadowEmbeddingService.getShadowProvider();
+    if (!shadowProvider) return;
+
+    const embeddingArray = await this.embeddingCache.getEmbedding(
+      joinFieldTexts(fieldTexts),
+      'document',
+      shadowProvider,
+      item.title
+    );
+    await this.mediaRepository.query(
+      `UPDATE media_items
+       SET "shadowEmbedding" = $1::vector, "shadowEmbeddingModel" = $3, "shadowEmbeddingDimension" = $4,
+           "shadowEmbeddingTaskType" = $5
+       WHERE id = $2`,
+      [`[${embeddingArray.join(',')}]`, item.id, shadowProvider.modelName, embeddingArray.length, taskTypeForUsage('document')]
+    );
+    await this.chunkService.indexItem(item, shadowProvider);
+    await this.fieldEmbeddingService.indexItem(item, shadowProvider, fieldTexts);
+  }
+
+  /**
+   * Run the next worker round after a delay
+   * @private
+   */
+  private schedule(delay: number): void {
+    if (workerTimer) clearTimeout(workerTimer);
+    workerTimer = setTimeout(async () => {
+      workerTimer = null;
+      if (!workerStarted) return;
+
+      workerBusy = true;
+      let processed = 0;
+      try {
+        processed = await this.processPending();
+      } catch (error) {
+        console.error('Error in embedding pipeline worker:', error instanceof Error ? error.message : error);
+      } finally {
+        workerBusy = false;
+      }
+
+      if (workerStarted) {
+        // Keep draining while there is work, otherwise poll
+        this.schedule(processed > 0 ? 0 : EmbeddingPipelineSettings.POLL_INTERVAL);
+      }
+    }, delay);
+  }
+}
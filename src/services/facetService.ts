@@ -0,0 +1,94 @@
+import { Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { MediaItem } from '../entities/MediaItem';
+import { URL_PLATFORM_PATTERNS, durationBucketExpression } from '../utils/searchFilters';
+import { FacetSettings } from '../config/vectordb.settings';
+
+/**
+ * Facets counted for a search
+ */
+export type FacetName = 'type' | 'mimeType' | 'platform' | 'createdMonth' | 'duration';
+
+/**
+ * One value of a facet
+ */
+export interface FacetValue {
+  value: string;
+  count: number; // Matching items with this value
+  filter: Record<string, string | string[]>; // Filters to add to drill down to these items
+}
+
+/**
+ * Facet counts over every item matching a search (not just the returned page)
+ * Items without a MIME type, a known platform or a duration are not counted in those facets
+ */
+export type SearchFacets = Record<FacetName, FacetValue[]>;
+
+/**
+ * Facet Service
+ * Counts the items of a result set by metadata in SQL
+ */
+export class FacetService {
+  private mediaRepository: Repository<MediaItem>;
+
+  constructor() {
+    this.mediaRepository = AppDataSource.getRepository(MediaItem);
+  }
+
+  /**
+   * Count facets over a set of items
+   * @param ids - IDs of every item matching the search
+   */
+  async countFacets(ids: string[]): Promise<SearchFacets> {
+    const facets: SearchFacets = { type: [], mimeType: [], platform: [], createdMonth: [], duration: [] };
+    if (ids.length === 0) return facets;
+
+    const platforms = Object.entries(URL_PLATFORM_PATTERNS);
+    const rows: Array<{ facet: FacetName; value: string; count: string }> = await this.mediaRepository.query(
+      `
+      WITH matched AS (
+        SELECT type, "mimeType", url, "createdAt", duration FROM media_items WHERE id = ANY($1::uuid[])
+      )
+      SELECT 'type' as facet, type::text as value, COUNT(*) as count FROM matched GROUP BY 2
+      UNION ALL
+      SELECT 'mimeType', LOWER("mimeType"), COUNT(*) FROM matched
+      WHERE "mimeType" IS NOT NULL AND "mimeType" <> '' GROUP BY 2
+      UNION ALL
+      SELECT 'platform', platforms.name, COUNT(*) FROM matched
+      JOIN unnest($2::text[], $3::text[]) AS platforms(name, pattern) ON matched.url ~* platforms.pattern
+      GROUP BY 2
+      UNION ALL
+      SELECT 'createdMonth', to_char("createdAt", 'YYYY-MM'), COUNT(*) FROM matched GROUP BY 2
+      UNION ALL
+      SELECT 'duration', ${durationBucketExpression()}, COUNT(*) FROM matched WHERE duration IS NOT NULL GROUP BY 2
+      `,
+      [ids, platforms.map(([name]) => name), platforms.map(([, pattern]) => pattern)]
+    );
+
+    for (const row of rows) {
+      facets[row.facet].push({ value: row.value, count: parseInt(row.count), filter: toFilter(row.facet, row.value) });
+    }
+
+    // Most frequent values first; months newest first
+    for (const name of Object.keys(facets) as FacetName[]) {
+      facets[name] = facets[name]
+        .sort((a, b) => name === 'createdMonth'
+          ? b.value.localeCompare(a.value)
+          : b.count - a.count || a.value.localeCompare(b.value))
+        .slice(0, FacetSettings.MAX_VALUES);
+    }
+    return facets;
+  }
+}
+
+/**
+ * Filters selecting the items of a facet value (see parseSearchFilters)
+ */
+function toFilter(facet: FacetName, value: string): Record<string, string | string[]> {
+  if (facet !== 'createdMonth') {
+    return { [facet]: [value] };
+  }
+  const [year, month] = value.split('-').map(Number);
+  const nextMonth = month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+  return { createdAfter: `${value}-01`, createdBefore: `${nextMonth}-01` };
+}
@@ -0,0 +1,311 @@
+import { Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { MediaItem } from '../entities/MediaItem';
+import { MediaFieldEmbedding, EmbeddingField, EMBEDDING_FIELDS } from '../entities/MediaFieldEmbedding';
+import { EmbeddingCacheService, taskTypeForUsage } from './embeddingCacheService';
+import { EmbeddingProvider, getEmbeddingProvider } from '../utils/embeddingProviders';
+import { prepareFieldTextsForEmbedding } from '../utils/embeddings';
+import { DistanceMetric } from './mediaService';
+import { SearchFilters, buildFilterConditions, hasSearchFilters } from '../utils/searchFilters';
+import { BackfillOptions, BatchResult, runBackfillRounds } from './embeddingBackfillService';
+import { FieldEmbeddingSettings } from '../config/vectordb.settings';
+
+/**
+ * Query-time weight per field (missing fields are not searched)
+ */
+export type FieldWeights = Partial<Record<EmbeddingField, number>>;
+
+/**
+ * Fused field score of an item for a query
+ */
+export interface FieldMatch {
+  similarity: number; // Weighted mean of the field similarities
+  distance: number; // Weighted mean of the field distances
+  fieldScores: Partial<Record<EmbeddingField, number>>; // Similarity per field
+}
+
+/**
+ * Validate field weights from a request
+ * @param input - true for FieldEmbeddingSettings.DEFAULT_WEIGHTS, or an object of field → weight
+ * @returns Weights, or null if the input is not valid (unknown field, negative weight, all zero)
+ */
+export function normalizeFieldWeights(input: unknown): FieldWeights | null {
+  if (input === true) {
+    return { ...FieldEmbeddingSettings.DEFAULT_WEIGHTS };
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return null;
+  }
+
+  const weights: FieldWeights = {};
+  for (const [field, value] of Object.entries(input)) {
+    const weight = Number(value);
+    if (!EMBEDDING_FIELDS.includes(field as EmbeddingField) || isNaN(weight) || weight < 0) {
+      return null;
+    }
+    if (weight > 0) {
+      weights[field as EmbeddingField] = weight;
+    }
+  }
+  return Object.keys(weights).length > 0 ? weights : null;
+}
+
+/**
+ * Field Embedding Service
+ * Maintains the media_field_embeddings table (one vector per item field) and
+ * fuses weighted field similarities in SQL
+ */
+export class FieldEmbeddingService {
+  private fieldRepository: Repository<MediaFieldEmbedding>;
+  private embeddingCache: EmbeddingCacheService;
+
+  constructor() {
+    this.fieldRepository = AppDataSource.getRepository(MediaFieldEmbedding);
+    this.embeddingCache = new EmbeddingCacheService();
+  }
+
+  /**
+   * (Re)build the field vectors of an item for one model
+   * Vectors of other models are kept (see ChunkService.indexItem)
+   * @param texts - Field texts already prepared by the caller (default: prepared here)
+   * @returns Number of fields stored
+   */
+  async indexItem(
+    item: MediaItem,
+    provider: EmbeddingProvider = getEmbeddingProvider(),
+    texts?: Record<EmbeddingField, string>
+  ): Promise<number> {
+    if (!FieldEmbeddingSettings.ENABLED) return 0;
+
+    const fieldTexts = texts ?? await prepareFieldTextsForEmbedding(item);
+    const fields = EMBEDDING_FIELDS.filter(field => fieldTexts[field].trim() !== '');
+
+    const embeddings = fields.length > 0
+      ? await this.embeddingCache.getEmbeddings(
+          fields.map(field => fieldTexts[field]),
+          'document',
+          provider,
+          fields.map(() => item.title)
+        )
+      : [];
+
+    await this.storeFields(item, fields, embeddings, provider);
+    return fields.length;
+  }
+
+  /**
+   * Replace the field vectors of an item for one model
+   * @private
+   */
+  private async storeFields(
+    item: MediaItem,
+    fields: EmbeddingField[],
+    embeddings: number[][],
+    provider: EmbeddingProvider
+  ): Promise<void> {
+    await this.deleteForItem(item.id, provider.modelName);
+    if (fields.length === 0) return;
+
+    await this.fieldRepository.query(
+      `INSERT INTO media_field_embeddings ("mediaItemId", field, embedding, "embeddingModel", "embeddingTaskType", "embeddingDimension")
+       SELECT $1, field, embedding::vector, $4, $5, $6
+       FROM unnest($2::text[], $3::text[]) AS t(field, embedding)`,
+      [
+        item.id,
+        fields,
+        embeddings.map(embedding => `[${embedding.join(',')}]`),
+        provider.modelName,
+        taskTypeForUsage('document'),
+        provider.dimension,
+      ]
+    );
+  }
+
+  /**
+   * Remove the field vectors of an item (all models, or only the given one)
+   */
+  async deleteForItem(mediaItemId: string, embeddingModel?: string): Promise<void> {
+    await this.fieldRepository.delete(embeddingModel ? { mediaItemId, embeddingModel } : { mediaItemId });
+  }
+
+  /**
+   * Score items by their weighted field similarities to a query vector
+   *
+   * The fused score is the weighted mean over the fields an item has, so an
+   * item without a description is not penalized for it.
+   *
+   * @param queryVector - Query vector in "[1,2,3,...]" format
+   * @param weights - Weight per field (see normalizeFieldWeights)
+   * @param candidateLimit - Maximum number of items to return
+   * @param metric - Distance metric to use
+   * @param filters - Only score items matching these filters
+   * @returns Map of item ID to its fused score, nearest items first
+   */
+  async findFieldMatches(
+    queryVector: string,
+    weights: FieldWeights,
+    candidateLimit: number,
+    metric: DistanceMetric = 'cosine',
+    filters: SearchFilters = {}
+  ): Promise<Map<string, FieldMatch>> {
+    const matches = new Map<string, FieldMatch>();
+    const fields = EMBEDDING_FIELDS.filter(field => (weights[field] ?? 0) > 0);
+    if (!FieldEmbeddingSettings.ENABLED || fields.length === 0) return matches;
+
+    let distanceExpression: string;
+    let similarityExpression: string;
+    switch (metric) {
+      case 'l2':
+        distanceExpression = 'f.embedding::vector <-> $1::vector';
+        similarityExpression = `1 / (1 + (${distanceExpression}))`;
+        break;
+      case 'inner_product':
+        distanceExpression = 'f.embedding::vector <#> $1::vector';
+        similarityExpression = `-1 * (${distanceExpression})`;
+        break;
+      case 'cosine':
+      default:
+        distanceExpression = 'f.embedding::vector <=> $1::vector';
+        similarityExpression = `1 - (${distanceExpression})`;
+    }
+
+    const provider = getEmbeddingProvider();
+    const params: any[] = [
+      queryVector,
+      fields,
+      fields.map(field => weights[field]),
+      candidateLimit,
+      provider.modelName,
+      taskTypeForUsage('document'),
+      provider.dimension,
+    ];
+    const filterCondition = hasSearchFilters(filters)
+      ? `AND f."mediaItemId" IN (SELECT id FROM media_items WHERE TRUE ${buildFilterConditions(filters, params)})`
+      : '';
+
+    let rows: Array<{ mediaItemId: string; distance: number; similarity: number; fieldScores: Record<string, number> }>;
+    try {
+      rows = await this.fieldRepository.query(
+        `
+        SELECT
+          f."mediaItemId",
+          SUM(w.weight * (${distanceExpression})) / SUM(w.weight) as distance,
+          SUM(w.weight * (${similarityExpression})) / SUM(w.weight) as similarity,
+          jsonb_object_agg(f.field, ${similarityExpression}) as "fieldScores"
+        FROM media_field_embeddings f
+        JOIN unnest($2::text[], $3::float8[]) AS w(field, weight) ON w.field = f.field
+        WHERE f.embedding IS NOT NULL
+          AND f."embeddingModel" = $5
+          AND f."embeddingTaskType" = $6
+          AND f."embeddingDimension" = $7
+          ${filterCondition}
+        GROUP BY f."mediaItemId"
+        ORDER BY distance ASC
+        LIMIT $4
+        `,
+        params
+      );
+    } catch (error) {
+      console.error('Error in field search query:', error);
+      return matches;
+    }
+
+    for (const row of rows) {
+      matches.set(row.mediaItemId, {
+        similarity: row.similarity,
+        distance: row.distance,
+        fieldScores: row.fieldScores,
+      });
+    }
+    return matches;
+  }
+
+  /**
+   * Embed the fields of items that have no field vectors from the given model yet
+   * (items created before field vectors existed, or embedded by a previous model)
+   * Walks the items in ID order with the backfill's batches, concurrency and progress.
+   * @param provider - Model to embed with (default: the active provider)
+   * @param options - Batch size, concurrency, afterId and onProgress (see BackfillOptions)
+   * @returns Number of items indexed
+   */
+  async backfillMissingFields(
+    provider: EmbeddingProvider = getEmbeddingProvider(),
+    options: BackfillOptions = {}
+  ): Promise<number> {
+    if (!FieldEmbeddingSettings.ENABLED) return 0;
+
+    const pending = (afterId: string | undefined) => {
+      const query = AppDataSource.getRepository(MediaItem)
+        .createQueryBuilder('item')
+        .where(
+          'NOT EXISTS (SELECT 1 FROM media_field_embeddings f WHERE f."mediaItemId" = item.id ' +
+          'AND f."embeddingModel" = :model AND f."embeddingDimension" = :dimension AND f."embeddingTaskType" = :taskType)',
+          { model: provider.modelName, dimension: provider.dimension, taskType: taskTypeForUsage('document') }
+        );
+      if (afterId) {
+        query.andWhere('item.id > :afterId', { afterId });
+      }
+      return query;
+    };
+
+    const progress = await runBackfillRounds(
+      pending,
+      items => this.indexBatch(items, provider),
+      { ...options, provider }
+    );
+    return progress.succeeded;
+  }
+
+  /**
+   * Embed the fields of a batch of items in one batched call
+   * Falls back to item-by-item indexing if the batch request fails
+   * @private
+   */
+  private async indexBatch(items: MediaItem[], provider: EmbeddingProvider): Promise<BatchResult> {
+    const result: BatchResult = { succeeded: 0, skipped: 0, failed: 0 };
+
+    const prepared: Array<{ item: MediaItem; fields: EmbeddingField[]; texts: Record<EmbeddingField, string> }> = [];
+    for (const item of items) {
+      try {
+        const texts = await prepareFieldTextsForEmbedding(item);
+        prepared.push({ item, fields: EMBEDDING_FIELDS.filter(field => texts[field].trim() !== ''), texts });
+      } catch (error) {
+        console.error(`✗ Error preparing fields of "${item.title}":`, error instanceof Error ? error.message : error);
+        result.failed++;
+      }
+    }
+
+    let embeddings: number[][] | undefined;
+    try {
+      embeddings = await this.embeddingCache.getEmbeddings(
+        prepared.flatMap(({ fields, texts }) => fields.map(field => texts[field])),
+        'document',
+        provider,
+        prepared.flatMap(({ item, fields }) => fields.map(() => item.title))
+      );
+    } catch (error) {
+      console.warn(`Batch field embedding failed (${error instanceof Error ? error.message : error}), retrying items individually`);
+    }
+
+    let offset = 0;
+    for (const { item, fields, texts } of prepared) {
+      try {
+        if (embeddings) {
+          await this.storeFields(item, fields, embeddings.slice(offset, offset + fields.length), provider);
+        } else {
+          await this.indexItem(item, provider, texts);
+        }
+        if (fields.length > 0) {
+          result.succeeded++;
+        } else {
+          result.skipped++;
+        }
+      } catch (error) {
+        console.error(`✗ Error embedding fields of "${item.title}":`, error instanceof Error ? error.message : error);
+        result.failed++;
+      }
+      offset += fields.length;
+    }
+    return result;
+  }
+}
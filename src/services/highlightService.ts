@@ -0,0 +1,278 @@
+import { MediaItem } from '../entities/MediaItem';
+import { EmbeddingCacheService } from './embeddingCacheService';
+import { BestPassage } from './chunkService';
+import { findFuzzyMatches, findWordMatches } from '../utils/fuzzySearch';
+import { sentenceWindows, TextChunk } from '../utils/textChunking';
+import { HighlightSettings } from '../config/vectordb.settings';
+
+/**
+ * Item field that can be highlighted
+ */
+export type HighlightField = 'title' | 'description' | 'content';
+
+/**
+ * Matching word in an item field (offsets into the field value, end exclusive)
+ */
+export interface HighlightSpan {
+  field: HighlightField;
+  start: number;
+  end: number;
+}
+
+/**
+ * Passage of an item field that best explains the match
+ */
+export interface Snippet {
+  field: HighlightField;
+  text: string;
+  start: number; // Offset into the field value
+  end: number; // Exclusive
+  similarity?: number; // Similarity to the query (semantic snippets only)
+}
+
+/**
+ * Search result that can carry highlights
+ */
+interface Highlightable {
+  item: MediaItem;
+  bestPassage?: BestPassage;
+  highlights?: HighlightSpan[];
+  snippet?: Snippet;
+}
+
+const HIGHLIGHT_FIELDS: HighlightField[] = ['title', 'description', 'content'];
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
+  'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been',
+  'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would',
+  'could', 'should', 'may', 'might', 'must', 'can', 'this', 'that',
+  'these', 'those', 'what', 'which', 'who', 'whom', 'whose', 'where',
+  'when', 'why', 'how', 'all', 'about', 'into', 'me', 'my', 'find', 'show',
+]);
+
+/**
+ * Highlight Service
+ * Explains why a result matched: spans of the words matching the query in each
+ * field, and a snippet — the sentence window most similar to the query for
+ * vector-based results, or the passage around the best lexical match otherwise
+ */
+export class HighlightService {
+  private embeddingCache: EmbeddingCacheService;
+
+  constructor() {
+    this.embeddingCache = new EmbeddingCacheService();
+  }
+
+  /**
+   * Add highlights and a snippet to search results (in place)
+   * @param results - Results to annotate
+   * @param query - Query as typed by the user
+   * @param queryEmbedding - Vector the search ranked by: snippets are picked by similarity
+   * to it (omit for lexical snippets); the query is never embedded again here
+   */
+  async annotate<T extends Highlightable>(results: T[], query: string, queryEmbedding?: number[]): Promise<T[]> {
+    if (!HighlightSettings.ENABLED || results.length === 0) return results;
+
+    const terms = this.extractTerms(query);
+    for (const result of results) {
+      result.highlights = this.findHighlights(result.item, terms);
+      result.snippet = this.findLexicalSnippet(result.item, terms);
+    }
+
+    if (queryEmbedding && HighlightSettings.SEMANTIC_SNIPPETS) {
+      try {
+        await this.applySemanticSnippets(results, queryEmbedding);
+      } catch (error) {
+        // Snippets only explain results; keep the lexical ones rather than failing the search
+        console.warn('⚠ Semantic snippets unavailable, using lexical snippets:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Find the words of each field matching the query terms
+   */
+  findHighlights(item: MediaItem, terms: string[]): HighlightSpan[] {
+    const spans: HighlightSpan[] = [];
+    for (const field of HIGHLIGHT_FIELDS) {
+      const value = item[field];
+      if (!value) continue;
+      const matches = findWordMatches(value, terms, HighlightSettings.MIN_WORD_SIMILARITY)
+        .slice(0, HighlightSettings.MAX_SPANS_PER_FIELD);
+      for (const match of matches) {
+        spans.push({ field, start: match.start, end: match.end });
+      }
+    }
+    return spans;
+  }
+
+  /**
+   * Snippet around the best fuzzy match of the query in the description or content
+   * Falls back to the start of the longest of the two when nothing matches
+   */
+  findLexicalSnippet(item: MediaItem, terms: string[]): Snippet | undefined {
+    let best: { field: HighlightField; position: number; score: number } | undefined;
+    if (terms.length > 0) {
+      for (const field of ['content', 'description'] as const) {
+        const value = item[field];
+        if (!value) continue;
+        const [match] = findFuzzyMatches(value, terms.join(' '), HighlightSettings.MIN_WORD_SIMILARITY);
+        if (match && (!best || match.score > best.score)) {
+          best = { field, position: match.position, score: match.score };
+        }
+      }
+    }
+
+    if (best) {
+      const value = item[best.field]!;
+      // Show some context before the match
+      const start = Math.max(0, best.position - Math.floor(HighlightSettings.SNIPPET_LENGTH / 4));
+      return this.makeSnippet(best.field, value, start, start + HighlightSettings.SNIPPET_LENGTH);
+    }
+
+    const field = (item.content?.length ?? 0) >= (item.description?.length ?? 0) ? 'content' : 'description';
+    const value = item[field];
+    return value && value.trim() !== ''
+      ? this.makeSnippet(field, value, 0, HighlightSettings.SNIPPET_LENGTH)
+      : undefined;
+  }
+
+  /**
+   * Replace the snippet of each result by its sentence window most similar to the query
+   * Long content matched by a chunk keeps that already-embedded passage (bestPassage), cut
+   * to its window with the most query words; other results have their windows embedded,
+   * within HighlightSettings.MAX_SNIPPET_WINDOWS_PER_SEARCH for the whole search.
+   * Window embeddings are best effort: they never retry or count towards the circuit breaker.
+   * @private
+   */
+  private async applySemanticSnippets(results: Highlightable[], queryEmbedding: number[]): Promise<void> {
+    const candidates: Array<{ result: Highlightable; field: HighlightField; windows: TextChunk[] }> = [];
+    let budget: number = HighlightSettings.MAX_SNIPPET_WINDOWS_PER_SEARCH;
+    for (const result of results) {
+      const field: HighlightField = result.item.content?.trim() ? 'content' : 'description';
+      const value = result.item[field];
+      if (!value || value.trim() === '') continue;
+
+      const passage = field === 'content' ? result.bestPassage : undefined;
+      const windows = sentenceWindows(
+        value,
+        HighlightSettings.SENTENCES_PER_WINDOW,
+        passage?.startOffset ?? 0,
+        passage?.endOffset ?? value.length
+      );
+      if (windows.length === 0) continue;
+      if (passage) {
+        // The passage was already compared with the query; no need to embed its windows
+        const [window] = this.pickWindows(windows, result.highlights ?? [], field, 1);
+        result.snippet = {
+          ...this.makeSnippet(field, value, window.startOffset, window.endOffset),
+          similarity: passage.similarity,
+        };
+        continue;
+      }
+      if (windows.length === 1) {
+        // Nothing to choose from, so no need to embed
+        result.snippet = this.makeSnippet(field, value, windows[0].startOffset, windows[0].endOffset);
+        continue;
+      }
+      if (budget < 2) continue; // Keeps the lexical snippet
+
+      const picked = this.pickWindows(
+        windows,
+        result.highlights ?? [],
+        field,
+        Math.min(budget, HighlightSettings.MAX_SNIPPET_WINDOWS_PER_RESULT)
+      );
+      budget -= picked.length;
+      candidates.push({ result, field, windows: picked });
+    }
+    if (candidates.length === 0) return;
+
+    // One batch for every window of every result (cached like any other document text)
+    const texts = candidates.flatMap(candidate => candidate.windows.map(window => window.content));
+    const titles = candidates.flatMap(candidate => candidate.windows.map(() => candidate.result.item.title));
+    const windowEmbeddings = await this.embeddingCache.getEmbeddings(texts, 'document', undefined, titles, true);
+
+    let offset = 0;
+    for (const candidate of candidates) {
+      let bestWindow: TextChunk | undefined;
+      let bestSimilarity = -Infinity;
+      for (const window of candidate.windows) {
+        const similarity = cosineSimilarity(queryEmbedding, windowEmbeddings[offset++]);
+        if (similarity > bestSimilarity) {
+          bestSimilarity = similarity;
+          bestWindow = window;
+        }
+      }
+      if (!bestWindow) continue;
+
+      const value = candidate.result.item[candidate.field]!;
+      candidate.result.snippet = {
+        ...this.makeSnippet(candidate.field, value, bestWindow.startOffset, bestWindow.endOffset),
+        similarity: bestSimilarity,
+      };
+    }
+  }
+
+  /**
+   * Keep at most limit windows, preferring those with the most highlights
+   * @private
+   */
+  private pickWindows(windows: TextChunk[], highlights: HighlightSpan[], field: HighlightField, limit: number): TextChunk[] {
+    if (windows.length <= limit) return windows;
+
+    const spans = highlights.filter(span => span.field === field);
+    const hits = (window: TextChunk) =>
+      spans.filter(span => span.start >= window.startOffset && span.end <= window.endOffset).length;
+    return windows
+      .map(window => ({ window, hits: hits(window) }))
+      .sort((a, b) => b.hits - a.hits || a.window.index - b.window.index)
+      .slice(0, limit)
+      .map(entry => entry.window);
+  }
+
+  /**
+   * Cut a snippet from start to end, at most SNIPPET_LENGTH characters, on word boundaries
+   * @private
+   */
+  private makeSnippet(field: HighlightField, value: string, start: number, end: number): Snippet {
+    let snippetStart = Math.max(0, Math.min(start, value.length));
+    let snippetEnd = Math.min(value.length, end, snippetStart + HighlightSettings.SNIPPET_LENGTH);
+
+    // Do not start or end in the middle of a word
+    if (snippetStart > 0 && /\S/.test(value[snippetStart - 1])) {
+      const nextSpace = value.indexOf(' ', snippetStart);
+      if (nextSpace !== -1 && nextSpace < snippetEnd) snippetStart = nextSpace + 1;
+    }
+    if (snippetEnd < value.length && /\S/.test(value[snippetEnd])) {
+      const lastSpace = value.lastIndexOf(' ', snippetEnd);
+      if (lastSpace > snippetStart) snippetEnd = lastSpace;
+    }
+
+    return { field, text: value.slice(snippetStart, snippetEnd), start: snippetStart, end: snippetEnd };
+  }
+
+  /**
+   * Query words worth highlighting (no stop words or single characters)
+   * @private
+   */
+  private extractTerms(query: string): string[] {
+    const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    return [...new Set(words.filter(word => word.length > 1 && !STOP_WORDS.has(word)))];
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
@@ -1,8 +1,31 @@
 import { AppDataSource } from '../config/database';
-import { MediaItem, MediaType } from '../entities/MediaItem';
-import { generateEmbedding, prepareTextForEmbedding } from '../utils/embeddings';
+import { MediaItem, MediaType, EmbeddingStatus } from '../entities/MediaItem';
+import { getEmbeddingProvider } from '../utils/embeddingProviders';
+import { EmbeddingError } from '../utils/embeddingErrors';
+import { getEmbeddingCircuitStatus } from '../utils/embeddings';
+import { CircuitBreakerStatus } from '../utils/circuitBreaker';
+import { EmbeddingCacheService, taskTypeForUsage } from './embeddingCacheService';
+import { ChunkService, BestPassage } from './chunkService';
+import { FieldEmbeddingService, FieldWeights, FieldMatch } from './fieldEmbeddingService';
+import { EmbeddingPipelineService, EmbeddingStatusCounts } from './embeddingPipelineService';
+import { HighlightService, HighlightSpan, Snippet } from './highlightService';
+import {
+  QueryExpansionService,
+  QueryExpansion,
+  QueryExpansionOptions,
+  normalizeExpansionOptions,
+  fuseQueryVectors,
+} from './queryExpansionService';
+import { VocabularyService, QuerySuggestion } from './vocabularyService';
+import { FacetService, SearchFacets } from './facetService';
+import { RerankerName, createReranker, getDefaultRerankerName } from '../utils/rerankers';
+import { diversify, takeMMRPool } from '../utils/mmr';
+import { RocchioWeights, getDefaultRocchioWeights, buildRocchioVector } from '../utils/rocchio';
 import { fuzzyMatch, fuzzySimilarity } from '../utils/fuzzySearch';
-import { Repository } from 'typeorm';
+import { SearchFilters, buildFilterConditions, hasSearchFilters, escapeLike } from '../utils/searchFilters';
+import { ParsedQuery, parseSearchQuery, getSearchText, applyParsedQuery } from '../utils/queryParser';
+import { SearchPage, encodeCursor, decodeListingCursor, decodeScoreCursor, paginateByScore } from '../utils/pagination';
+import { Repository, In } from 'typeorm';
 import { 
   LimitSettings, 
   DistanceSettings, 
@@ -10,6 +33,12 @@ import {
   SemanticSearchSettings,
   FuzzySearchSettings,
   MediaMatchingSettings,
+  ChunkingSettings,
+  HybridSearchSettings,
+  KeywordSearchSettings,
+  PaginationSettings,
+  SpellingSettings,
+  RerankerSettings,
   getMaxDistance,
   validateLimit
 } from '../config/vectordb.settings';
@@ -26,13 +55,161 @@ export interface SimilaritySearchResult {
   item: MediaItem;
   similarity: number; // Similarity score (0-1, higher = more similar for cosine/L2)
   distance: number; // Distance metric value
+  bestPassage?: BestPassage; // Best-matching chunk (long content only)
+  fieldScores?: FieldMatch['fieldScores']; // Similarity per field (field-weighted search only)
+  mmrScore?: number; // Maximal marginal relevance when the results were diversified
+  explanation?: ScoreExplanation; // Score breakdown (explain mode)
+  highlights?: HighlightSpan[]; // Words matching the query
+  snippet?: Snippet; // Passage that best explains the match
 }
 
+/**
+ * Hybrid (full-text + vector) search result
+ */
+export interface HybridSearchResult {
+  item: MediaItem;
+  score: number; // Reciprocal rank fusion score
+  vectorRank: number | null; // 1-based rank in the vector ranking (null: not retrieved)
+  textRank: number | null; // 1-based rank in the full-text ranking (null: not retrieved)
+  similarity: number | null; // Vector similarity
+  textScore: number | null; // ts_rank_cd of the full-text match
+  bestPassage?: BestPassage;
+  highlights?: HighlightSpan[];
+  snippet?: Snippet;
+}
+
+/**
+ * Field searched by fuzzy search
+ */
+export type FuzzySearchField = typeof FuzzySearchSettings.DEFAULT_SEARCH_FIELDS[number];
+
+/**
+ * Fuzzy matching mode (see FuzzySearchSettings.DEFAULT_MODE)
+ */
+export type FuzzySearchMode = 'trigram' | 'levenshtein';
+
+/**
+ * Keyword search result
+ */
+export interface KeywordSearchResult {
+  item: MediaItem;
+  keywordScore: number; // Weights of the fields containing the query (0-1, see KeywordSearchSettings)
+  matchedFields: Array<'title' | 'description' | 'content'>;
+  highlights?: HighlightSpan[];
+  snippet?: Snippet;
+}
+
+/**
+ * Fuzzy search result
+ */
+export interface FuzzySearchResult {
+  item: MediaItem;
+  fuzzyScore: number; // Best field score (0-1)
+  matchedField: string; // Field with the best score
+  matchedText?: string; // Matched value (first 100 characters of description/content)
+  highlights?: HighlightSpan[];
+  snippet?: Snippet;
+}
+
+/**
+ * Reranking applied to a semantic search
+ */
+export interface RerankMetadata {
+  name: RerankerName;
+  candidates: number; // Results reranked (0 when the reranker failed)
+  error?: string; // Why the relevance order was kept
+}
+
+/**
+ * "Did you mean" part of a search response
+ */
+export interface SpellingCorrection {
+  suggestions: QuerySuggestion[]; // Corrected queries, best first (empty when every word is known)
+  correctedQuery?: string; // Set when the query had no results and these are the results of suggestions[0]
+}
+
+/**
+ * Examples of a vector arithmetic search (see searchByExamples)
+ */
+export interface SearchExamples {
+  positiveIds?: string[]; // Items to find more of
+  negativeIds?: string[]; // Items to move away from
+  positiveText?: string; // What the results should be about
+  negativeText?: string; // What the results should not be about
+}
+
+/**
+ * Type-aware boosting of one result (see applyTypeAwareBoosting)
+ */
+export interface TypeBoostExplanation {
+  boosts: Array<{ name: string; multiplier: number }>; // Boosts that matched (audio/video only)
+  boostMode: 'multiplicative' | 'additive'; // MediaMatchingSettings.USE_ADDITIVE_BOOSTS
+  totalMultiplier: number; // Product of the multipliers
+  cap: { limit: number; applied: boolean }; // Base similarity × MAX_TOTAL_BOOST (at most 1.0); applied when it lowered the score
+  boostedSimilarity: number; // Similarity after boosting and capping
+  skipped?: boolean; // Base similarity below MIN_SIMILARITY_FOR_BOOST, no boosts tried
+}
+
+/**
+ * Context boost of a semantic search result (see calculateRelevanceScore)
+ */
+export interface ContextBoostExplanation {
+  boosts: Array<{ name: string; amount: number }>; // Additive boosts that matched
+  total: number; // Sum of the boosts
+  score: number; // Relevance score (boosted similarity + total, at most 1.0)
+}
+
+/**
+ * How a result's score was computed (explain mode)
+ */
+export interface ScoreExplanation {
+  distance: number; // Raw distance returned by pgvector (best chunk or field-weighted where used)
+  baseSimilarity: number; // Similarity derived from the distance
+  typeBoost?: TypeBoostExplanation; // Semantic search and similar items
+  contextBoost?: ContextBoostExplanation; // Semantic search with contextBoost only
+  score: number; // Resulting score, before any reranking or diversification
+}
+
+/**
+ * Raw candidate row from a vector query, optionally enriched with its best chunk
+ * or its per-field scores
+ */
+type CandidateRow = MediaItem & {
+  distance: number;
+  similarity: number;
+  bestPassage?: BestPassage;
+  fieldScores?: FieldMatch['fieldScores'];
+};
+
+/**
+ * Items a vector search page is cut from (for facets)
+ */
+type VectorMatchSet = {
+  matchedIds: string[];
+  candidatesTruncated: boolean; // The candidate pool was full, so more items may match
+};
+
 export class MediaService {
   private mediaRepository: Repository<MediaItem>;
+  private embeddingCache: EmbeddingCacheService;
+  private chunkService: ChunkService;
+  private fieldEmbeddingService: FieldEmbeddingService;
+  private embeddingPipeline: EmbeddingPipelineService;
+  private highlightService: HighlightService;
+  private queryExpansionService: QueryExpansionService;
+  private vocabularyService: VocabularyService;
+  private facetService: FacetService;
 
   constructor() {
     this.mediaRepository = AppDataSource.getRepository(MediaItem);
+    this.embeddingCache = new EmbeddingCacheService();
+    this.chunkService = new ChunkService();
+    this.fieldEmbeddingService = new FieldEmbeddingService();
+    this.embeddingPipeline = new EmbeddingPipelineService();
+    this.highlightService = new HighlightService();
+    this.queryExpansionService = new QueryExpansionService();
+    this.vocabularyService = new VocabularyService();
+    this.facetService = new FacetService();
   }
 
   async createMediaItem(
@@ -52,62 +229,225 @@ export class MediaService {
     mediaItem.filePath = filePath;
     mediaItem.url = url;
     mediaItem.mimeType = mimeType;
+    mediaItem.embeddingStatus = EmbeddingStatus.PENDING;
 
-    // Save the media item first (without embedding)
+    // Save the media item and queue it for embedding (see embeddingPipelineService.ts)
     const savedItem = await this.mediaRepository.save(mediaItem);
-    
-    // Generate embedding with enhanced support for audio/video
-    const textForEmbedding = await prepareTextForEmbedding(
-      title,
-      description,
-      content,
-      savedItem // Pass the saved item for enhanced processing
-    );
-    
-    // Only generate embedding if there's text to embed
-    if (!textForEmbedding || textForEmbedding.trim() === '') {
-      // If no relevant field, return item without embedding
-      return savedItem;
-    }
-    
-    const embeddingArray = await generateEmbedding(textForEmbedding);
-    
-    // Update the embedding using raw SQL to ensure proper vector casting
-    // Convert array to PostgreSQL vector format: [1,2,3,...]
-    const embeddingString = `[${embeddingArray.join(',')}]`;
-    
-    try {
-      await this.mediaRepository.query(
-        `UPDATE media_items SET embedding = $1::vector(768) WHERE id = $2`,
-        [embeddingString, savedItem.id]
-      );
-    } catch (error) {
-      console.error('Error saving embedding:', error);
-      // If embedding save fails, still return the item (embedding will be null)
-    }
-    
-    // Reload to get the updated embedding
-    return await this.mediaRepository.findOne({ where: { id: savedItem.id } }) || savedItem;
+    this.embeddingPipeline.notify();
+    await this.updateVocabulary(savedItem, 'add');
+
+    // The generated full-text column comes back from INSERT ... RETURNING; it is not part of the API
+    savedItem.searchVector = undefined;
+
+    return savedItem;
   }
 
   /**
    * Search media items by text query using vector similarity
-   * @param query - Text query to search for
+   * @param query - Text query to search for; may use inline syntax (see parseSearchQuery)
    * @param limit - Maximum number of results to return
    * @param maxDistance - Maximum distance threshold (default: 0.5 for cosine, 1.0 for L2)
    * @param metric - Distance metric to use (default: 'cosine')
-   * @returns Array of search results with similarity scores
+   * @param fieldWeights - Score by weighted title/description/body vectors instead of the item vector
+   * @param filters - Metadata filters, applied in SQL before ranking
+   * @param cursor - nextCursor of the previous page (omit for the first page)
+   * @param autoCorrect - Search with the best spelling suggestion when the query has no results
+   * @param mmrLambda - Diversify the results by maximal marginal relevance (see diversify)
+   * @param explain - Add a score breakdown (explanation) to every result
+   * @param facets - Count facets over every matching item
+   * @returns One page of search results with similarity scores, by similarity then id
+   * (MMR order when diversified), facet counts when requested (facetsTruncated when the candidate pool
+   * was full, so more items may match than were counted), with highlights, a snippet, the parsed query and spelling suggestions
+   * (correctedQuery is set when the results are those of a suggestion)
+   * @throws SearchFilterError when the inline syntax is invalid
    */
   async searchMedia(
     query: string,
     limit: number = LimitSettings.DEFAULT_SEARCH_LIMIT,
     maxDistance?: number,
-    metric: DistanceMetric = 'cosine'
-  ): Promise<SimilaritySearchResult[]> {
-    // Generate embedding for the search query
-    const queryEmbedding = await generateEmbedding(query);
+    metric: DistanceMetric = 'cosine',
+    fieldWeights?: FieldWeights,
+    filters: SearchFilters = {},
+    cursor?: string,
+    autoCorrect: boolean = SpellingSettings.DEFAULT_AUTO_CORRECT,
+    mmrLambda?: number,
+    explain: boolean = false,
+    facets: boolean = false
+  ): Promise<SearchPage<SimilaritySearchResult> & SpellingCorrection & {
+    parsedQuery: ParsedQuery;
+    facets?: SearchFacets;
+    facetsTruncated?: boolean;
+  }> {
+    // Only the free text is embedded; operators, phrases and exclusions become filters
+    const parsedQuery = parseSearchQuery(query);
+    const searchText = getSearchText(parsedQuery);
+    const { matchedIds, candidatesTruncated, queryEmbedding, ...page } = await this.findVectorMatches(
+      searchText, limit, maxDistance, metric, fieldWeights, applyParsedQuery(filters, parsedQuery), cursor, mmrLambda
+    );
+
+    const suggestions = await this.vocabularyService.suggest(query, searchText);
+    if (autoCorrect && page.total === 0 && suggestions.length > 0) {
+      const corrected = await this.searchMedia(
+        suggestions[0].text, limit, maxDistance, metric, fieldWeights, filters, cursor, false, mmrLambda, explain, facets
+      );
+      return { ...corrected, suggestions, correctedQuery: suggestions[0].text };
+    }
+
+    if (explain) {
+      // Vector search applies no boosts: the score is the similarity itself
+      for (const result of page.results) {
+        result.explanation = { distance: result.distance, baseSimilarity: result.similarity, score: result.similarity };
+      }
+    }
+
+    await this.highlightService.annotate(page.results, this.getHighlightText(parsedQuery), queryEmbedding);
+    return {
+      ...page,
+      parsedQuery,
+      suggestions,
+      facets: facets ? await this.facetService.countFacets(matchedIds) : undefined,
+      facetsTruncated: facets ? candidatesTruncated : undefined,
+    };
+  }
+
+  /**
+   * Vector arithmetic search: rank items by similarity to a query vector built
+   * from positive and negative examples (see buildRocchioVector), with the
+   * distance threshold, filters, cursors and MMR of searchMedia
+   * @param examples - Example item IDs and texts (at least one positive)
+   * @param limit - Maximum number of results to return
+   * @param maxDistance - Maximum distance threshold (default by metric)
+   * @param metric - Distance metric to use (default: 'cosine')
+   * @param fieldWeights - Score by weighted title/description/body vectors instead of the item vector
+   * @param filters - Metadata filters, applied in SQL before ranking
+   * @param cursor - nextCursor of the previous page (omit for the first page)
+   * @param mmrLambda - Diversify the results by maximal marginal relevance (see diversify)
+   * @param weights - Weights of the example groups (default: RocchioSettings)
+   * @returns One page of results by similarity then id (example items excluded),
+   * highlighted against the positive text when there is one, with the examples and weights used
+   * @throws Error when there is no positive example, or an example item is not found or has no embedding from the current model
+   */
+  async searchByExamples(
+    examples: SearchExamples,
+    limit: number = LimitSettings.DEFAULT_SEARCH_LIMIT,
+    maxDistance?: number,
+    metric: DistanceMetric = 'cosine',
+    fieldWeights?: FieldWeights,
+    filters: SearchFilters = {},
+    cursor?: string,
+    mmrLambda?: number,
+    weights: RocchioWeights = getDefaultRocchioWeights()
+  ): Promise<SearchPage<SimilaritySearchResult> & { examples: Required<SearchExamples>; weights: RocchioWeights }> {
+    decodeScoreCursor(cursor);
+
+    const used: Required<SearchExamples> = {
+      positiveIds: [...new Set(examples.positiveIds ?? [])],
+      negativeIds: [...new Set(examples.negativeIds ?? [])],
+      positiveText: examples.positiveText?.trim() ?? '',
+      negativeText: examples.negativeText?.trim() ?? '',
+    };
+    if (used.positiveIds.length === 0 && !used.positiveText) {
+      throw new Error('At least one positive example item or text is required');
+    }
+
+    // Example items must have document vectors from the current model to be comparable
+    const exampleIds = [...used.positiveIds, ...used.negativeIds];
+    const items = exampleIds.length > 0
+      ? await this.mediaRepository.find({
+          where: { id: In(exampleIds) },
+          select: ['id', 'embedding', 'embeddingModel', 'embeddingDimension', 'embeddingTaskType'],
+        })
+      : [];
+    const missing = exampleIds.filter(id => !items.some(item => item.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Example items not found: ${missing.join(', ')}`);
+    }
+    const provider = getEmbeddingProvider();
+    const documentTaskType = taskTypeForUsage('document');
+    const unusable = items.filter(item =>
+      !item.embedding || item.embeddingModel !== provider.modelName ||
+      item.embeddingDimension !== provider.dimension || item.embeddingTaskType !== documentTaskType);
+    if (unusable.length > 0) {
+      throw new Error(`Example items have no embedding from the current model: ${unusable.map(item => item.id).join(', ')}`);
+    }
+    const vectorsOf = (ids: string[]): number[][] =>
+      items.filter(item => ids.includes(item.id)).map(item => JSON.parse(item.embedding!) as number[]);
+
+    const [positiveText, negativeText] = await Promise.all([
+      used.positiveText ? this.embeddingCache.getEmbedding(used.positiveText, 'query') : Promise.resolve(null),
+      used.negativeText ? this.embeddingCache.getEmbedding(used.negativeText, 'query') : Promise.resolve(null),
+    ]);
+    const queryEmbedding = buildRocchioVector({
+      positiveText: positiveText ? [positiveText] : [],
+      positiveItems: vectorsOf(used.positiveIds),
+      negativeItems: vectorsOf(used.negativeIds),
+      negativeText: negativeText ? [negativeText] : [],
+    }, weights);
+    if (!queryEmbedding) {
+      throw new Error('The positive examples carry no weight or are cancelled out by the negative examples');
+    }
+
+    console.log(
+      `Example search: ${used.positiveIds.length} positive / ${used.negativeIds.length} negative items, ` +
+      `positive text "${used.positiveText}", negative text "${used.negativeText}"`
+    );
+
+    const { matchedIds, candidatesTruncated, ...page } = await this.findVectorMatchesByVector(
+      `[${queryEmbedding.join(',')}]`, limit, maxDistance, metric, fieldWeights, filters, cursor, mmrLambda, exampleIds
+    );
+    if (used.positiveText) {
+      await this.highlightService.annotate(page.results, used.positiveText, queryEmbedding);
+    }
+    return { ...page, examples: used, weights };
+  }
+
+  /**
+   * Rank items by vector similarity to a query (searchMedia without highlights)
+   * @private
+   */
+  private async findVectorMatches(
+    query: string,
+    limit: number,
+    maxDistance: number | undefined,
+    metric: DistanceMetric,
+    fieldWeights: FieldWeights | undefined,
+    filters: SearchFilters,
+    cursor?: string,
+    mmrLambda?: number
+  ): Promise<SearchPage<SimilaritySearchResult> & VectorMatchSet & { queryEmbedding: number[] }> {
+    // Reject a malformed cursor before doing any work
+    decodeScoreCursor(cursor);
+
+    // Generate embedding for the search query (cached)
+    const queryEmbedding = await this.embeddingCache.getEmbedding(query, 'query');
     const queryVector = `[${queryEmbedding.join(',')}]`;
 
+    return {
+      ...await this.findVectorMatchesByVector(queryVector, limit, maxDistance, metric, fieldWeights, filters, cursor, mmrLambda),
+      queryEmbedding,
+    };
+  }
+
+  /**
+   * Rank items by vector similarity to a query vector (findVectorMatches without embedding)
+   * @param excludeIds - Items left out of the results (before paging)
+   * @returns The page, every item it is cut from (matchedIds) and whether the candidate pool was full
+   * while still within the threshold (candidatesTruncated: more items may match than matchedIds)
+   * @private
+   */
+  private async findVectorMatchesByVector(
+    queryVector: string,
+    limit: number,
+    maxDistance: number | undefined,
+    metric: DistanceMetric,
+    fieldWeights: FieldWeights | undefined,
+    filters: SearchFilters,
+    cursor?: string,
+    mmrLambda?: number,
+    excludeIds: string[] = []
+  ): Promise<SearchPage<SimilaritySearchResult> & VectorMatchSet> {
+    decodeScoreCursor(cursor);
+
     // Validate and set limit
     const validatedLimit = validateLimit(limit);
 
@@ -135,65 +475,111 @@ export class MediaService {
         distanceExpression = 'embedding::vector <=> $1::vector';
     }
 
+    // Only document vectors produced by the current model (and dimension) are comparable with the query
+    const { modelName: embeddingModel, dimension: embeddingDimension } = getEmbeddingProvider();
+    const documentTaskType = taskTypeForUsage('document');
+
     // First, check how many items have embeddings
     const itemsWithEmbeddings = await this.mediaRepository.query(
-      `SELECT COUNT(*) as count FROM media_items WHERE embedding IS NOT NULL`
+      `SELECT COUNT(*) as count FROM media_items
+       WHERE embedding IS NOT NULL AND "embeddingModel" = $1 AND "embeddingDimension" = $2 AND "embeddingTaskType" = $3`,
+      [embeddingModel, embeddingDimension, documentTaskType]
     );
     const embeddingCount = parseInt(itemsWithEmbeddings[0]?.count || '0');
     
     if (embeddingCount === 0) {
       console.warn('No items with embeddings found in database');
-      return [];
+      return { results: [], total: 0, nextCursor: null, matchedIds: [], candidatesTruncated: false };
     }
 
     console.log(`Searching ${embeddingCount} items with embeddings using ${metric} metric (maxDistance: ${distanceThreshold})`);
 
-    let results;
+    let page: SearchPage<CandidateRow>;
+    let matchedIds: string[]; // Every item the page is cut from (facets)
+    let candidatesTruncated: boolean;
     try {
       // First, get results without distance filter to see all matches
-      const allResults = await this.mediaRepository.query(
-        `
-        SELECT 
-          id, title, type, content, description, "filePath", url, "mimeType", 
-          embedding, "createdAt", "updatedAt",
-          (${distanceExpression}) as distance,
-          CASE 
-            WHEN $3 = 'cosine' THEN 1 - (embedding::vector <=> $1::vector)
-            WHEN $3 = 'l2' THEN 1 / (1 + (embedding::vector <-> $1::vector))
-            WHEN $3 = 'inner_product' THEN -1 * (embedding::vector <#> $1::vector)
-            ELSE 1 - (embedding::vector <=> $1::vector)
-          END as similarity
-        FROM media_items
-        WHERE embedding IS NOT NULL
-        ORDER BY (${distanceExpression}) ASC
-        LIMIT $2
-        `,
-        [queryVector, validatedLimit * LimitSettings.CANDIDATE_MULTIPLIER, metric] // Get more results to check distances
+      // (enough candidates for every page, so pages are cut from the same ranking)
+      const candidateLimit = Math.max(
+        validatedLimit * LimitSettings.CANDIDATE_MULTIPLIER,
+        PaginationSettings.MAX_SEARCH_RESULTS
       );
+      let allResults: CandidateRow[];
+      if (fieldWeights) {
+        // Weighted title/description/body scores, fused in SQL
+        allResults = await this.findFieldCandidates(queryVector, fieldWeights, candidateLimit, metric, filters);
+      } else {
+        const params: any[] = [queryVector, candidateLimit, metric, embeddingModel, documentTaskType, embeddingDimension];
+        const filterConditions = buildFilterConditions(filters, params);
+        const itemResults = await this.mediaRepository.query(
+          `
+          SELECT 
+            id, title, type, content, description, "filePath", url, "mimeType", 
+            embedding, "createdAt", "updatedAt",
+            (${distanceExpression}) as distance,
+            CASE 
+              WHEN $3 = 'cosine' THEN 1 - (embedding::vector <=> $1::vector)
+              WHEN $3 = 'l2' THEN 1 / (1 + (embedding::vector <-> $1::vector))
+              WHEN $3 = 'inner_product' THEN -1 * (embedding::vector <#> $1::vector)
+              ELSE 1 - (embedding::vector <=> $1::vector)
+            END as similarity
+          FROM media_items
+          WHERE embedding IS NOT NULL
+            AND "embeddingModel" = $4
+            AND "embeddingTaskType" = $5
+            AND "embeddingDimension" = $6
+            ${filterConditions}
+          ORDER BY (${distanceExpression}) ASC
+          LIMIT $2
+          `,
+          params // Get more results to check distances
+        );
+
+        // Aggregate chunk hits per item (long content matched by its best passage)
+        allResults = await this.mergeChunkHits(itemResults, queryVector, candidateLimit, metric, filters);
+      }
 
       console.log(`Found ${allResults.length} items (before distance filter)`);
       if (allResults.length > 0) {
         console.log(`Closest match distance: ${allResults[0].distance}, threshold: ${distanceThreshold}`);
       }
 
+      // Candidates come nearest first: a full pool whose farthest candidate still passes may have left out matches
+      candidatesTruncated = allResults.length >= candidateLimit &&
+        allResults[allResults.length - 1].distance <= distanceThreshold;
+
       // Now filter by distance threshold
-      results = allResults.filter((row: { distance: number }) => row.distance <= distanceThreshold);
+      const excluded = new Set(excludeIds);
+      const results = allResults.filter(row => row.distance <= distanceThreshold && !excluded.has(row.id));
       
-      // Limit to requested number
-      results = results.slice(0, validatedLimit);
+      // Cut the requested page (from the most relevant candidates in MMR order when diversifying)
+      if (mmrLambda !== undefined) {
+        const diversified = diversify(
+          takeMMRPool(results, row => row.similarity),
+          mmrLambda,
+          undefined,
+          row => row.similarity,
+          row => row.embedding
+        ).map((row, rank) => ({ ...row, rank }));
+        page = paginateByScore(diversified, validatedLimit, cursor, row => ({ score: -row.rank, id: row.id }));
+        matchedIds = diversified.map(row => row.id);
+      } else {
+        page = paginateByScore(results, validatedLimit, cursor, row => ({ score: row.similarity, id: row.id }));
+        matchedIds = results.map(row => row.id);
+      }
 
-      console.log(`Returning ${results.length} items (after distance filter)`);
+      console.log(`Returning ${page.results.length} of ${page.total} items (after distance filter)`);
     } catch (error) {
       console.error('Error in vector search query:', error);
       if (error instanceof Error) {
         console.error('Error details:', error.message, error.stack);
       }
-      // Fallback: return empty array if query fails
-      return [];
+      // Fallback: return an empty page if query fails
+      return { results: [], total: 0, nextCursor: null, matchedIds: [], candidatesTruncated: false };
     }
 
     // Convert results to SimilaritySearchResult format
-    return results.map((row: MediaItem & { distance?: number; similarity?: number }) => {
+    const results = page.results.map((row: CandidateRow) => {
       const item = new MediaItem();
       item.id = row.id;
       item.title = row.title;
@@ -211,8 +597,113 @@ export class MediaService {
         item,
         similarity: row.similarity ?? (1 - (row.distance ?? 0)),
         distance: row.distance ?? 0,
+        bestPassage: row.bestPassage,
+        fieldScores: row.fieldScores,
+        mmrScore: (row as CandidateRow & { mmrScore?: number }).mmrScore,
       };
     });
+
+    return { ...page, results, matchedIds, candidatesTruncated };
+  }
+
+  /**
+   * Load candidates scored by their weighted field vectors
+   * (see FieldEmbeddingService.findFieldMatches), nearest first
+   */
+  private async findFieldCandidates(
+    queryVector: string,
+    fieldWeights: FieldWeights,
+    candidateLimit: number,
+    metric: DistanceMetric,
+    filters: SearchFilters = {}
+  ): Promise<CandidateRow[]> {
+    const matches = await this.fieldEmbeddingService.findFieldMatches(
+      queryVector,
+      fieldWeights,
+      candidateLimit,
+      metric,
+      filters
+    );
+    if (matches.size === 0) return [];
+
+    const rows: MediaItem[] = await this.mediaRepository.query(
+      `
+      SELECT 
+        id, title, type, content, description, "filePath", url, "mimeType", 
+        embedding, "createdAt", "updatedAt"
+      FROM media_items
+      WHERE id = ANY($1::uuid[])
+      `,
+      [[...matches.keys()]]
+    );
+
+    return rows
+      .map(row => {
+        const match = matches.get(row.id)!;
+        return {
+          ...row,
+          distance: match.distance,
+          similarity: match.similarity,
+          fieldScores: match.fieldScores,
+        } as CandidateRow;
+      })
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Merge best-chunk hits into item-level candidates
+   * An item's distance becomes the smaller of its whole-item distance and its
+   * best chunk distance; items found only through chunks are loaded and added.
+   * Result is re-sorted by distance and capped at candidateLimit.
+   */
+  private async mergeChunkHits(
+    rows: CandidateRow[],
+    queryVector: string,
+    candidateLimit: number,
+    metric: DistanceMetric,
+    filters: SearchFilters = {}
+  ): Promise<CandidateRow[]> {
+    const hits = await this.chunkService.findBestChunks(
+      queryVector,
+      candidateLimit * ChunkingSettings.CANDIDATE_MULTIPLIER,
+      metric,
+      filters
+    );
+    if (hits.size === 0) return rows;
+
+    const byId = new Map<string, CandidateRow>(rows.map(row => [row.id, row]));
+
+    const chunkOnlyIds = [...hits.keys()].filter(id => !byId.has(id));
+    if (chunkOnlyIds.length > 0) {
+      const extraRows: MediaItem[] = await this.mediaRepository.query(
+        `
+        SELECT 
+          id, title, type, content, description, "filePath", url, "mimeType", 
+          embedding, "createdAt", "updatedAt"
+        FROM media_items
+        WHERE id = ANY($1::uuid[])
+        `,
+        [chunkOnlyIds]
+      );
+      for (const row of extraRows) {
+        const hit = hits.get(row.id)!;
+        byId.set(row.id, { ...row, distance: hit.distance, similarity: hit.similarity } as CandidateRow);
+      }
+    }
+
+    for (const [id, hit] of hits) {
+      const row = byId.get(id);
+      if (!row) continue;
+      row.bestPassage = hit;
+      if (hit.distance < row.distance) {
+        row.distance = hit.distance;
+        row.similarity = hit.similarity;
+      }
+    }
+
+    return [...byId.values()]
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, candidateLimit);
   }
 
   /**
@@ -221,14 +712,23 @@ export class MediaService {
    * @param limit - Maximum number of results to return
    * @param maxDistance - Maximum distance threshold
    * @param metric - Distance metric to use
-   * @returns Array of similar items with similarity scores
+   * @param filters - Metadata filters, applied in SQL before ranking
+   * @param explain - Add a score breakdown (explanation) to every result
+   * @param cursor - nextCursor of the previous page (omit for the first page)
+   * @returns One page of similar items, by boosted similarity then id
    */
   async findSimilarMedia(
     mediaItemId: string,
     limit: number = LimitSettings.DEFAULT_SIMILAR_ITEMS_LIMIT,
     maxDistance?: number,
-    metric: DistanceMetric = 'cosine'
-  ): Promise<SimilaritySearchResult[]> {
+    metric: DistanceMetric = 'cosine',
+    filters: SearchFilters = {},
+    explain: boolean = false,
+    cursor?: string
+  ): Promise<SearchPage<SimilaritySearchResult>> {
+    // Reject a malformed cursor before doing any work; later pages boost recency as of the first one
+    const asOf = decodeScoreCursor(cursor)?.asOf ?? new Date().toISOString();
+
     // Get the media item
     const sourceItem = await this.mediaRepository.findOne({ where: { id: mediaItemId } });
     
@@ -240,6 +740,10 @@ export class MediaService {
       throw new Error('Source media item does not have an embedding');
     }
 
+    if (!sourceItem.embeddingModel) {
+      throw new Error('Source media item embedding has no recorded model; re-embed it first');
+    }
+
     // Validate and set limit
     const validatedLimit = validateLimit(limit);
 
@@ -267,6 +771,25 @@ export class MediaService {
     // Use the source item's embedding for comparison
     const sourceVector = sourceItem.embedding;
 
+    // Enough candidates for every page, so pages are cut from the same ranking
+    const candidateLimit = Math.max(
+      validatedLimit * LimitSettings.CANDIDATE_MULTIPLIER,
+      PaginationSettings.MAX_SEARCH_RESULTS
+    );
+
+    // Only compare against vectors from the same model (and dimension) as the source
+    const params: any[] = [
+      sourceVector,
+      candidateLimit,
+      distanceThreshold,
+      metric,
+      mediaItemId,
+      sourceItem.embeddingModel,
+      sourceItem.embeddingTaskType ?? null,
+      sourceItem.embeddingDimension ?? null,
+    ];
+    const filterConditions = buildFilterConditions(filters, params);
+
     let results;
     try {
       results = await this.mediaRepository.query(
@@ -283,20 +806,25 @@ export class MediaService {
           END as similarity
         FROM media_items
         WHERE embedding IS NOT NULL
+          AND "embeddingModel" = $6
+          AND "embeddingTaskType" IS NOT DISTINCT FROM $7
+          AND "embeddingDimension" IS NOT DISTINCT FROM $8
           AND id != $5
           AND (${distanceExpression}) <= $3
+          ${filterConditions}
         ORDER BY (${distanceExpression}) ASC
         LIMIT $2
         `,
-        [sourceVector, limit, distanceThreshold, metric, mediaItemId]
+        params
       );
     } catch (error) {
       console.error('Error in similarity search query:', error);
-      return [];
+      return { results: [], total: 0, nextCursor: null };
     }
 
     // Convert results to SimilaritySearchResult format with type-aware boosting
-    return results.map((row: MediaItem & { distance?: number; similarity?: number }) => {
+    const now = new Date(asOf);
+    const similar: SimilaritySearchResult[] = results.map((row: MediaItem & { distance?: number; similarity?: number }) => {
       const item = new MediaItem();
       item.id = row.id;
       item.title = row.title;
@@ -310,17 +838,23 @@ export class MediaService {
       item.createdAt = row.createdAt;
       item.updatedAt = row.updatedAt;
       
-      let similarity = row.similarity ?? (1 - (row.distance ?? 0));
+      const distance = row.distance ?? 0;
+      const baseSimilarity = row.similarity ?? (1 - distance);
       
       // Apply type-aware boosting for audio/video (no query in this context)
-      similarity = this.applyTypeAwareBoosting(item, '', similarity);
+      const typeBoost = this.applyTypeAwareBoosting(item, '', baseSimilarity, now);
       
       return {
         item,
-        similarity,
-        distance: row.distance ?? 0,
+        similarity: typeBoost.boostedSimilarity,
+        distance,
+        explanation: explain
+          ? { distance, baseSimilarity, typeBoost, score: typeBoost.boostedSimilarity }
+          : undefined,
       };
     });
+
+    return paginateByScore(similar, validatedLimit, cursor, result => ({ score: result.similarity, id: result.item.id, asOf }));
   }
 
   /**
@@ -333,15 +867,27 @@ export class MediaService {
    * - Transcription matching (phrase and word-level)
    * - Format/codec matching
    * - Recency boosting
+   * @param now - Reference time of the recency boost
+   * @returns Boosted similarity with the boosts that produced it
    */
   private applyTypeAwareBoosting(
     item: MediaItem,
     query: string,
-    baseSimilarity: number
-  ): number {
+    baseSimilarity: number,
+    now: Date = new Date()
+  ): TypeBoostExplanation {
+    const boostMode = MediaMatchingSettings.USE_ADDITIVE_BOOSTS ? 'additive' : 'multiplicative';
+
     // Skip boosting if similarity is too low
     if (baseSimilarity < MediaMatchingSettings.MIN_SIMILARITY_FOR_BOOST) {
-      return baseSimilarity;
+      return {
+        boosts: [],
+        boostMode,
+        totalMultiplier: 1.0,
+        cap: { limit: Math.min(1.0, baseSimilarity * MediaMatchingSettings.MAX_TOTAL_BOOST), applied: false },
+        boostedSimilarity: baseSimilarity,
+        skipped: true,
+      };
     }
 
     let boostedSimilarity = baseSimilarity;
@@ -437,7 +983,7 @@ export class MediaService {
       // 8. Transcription matching (improved with phrase and word matching)
       const transcriptionMatch = this.checkTranscriptionMatch(item.content, queryLower, queryWords);
       if (transcriptionMatch.matched) {
-        let boost = MediaMatchingSettings.TRANSCRIPTION_MATCH_BOOST;
+        let boost: number = MediaMatchingSettings.TRANSCRIPTION_MATCH_BOOST;
         
         // Higher boost for phrase matches
         if (transcriptionMatch.hasPhraseMatch) {
@@ -455,7 +1001,7 @@ export class MediaService {
 
       // 9. Recency boosting (newer content gets slight boost)
       if (MediaMatchingSettings.RECENCY_BOOST_ENABLED && item.createdAt) {
-        const recencyBoost = this.calculateRecencyBoost(item.createdAt);
+        const recencyBoost = this.calculateRecencyBoost(item.createdAt, now);
         if (recencyBoost > 1.0) {
           totalBoostMultiplier *= recencyBoost;
           boostFactors.push({ 
@@ -478,6 +1024,7 @@ export class MediaService {
 
     // Cap at maximum boost
     const maxBoosted = baseSimilarity * MediaMatchingSettings.MAX_TOTAL_BOOST;
+    const uncappedSimilarity = boostedSimilarity;
     boostedSimilarity = Math.min(boostedSimilarity, maxBoosted);
 
     // Cap at 1.0 (similarity can't exceed 1.0)
@@ -493,7 +1040,13 @@ export class MediaService {
       console.log(`  Final similarity: ${boostedSimilarity.toFixed(3)}`);
     }
 
-    return boostedSimilarity;
+    return {
+      boosts: boostFactors.map(factor => ({ name: factor.name, multiplier: factor.boost })),
+      boostMode,
+      totalMultiplier: totalBoostMultiplier,
+      cap: { limit: Math.min(1.0, maxBoosted), applied: boostedSimilarity < uncappedSimilarity },
+      boostedSimilarity,
+    };
   }
 
   /**
@@ -839,13 +1392,13 @@ export class MediaService {
 
   /**
    * Calculate recency boost (newer content gets slight boost)
+   * @param now - Reference time (fixed across the pages of a search)
    */
-  private calculateRecencyBoost(createdAt: Date): number {
+  private calculateRecencyBoost(createdAt: Date, now: Date = new Date()): number {
     if (!MediaMatchingSettings.RECENCY_BOOST_ENABLED) {
       return 1.0;
     }
 
-    const now = new Date();
     const daysSinceCreation = (now.getTime() - createdAt.getTime()) / (1000 * 60 * 60 * 24);
 
     // No boost if older than max days
@@ -860,10 +1413,62 @@ export class MediaService {
     return boost;
   }
 
-  async getAllMedia(): Promise<MediaItem[]> {
-    return await this.mediaRepository.find({
-      order: { createdAt: 'DESC' },
-    });
+  /**
+   * List media items one page at a time, by creation time then id
+   * Vector columns are left out (a 768-float embedding per item adds up fast).
+   * @param limit - Page size
+   * @param order - 'desc' for newest first, 'asc' for oldest first
+   * @param cursor - nextCursor of the previous page (omit for the first page)
+   * @throws CursorError when the cursor is invalid
+   */
+  async getMediaPage(
+    limit: number = PaginationSettings.DEFAULT_PAGE_SIZE,
+    order: 'asc' | 'desc' = PaginationSettings.DEFAULT_ORDER,
+    cursor?: string
+  ): Promise<{ items: MediaItem[]; total: number; nextCursor: string | null }> {
+    const validatedLimit = validateLimit(limit);
+    const after = decodeListingCursor(cursor);
+    const direction = order === 'asc' ? 'ASC' : 'DESC';
+
+    // Keyset condition on (createdAt, id); one extra row tells whether another page follows
+    const params: any[] = [validatedLimit + 1];
+    let cursorCondition = '';
+    if (after) {
+      params.push(after.createdAt, after.id);
+      cursorCondition = `WHERE ("createdAt", id) ${order === 'asc' ? '>' : '<'} ($2::timestamp, $3::uuid)`;
+    }
+
+    const [rows, countResult] = await Promise.all([
+      this.mediaRepository.query(
+        `
+        SELECT 
+          id, title, type, content, description, "filePath", url, "mimeType",
+          "embeddingModel", "embeddingDimension", "embeddingTaskType", "embeddingStatus",
+          "embeddingError", "embeddingAttempts", "embeddingNextAttemptAt",
+          "createdAt", "updatedAt",
+          "createdAt"::text as "cursorCreatedAt"
+        FROM media_items
+        ${cursorCondition}
+        ORDER BY "createdAt" ${direction}, id ${direction}
+        LIMIT $1
+        `,
+        params
+      ) as Promise<Array<MediaItem & { cursorCreatedAt: string }>>,
+      this.mediaRepository.query(`SELECT COUNT(*) as count FROM media_items`),
+    ]);
+
+    // Timestamps are compared at full (microsecond) precision, so the cursor keeps postgres' text form
+    const pageRows = rows.slice(0, validatedLimit);
+    const last = pageRows[pageRows.length - 1];
+    const nextCursor = rows.length > validatedLimit && last
+      ? encodeCursor({ createdAt: last.cursorCreatedAt, id: last.id })
+      : null;
+
+    return {
+      items: pageRows.map(({ cursorCreatedAt, ...row }) => Object.assign(new MediaItem(), row)),
+      total: parseInt(countResult[0]?.count || '0'),
+      nextCursor,
+    };
   }
 
   async getMediaById(id: string): Promise<MediaItem | null> {
@@ -871,10 +1476,34 @@ export class MediaService {
   }
 
   async deleteMedia(id: string): Promise<boolean> {
+    const item = await this.mediaRepository.findOne({
+      where: { id },
+      select: ['id', 'title', 'description', 'content'],
+    });
     const result = await this.mediaRepository.delete(id);
+    if (item && (result.affected ?? 0) > 0) {
+      await this.updateVocabulary(item, 'remove');
+    }
     return (result.affected ?? 0) > 0;
   }
 
+  /**
+   * Count or uncount the words of an item in the spelling vocabulary
+   * A failure only makes suggestions less accurate, so it does not fail the caller
+   * @private
+   */
+  private async updateVocabulary(item: MediaItem, change: 'add' | 'remove'): Promise<void> {
+    try {
+      if (change === 'add') {
+        await this.vocabularyService.addItem(item);
+      } else {
+        await this.vocabularyService.removeItem(item);
+      }
+    } catch (error) {
+      console.warn(`⚠ Could not update the vocabulary for "${item.title}":`, error instanceof Error ? error.message : error);
+    }
+  }
+
   /**
    * Get statistics about embeddings in the database
    */
@@ -883,6 +1512,9 @@ export class MediaService {
     itemsWithEmbeddings: number;
     itemsWithoutEmbeddings: number;
     percentageWithEmbeddings: number;
+    embeddingModels: Array<{ model: string | null; dimension: number | null; taskType: string | null; count: number }>;
+    embeddingStatus: EmbeddingStatusCounts;
+    circuitBreaker: CircuitBreakerStatus;
   }> {
     const totalItems = await this.mediaRepository.count();
     
@@ -893,11 +1525,29 @@ export class MediaService {
     const itemsWithoutEmbeddings = totalItems - itemsWithEmbeddings;
     const percentageWithEmbeddings = totalItems > 0 ? (itemsWithEmbeddings / totalItems) * 100 : 0;
 
+    // Breakdown by producing model (more than one entry means a re-embed is pending)
+    const modelRows = await this.mediaRepository.query(
+      `SELECT "embeddingModel" as model, "embeddingDimension" as dimension, "embeddingTaskType" as "taskType",
+              COUNT(*) as count
+       FROM media_items
+       WHERE embedding IS NOT NULL
+       GROUP BY "embeddingModel", "embeddingDimension", "embeddingTaskType"
+       ORDER BY COUNT(*) DESC`
+    );
+
     return {
       totalItems,
       itemsWithEmbeddings,
       itemsWithoutEmbeddings,
       percentageWithEmbeddings: Math.round(percentageWithEmbeddings * 100) / 100,
+      embeddingModels: modelRows.map((row: { model: string | null; dimension: number | null; taskType: string | null; count: string }) => ({
+        model: row.model,
+        dimension: row.dimension,
+        taskType: row.taskType,
+        count: parseInt(row.count),
+      })),
+      embeddingStatus: await this.embeddingPipeline.getStatusCounts(),
+      circuitBreaker: getEmbeddingCircuitStatus(),
     };
   }
 
@@ -905,10 +1555,11 @@ export class MediaService {
    * Semantic search with enhanced understanding and context awareness
    * This method provides true semantic search that understands meaning, context, and relationships
    * 
-   * @param query - Natural language query
+   * @param query - Natural language query; may use inline syntax (see parseSearchQuery)
    * @param limit - Maximum number of results
    * @param options - Additional semantic search options
    * @returns Enhanced search results with semantic understanding
+   * @throws SearchFilterError when the inline syntax is invalid
    */
   async semanticSearch(
     query: string,
@@ -917,49 +1568,91 @@ export class MediaService {
       minSimilarity?: number;
       includeRelated?: boolean;
       contextBoost?: boolean;
+      fieldWeights?: FieldWeights; // Score by weighted title/description/body vectors
+      filters?: SearchFilters; // Metadata filters, applied in SQL before ranking
+      cursor?: string; // nextCursor of the previous page
+      expansion?: QueryExpansionOptions; // Query expansion (see normalizeExpansionOptions)
+      autoCorrect?: boolean; // Search with the best spelling suggestion when nothing passes the thresholds
+      reranker?: RerankerName; // Second-stage scoring of the candidates (default: getDefaultRerankerName())
+      mmrLambda?: number; // Diversify the results by maximal marginal relevance (see diversify)
+      explain?: boolean; // Add a score breakdown (explanation) to every result
+      facets?: boolean; // Count facets over every matching item
     } = {}
-  ): Promise<{
+  ): Promise<SpellingCorrection & {
     query: string;
-    results: Array<SimilaritySearchResult & { relevanceScore?: number; semanticMatch?: boolean }>;
+    parsedQuery: ParsedQuery;
+    results: Array<SimilaritySearchResult & { relevanceScore?: number; rerankScore?: number; semanticMatch?: boolean }>;
+    total: number;
+    nextCursor: string | null;
     relatedConcepts?: string[];
     helpfulMessage?: string;
+    facets?: SearchFacets;
+    facetsTruncated?: boolean; // The candidate pool was full, so more items may match than were counted
     searchMetadata: {
       totalCandidates: number;
       filteredResults: number;
       averageSimilarity: number;
       searchType: 'semantic';
       effectiveMinSimilarity?: number;
+      fieldWeights?: FieldWeights;
+      queryExpansion?: QueryExpansion;
+      reranker?: RerankMetadata;
+      mmr?: { lambda: number; candidates: number };
     };
   }> {
     const { 
       minSimilarity = SemanticSearchSettings.DEFAULT_MIN_SIMILARITY, 
       includeRelated = SemanticSearchSettings.DEFAULT_INCLUDE_RELATED, 
-      contextBoost = SemanticSearchSettings.DEFAULT_CONTEXT_BOOST 
+      contextBoost = SemanticSearchSettings.DEFAULT_CONTEXT_BOOST,
+      fieldWeights,
+      cursor,
+      expansion: expansionOptions = normalizeExpansionOptions(undefined)!,
+      autoCorrect = SpellingSettings.DEFAULT_AUTO_CORRECT,
+      reranker = getDefaultRerankerName(),
+      mmrLambda,
+      explain = false,
+      facets = false,
     } = options;
 
-    // Validate limit
+    // Validate limit and reject a malformed cursor or query before doing any work
     const validatedLimit = validateLimit(limit);
+    // Recency boosts are computed as of the first page, so later pages cut the same ranking
+    const asOf = decodeScoreCursor(cursor)?.asOf ?? new Date().toISOString();
+    const parsedQuery = parseSearchQuery(query);
+    const searchText = getSearchText(parsedQuery);
+    const filters = applyParsedQuery(options.filters ?? {}, parsedQuery);
+    const suggestions = await this.vocabularyService.suggest(query, searchText);
+
+    // Expand the query (synonyms, acronyms, co-occurring terms) for better recall
+    const expansion = await this.enhanceQueryForSemanticSearch(searchText, expansionOptions, filters);
+    const queryExpansion = expansionOptions.enabled ? expansion : undefined;
+
+    // Generate embeddings for the expanded query or each of its phrasings (cached)
+    const queryTexts = expansion.multiQuery === 'off' ? [expansion.expandedQuery] : expansion.variants;
+    const queryEmbeddings = await this.embeddingCache.getEmbeddings(queryTexts, 'query');
+    const queryVectors = (expansion.multiQuery === 'vector' ? [fuseQueryVectors(queryEmbeddings)] : queryEmbeddings)
+      .map(embedding => `[${embedding.join(',')}]`);
+
+    // Only document vectors produced by the current model (and dimension) are comparable with the query
+    const { modelName: embeddingModel, dimension: embeddingDimension } = getEmbeddingProvider();
+    const documentTaskType = taskTypeForUsage('document');
 
-    // Enhanced query processing for better semantic understanding
-    const enhancedQuery = this.enhanceQueryForSemanticSearch(query);
-    
-    // Generate embedding for the enhanced query
-    const queryEmbedding = await generateEmbedding(enhancedQuery);
-    const queryVector = `[${queryEmbedding.join(',')}]`;
-
-    // Use cosine distance for semantic search (best for text)
-    const distanceExpression = 'embedding::vector <=> $1::vector';
-    
     // Check how many items have embeddings
     const itemsWithEmbeddings = await this.mediaRepository.query(
-      `SELECT COUNT(*) as count FROM media_items WHERE embedding IS NOT NULL`
+      `SELECT COUNT(*) as count FROM media_items
+       WHERE embedding IS NOT NULL AND "embeddingModel" = $1 AND "embeddingDimension" = $2 AND "embeddingTaskType" = $3`,
+      [embeddingModel, embeddingDimension, documentTaskType]
     );
     const embeddingCount = parseInt(itemsWithEmbeddings[0]?.count || '0');
     
     if (embeddingCount === 0) {
       return {
         query,
+        parsedQuery,
+        suggestions,
         results: [],
+        total: 0,
+        nextCursor: null,
         searchMetadata: {
           totalCandidates: 0,
           filteredResults: 0,
@@ -973,22 +1666,24 @@ export class MediaService {
     const adaptiveThreshold = DistanceSettings.SEMANTIC_SEARCH_ADAPTIVE_THRESHOLD;
 
     let allResults;
+    let candidatesTruncated: boolean;
     try {
       // First, get ALL results without threshold to see what's available
-      // Note: $1 is the query vector, $2 is the limit
-      const allCandidates = await this.mediaRepository.query(
-        `
-        SELECT 
-          id, title, type, content, description, "filePath", url, "mimeType", 
-          embedding, "createdAt", "updatedAt",
-          (${distanceExpression}) as distance,
-          (1 - (${distanceExpression})) as similarity
-        FROM media_items
-        WHERE embedding IS NOT NULL
-        ORDER BY (${distanceExpression}) ASC
-        LIMIT $2
-        `,
-        [queryVector, validatedLimit * LimitSettings.SEMANTIC_CANDIDATE_MULTIPLIER] // Get more candidates for semantic analysis
+      // (enough candidates for every page, so pages are cut from the same ranking)
+      const candidateLimit = Math.max(
+        validatedLimit * LimitSettings.SEMANTIC_CANDIDATE_MULTIPLIER,
+        PaginationSettings.MAX_SEARCH_RESULTS
+      );
+      // Multi-query "results" mode: search with each phrasing, keep every item's best similarity
+      const candidateLists = await Promise.all(queryVectors.map(queryVector =>
+        this.findSemanticCandidates(queryVector, candidateLimit, fieldWeights, filters)
+      ));
+      const allCandidates: any[] = candidateLists.length === 1
+        ? candidateLists[0]
+        : mergeCandidateLists(candidateLists);
+      // A full list (nearest first) whose farthest candidate still passes may have left out matches
+      candidatesTruncated = candidateLists.some(list =>
+        list.length >= candidateLimit && list[list.length - 1].distance <= adaptiveThreshold
       );
 
       console.log(`Semantic search: Found ${allCandidates.length} total candidates for query "${query}"`);
@@ -1028,9 +1723,9 @@ export class MediaService {
         }
       }
 
-      // Limit results
-      filteredResults = filteredResults.slice(0, validatedLimit)
-        .map((row: MediaItem & { distance?: number; similarity?: number }) => {
+      // Score every result, then cut the requested page by relevance
+      const scoredResults = filteredResults
+        .map((row: CandidateRow) => {
           const item = new MediaItem();
           item.id = row.id;
           item.title = row.title;
@@ -1045,14 +1740,17 @@ export class MediaService {
           item.updatedAt = row.updatedAt;
           
           // Calculate relevance score (enhanced similarity with context)
-          let baseSimilarity = row.similarity ?? (1 - (row.distance ?? 0));
+          const distance = row.distance ?? 0;
+          const rawSimilarity = row.similarity ?? (1 - distance);
           
           // Apply type-aware boosting
-          baseSimilarity = this.applyTypeAwareBoosting(item, query, baseSimilarity);
+          const typeBoost = this.applyTypeAwareBoosting(item, searchText, rawSimilarity, new Date(asOf));
+          const baseSimilarity = typeBoost.boostedSimilarity;
           
-          const relevanceScore = contextBoost 
-            ? this.calculateRelevanceScore(item, query, baseSimilarity)
-            : baseSimilarity;
+          const context = contextBoost 
+            ? this.calculateRelevanceScore(item, searchText, baseSimilarity)
+            : undefined;
+          const relevanceScore = context?.score ?? baseSimilarity;
 
           // Determine if it's a strong semantic match using settings
           const semanticMatch = baseSimilarity >= SimilaritySettings.STRONG_MATCH_THRESHOLD;
@@ -1060,12 +1758,71 @@ export class MediaService {
           return {
             item,
             similarity: baseSimilarity,
-            distance: row.distance ?? 0,
+            distance,
+            bestPassage: row.bestPassage,
+            fieldScores: row.fieldScores,
             relevanceScore,
             semanticMatch,
+            explanation: explain
+              ? { distance, baseSimilarity: rawSimilarity, typeBoost, contextBoost: context, score: relevanceScore }
+              : undefined,
           };
-        })
-        .sort((a: { relevanceScore?: number; similarity: number }, b: { relevanceScore?: number; similarity: number }) => (b.relevanceScore ?? b.similarity) - (a.relevanceScore ?? a.similarity));
+        });
+
+      // Second stage: rerank the best candidates, then cut the page in reranked order
+      // (or in MMR order, diversifying the most relevant of them)
+      const reranked = await this.rerankResults(searchText, scoredResults, reranker);
+      const wasReranked = (reranked.metadata?.candidates ?? 0) > 0;
+      const finalScore = (result: { relevanceScore: number; rerankScore?: number }) =>
+        result.rerankScore ?? result.relevanceScore;
+      let page: SearchPage<(typeof reranked.results)[number] & { mmrScore?: number }>;
+      let mmrCandidates = 0;
+      let matchedIds: string[]; // Every item the page is cut from (facets)
+      if (mmrLambda !== undefined) {
+        // Reranker and relevance scores are not comparable, so only reranked results are diversified
+        const pool = takeMMRPool(
+          wasReranked ? reranked.results.filter(result => result.rerankScore !== undefined) : reranked.results,
+          finalScore
+        );
+        mmrCandidates = pool.length;
+        const diversified = diversify(pool, mmrLambda, undefined, finalScore, result => result.item.embedding)
+          .map((result, rank) => ({ result, rank }));
+        const diversifiedPage = paginateByScore(
+          diversified,
+          validatedLimit,
+          cursor,
+          entry => ({ score: -entry.rank, id: entry.result.item.id, asOf })
+        );
+        page = { ...diversifiedPage, results: diversifiedPage.results.map(entry => entry.result) };
+        matchedIds = pool.map(result => result.item.id);
+      } else if (wasReranked) {
+        // Reranked results, then the others by relevance: paginate by that position
+        const rankedPage = paginateByScore(
+          reranked.results.map((result, rank) => ({ result, rank })),
+          validatedLimit,
+          cursor,
+          entry => ({ score: -entry.rank, id: entry.result.item.id, asOf })
+        );
+        page = { ...rankedPage, results: rankedPage.results.map(entry => entry.result) };
+        matchedIds = reranked.results.map(result => result.item.id);
+      } else {
+        page = paginateByScore(
+          reranked.results,
+          validatedLimit,
+          cursor,
+          result => ({ score: finalScore(result), id: result.item.id, asOf })
+        );
+        matchedIds = reranked.results.map(result => result.item.id);
+      }
+
+      // Nothing passed the similarity thresholds: try the best spelling suggestion instead
+      if (autoCorrect && suggestions.length > 0 && (page.total === 0 || effectiveMinSimilarity === 0)) {
+        const corrected = await this.semanticSearch(suggestions[0].text, limit, { ...options, autoCorrect: false });
+        return { ...corrected, suggestions, correctedQuery: suggestions[0].text };
+      }
+      // Snippets are compared with the vector the search used (the expanded query, or the mean of its phrasings)
+      const snippetEmbedding = expansion.multiQuery === 'off' ? queryEmbeddings[0] : fuseQueryVectors(queryEmbeddings);
+      filteredResults = await this.highlightService.annotate(page.results, this.getHighlightText(parsedQuery), snippetEmbedding);
 
       // Calculate average similarity
       const averageSimilarity = filteredResults.length > 0
@@ -1074,7 +1831,7 @@ export class MediaService {
 
       // Extract related concepts from top results (if enabled)
       const relatedConcepts = includeRelated && filteredResults.length > 0
-        ? this.extractRelatedConcepts(filteredResults, query)
+        ? this.extractRelatedConcepts(filteredResults, searchText)
         : undefined;
 
       // Add helpful message if no results
@@ -1095,25 +1852,46 @@ export class MediaService {
           helpfulMessage = `Found ${filteredResults.length} results, but they have low similarity (avg: ${(avgSim * 100).toFixed(1)}%). These may not be very relevant to your query. Consider adding more related content to your database.`;
         }
       }
+      if (suggestions.length > 0 && (filteredResults.length === 0 || effectiveMinSimilarity === 0)) {
+        helpfulMessage = `Did you mean "${suggestions[0].text}"? ${helpfulMessage ?? ''}`.trim();
+      }
 
       return {
         query,
+        parsedQuery,
+        suggestions,
         results: filteredResults,
+        total: page.total,
+        nextCursor: page.nextCursor,
         relatedConcepts,
         helpfulMessage,
+        facets: facets ? await this.facetService.countFacets(matchedIds) : undefined,
+        facetsTruncated: facets ? candidatesTruncated : undefined,
         searchMetadata: {
           totalCandidates: allCandidates.length,
           filteredResults: filteredResults.length,
           averageSimilarity: Math.round(averageSimilarity * 1000) / 1000,
           searchType: 'semantic',
           effectiveMinSimilarity: effectiveMinSimilarity,
+          fieldWeights,
+          queryExpansion,
+          reranker: reranked.metadata,
+          mmr: mmrLambda !== undefined ? { lambda: mmrLambda, candidates: mmrCandidates } : undefined,
         },
       };
     } catch (error) {
+      // Embedding provider failures are reported to the caller (503), not hidden as "no results"
+      if (error instanceof EmbeddingError) {
+        throw error;
+      }
       console.error('Error in semantic search:', error);
       return {
         query,
+        parsedQuery,
+        suggestions,
         results: [],
+        total: 0,
+        nextCursor: null,
         searchMetadata: {
           totalCandidates: 0,
           filteredResults: 0,
@@ -1124,41 +1902,131 @@ export class MediaService {
     }
   }
 
+  /**
+   * Score results again with a reranker (see utils/rerankers.ts)
+   * Only the RerankerSettings.MAX_CANDIDATES most relevant results are reranked;
+   * they come first by rerankScore, followed by the others in relevance order
+   * (without rerankScore). If the reranker fails, the results keep their relevance order.
+   * @returns Results (in that order once reranked), and what was done (undefined for 'none')
+   * @private
+   */
+  private async rerankResults<T extends { item: MediaItem; relevanceScore: number }>(
+    query: string,
+    results: T[],
+    name: RerankerName
+  ): Promise<{ results: Array<T & { rerankScore?: number }>; metadata?: RerankMetadata }> {
+    if (name === 'none' || results.length === 0) {
+      return { results };
+    }
+
+    const byId = (a: T, b: T) => (a.item.id < b.item.id ? -1 : a.item.id > b.item.id ? 1 : 0);
+    const sorted = [...results].sort((a, b) => b.relevanceScore - a.relevanceScore || byId(a, b));
+    const candidates = sorted.slice(0, RerankerSettings.MAX_CANDIDATES);
+    try {
+      const scores = await createReranker(name).rerank(query, candidates.map(result => ({
+        text: [result.item.title, result.item.description, result.item.content]
+          .filter(Boolean)
+          .join('\n')
+          .slice(0, RerankerSettings.MAX_DOCUMENT_LENGTH),
+        score: result.relevanceScore,
+      })));
+      const head = candidates
+        .map((result, i) => ({ ...result, rerankScore: scores[i] }))
+        .sort((a, b) => b.rerankScore - a.rerankScore || byId(a, b));
+      return {
+        results: [...head, ...sorted.slice(candidates.length)],
+        metadata: { name, candidates: candidates.length },
+      };
+    } catch (error) {
+      // A broken reranker should not break search; fall back to the relevance order
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠ Reranker "${name}" failed, using relevance order:`, message);
+      return { results, metadata: { name, candidates: 0, error: message } };
+    }
+  }
+
+  /**
+   * Semantic search candidates for one query vector, nearest first
+   * Note: $1 is the query vector, $2 is the limit, $3/$4/$5 the current embedding model, task type and dimension
+   * @private
+   */
+  private async findSemanticCandidates(
+    queryVector: string,
+    candidateLimit: number,
+    fieldWeights: FieldWeights | undefined,
+    filters: SearchFilters
+  ): Promise<CandidateRow[]> {
+    if (fieldWeights) {
+      // Weighted title/description/body scores, fused in SQL
+      return await this.findFieldCandidates(queryVector, fieldWeights, candidateLimit, 'cosine', filters);
+    }
+
+    // Use cosine distance for semantic search (best for text)
+    const distanceExpression = 'embedding::vector <=> $1::vector';
+    const provider = getEmbeddingProvider();
+    const params: any[] = [queryVector, candidateLimit, provider.modelName, taskTypeForUsage('document'), provider.dimension];
+    const filterConditions = buildFilterConditions(filters, params);
+    const itemCandidates = await this.mediaRepository.query(
+      `
+      SELECT 
+        id, title, type, content, description, "filePath", url, "mimeType", 
+        embedding, "createdAt", "updatedAt",
+        (${distanceExpression}) as distance,
+        (1 - (${distanceExpression})) as similarity
+      FROM media_items
+      WHERE embedding IS NOT NULL
+        AND "embeddingModel" = $3
+        AND "embeddingTaskType" = $4
+        AND "embeddingDimension" = $5
+        ${filterConditions}
+      ORDER BY (${distanceExpression}) ASC
+      LIMIT $2
+      `,
+      params // Get more candidates for semantic analysis
+    );
+
+    // Aggregate chunk hits per item (long content matched by its best passage)
+    return await this.mergeChunkHits(itemCandidates, queryVector, candidateLimit, 'cosine', filters);
+  }
+
   /**
    * Enhance query for better semantic understanding
-   * Expands query with context and related terms
+   * Expands the query with dictionary synonyms and acronyms and with terms that
+   * co-occur with it in the corpus, and phrases it several ways for multi-query search
    */
-  private enhanceQueryForSemanticSearch(query: string): string {
-    // Remove extra whitespace
-    query = query.trim().replace(/\s+/g, ' ');
-    
-    // For short queries, add context hints
-    if (query.split(' ').length <= 2) {
-      // Don't modify too much, but ensure it's a complete thought
-      return query;
+  private async enhanceQueryForSemanticSearch(
+    query: string,
+    options: QueryExpansionOptions,
+    filters: SearchFilters
+  ): Promise<QueryExpansion> {
+    const expansion = await this.queryExpansionService.expand(query, options, filters);
+    if (expansion.expandedQuery !== query.trim() || expansion.variants.length > 1) {
+      console.log(`Query expansion: "${query}" → "${expansion.expandedQuery}"` +
+        (expansion.multiQuery !== 'off' ? ` (${expansion.variants.length} phrasings, ${expansion.multiQuery})` : ''));
     }
-    
-    // Return enhanced query (can be expanded with synonyms, context, etc.)
-    return query;
+    return expansion;
   }
 
   /**
    * Calculate relevance score with context boosting
    * Considers title matches, description relevance, and content context
+   * @returns Relevance score with the boosts that produced it
    */
   private calculateRelevanceScore(
     item: MediaItem,
     query: string,
     baseSimilarity: number
-  ): number {
+  ): ContextBoostExplanation {
     let score = baseSimilarity;
     const queryLower = query.toLowerCase();
+    const boosts: ContextBoostExplanation['boosts'] = [];
     
     // Boost if query terms appear in title (exact match bonus)
     if (item.title) {
       const titleLower = item.title.toLowerCase();
       if (titleLower.includes(queryLower)) {
         score += SemanticSearchSettings.TITLE_MATCH_BOOST;
+        boosts.push({ name: 'Title contains query', amount: SemanticSearchSettings.TITLE_MATCH_BOOST });
       }
       // Partial word matches
       const queryWords = queryLower.split(' ');
@@ -1167,7 +2035,9 @@ export class MediaService {
         titleWords.some(tw => tw.includes(qw) || qw.includes(tw))
       );
       if (matchingWords.length > 0) {
-        score += (matchingWords.length / queryWords.length) * SemanticSearchSettings.PARTIAL_WORD_MATCH_BOOST;
+        const amount = (matchingWords.length / queryWords.length) * SemanticSearchSettings.PARTIAL_WORD_MATCH_BOOST;
+        score += amount;
+        boosts.push({ name: `Title words (${matchingWords.length}/${queryWords.length})`, amount });
       }
     }
     
@@ -1176,11 +2046,16 @@ export class MediaService {
       const descLower = item.description.toLowerCase();
       if (descLower.includes(queryLower)) {
         score += SemanticSearchSettings.DESCRIPTION_MATCH_BOOST;
+        boosts.push({ name: 'Description contains query', amount: SemanticSearchSettings.DESCRIPTION_MATCH_BOOST });
       }
     }
     
     // Normalize score to 0-1 range
-    return Math.min(1.0, score);
+    return {
+      boosts,
+      total: boosts.reduce((sum, boost) => sum + boost.amount, 0),
+      score: Math.min(1.0, score),
+    };
   }
 
   /**
@@ -1241,42 +2116,445 @@ export class MediaService {
   }
 
   /**
-   * Fuzzy search using Levenshtein distance
-   * Finds items even with typos or partial matches
+   * Keyword search: case-insensitive substring match of the query in the
+   * title, description or content, run in SQL
+   *
+   * @param query - Search query; may use inline syntax (see parseSearchQuery)
+   * @param limit - Maximum number of results
+   * @param filters - Metadata filters
+   * @param cursor - nextCursor of the previous page (omit for the first page)
+   * @param autoCorrect - Search with the best spelling suggestion when the query has no results
+   * @returns One page of results by keyword score then id, with highlights, a snippet,
+   * the parsed query and spelling suggestions
+   * @throws SearchFilterError when the inline syntax is invalid
+   */
+  async keywordSearch(
+    query: string,
+    limit: number = LimitSettings.DEFAULT_SEARCH_LIMIT,
+    filters: SearchFilters = {},
+    cursor?: string,
+    autoCorrect: boolean = SpellingSettings.DEFAULT_AUTO_CORRECT
+  ): Promise<SearchPage<KeywordSearchResult> & SpellingCorrection & { parsedQuery: ParsedQuery }> {
+    decodeScoreCursor(cursor);
+    const validatedLimit = validateLimit(limit);
+    const parsedQuery = parseSearchQuery(query);
+    const searchText = getSearchText(parsedQuery).trim();
+
+    const { TITLE_WEIGHT, DESCRIPTION_WEIGHT, CONTENT_WEIGHT } = KeywordSearchSettings;
+    const params: any[] = [
+      `%${escapeLike(searchText)}%`,
+      PaginationSettings.MAX_SEARCH_RESULTS,
+      TITLE_WEIGHT,
+      DESCRIPTION_WEIGHT,
+      CONTENT_WEIGHT,
+    ];
+    const filterConditions = buildFilterConditions(applyParsedQuery(filters, parsedQuery), params);
+    const rows: Array<MediaItem & { titleMatch: boolean; descriptionMatch: boolean; contentMatch: boolean }> =
+      await this.mediaRepository.query(
+        `
+        SELECT * FROM (
+          SELECT 
+            id, title, type, content, description, "filePath", url, "mimeType", 
+            "createdAt", "updatedAt",
+            COALESCE(title ILIKE $1, false) as "titleMatch",
+            COALESCE(description ILIKE $1, false) as "descriptionMatch",
+            COALESCE(content ILIKE $1, false) as "contentMatch"
+          FROM media_items
+          WHERE (title ILIKE $1 OR description ILIKE $1 OR content ILIKE $1)
+            ${filterConditions}
+        ) matched
+        ORDER BY ("titleMatch"::int * $3 + "descriptionMatch"::int * $4 + "contentMatch"::int * $5) DESC, id ASC
+        LIMIT $2
+        `,
+        params
+      );
+
+    const results = rows.map(row => {
+      const item = new MediaItem();
+      item.id = row.id;
+      item.title = row.title;
+      item.type = row.type;
+      item.content = row.content;
+      item.description = row.description;
+      item.filePath = row.filePath;
+      item.url = row.url;
+      item.mimeType = row.mimeType;
+      item.createdAt = row.createdAt;
+      item.updatedAt = row.updatedAt;
+
+      const matchedFields: KeywordSearchResult['matchedFields'] = [];
+      if (row.titleMatch) matchedFields.push('title');
+      if (row.descriptionMatch) matchedFields.push('description');
+      if (row.contentMatch) matchedFields.push('content');
+      const weight = (row.titleMatch ? TITLE_WEIGHT : 0) +
+        (row.descriptionMatch ? DESCRIPTION_WEIGHT : 0) +
+        (row.contentMatch ? CONTENT_WEIGHT : 0);
+
+      return {
+        item,
+        keywordScore: weight / (TITLE_WEIGHT + DESCRIPTION_WEIGHT + CONTENT_WEIGHT),
+        matchedFields,
+      };
+    });
+    const page = paginateByScore(results, validatedLimit, cursor, result => ({ score: result.keywordScore, id: result.item.id }));
+
+    const suggestions = await this.vocabularyService.suggest(query, searchText);
+    if (autoCorrect && page.total === 0 && suggestions.length > 0) {
+      const corrected = await this.keywordSearch(suggestions[0].text, limit, filters, cursor, false);
+      return { ...corrected, suggestions, correctedQuery: suggestions[0].text };
+    }
+
+    await this.highlightService.annotate(page.results, this.getHighlightText(parsedQuery));
+    return { ...page, parsedQuery, suggestions };
+  }
+
+  /**
+   * Hybrid search: full-text (tsvector) and vector rankings fused with
+   * reciprocal rank fusion, so exact identifiers and rare terms found by the
+   * full-text query still surface next to semantic matches
+   *
+   * @param query - Search query
+   * @param limit - Maximum number of results
+   * @param options - Ranking weights (0 disables a ranking), the RRF constant k, metadata filters,
+   * the cursor of the previous page and whether to count facets
+   * @returns One page of fused results with the rank of each item in both rankings
+   * (and facet counts over every fused result when requested, with facetsTruncated
+   * when a ranking stopped at its candidate limit)
+   */
+  async hybridSearch(
+    query: string,
+    limit: number = LimitSettings.DEFAULT_SEARCH_LIMIT,
+    options: {
+      vectorWeight?: number;
+      textWeight?: number;
+      rrfK?: number;
+      filters?: SearchFilters;
+      cursor?: string;
+      facets?: boolean;
+    } = {}
+  ): Promise<{
+    query: string;
+    results: HybridSearchResult[];
+    total: number;
+    nextCursor: string | null;
+    facets?: SearchFacets;
+    facetsTruncated?: boolean;
+    searchMetadata: {
+      vectorCandidates: number;
+      textCandidates: number;
+      weights: { vector: number; text: number };
+      rrfK: number;
+      searchType: 'hybrid';
+    };
+  }> {
+    const {
+      vectorWeight = HybridSearchSettings.DEFAULT_VECTOR_WEIGHT,
+      textWeight = HybridSearchSettings.DEFAULT_TEXT_WEIGHT,
+      rrfK = HybridSearchSettings.RRF_K,
+      filters = {},
+      cursor,
+      facets = false,
+    } = options;
+
+    const validatedLimit = validateLimit(limit);
+    decodeScoreCursor(cursor);
+
+    // The vector ranking reuses searchMedia without a distance cutoff (chunks included)
+    const [vectorMatches, textResults] = await Promise.all([
+      vectorWeight > 0
+        ? this.findVectorMatches(query, HybridSearchSettings.CANDIDATE_LIMIT, Infinity, 'cosine', undefined, filters)
+        : Promise.resolve(undefined),
+      textWeight > 0
+        ? this.findTextCandidates(query, HybridSearchSettings.CANDIDATE_LIMIT, filters)
+        : Promise.resolve([]),
+    ]);
+    const vectorResults = vectorMatches?.results ?? [];
+
+    // score = sum over rankings of weight / (k + rank)
+    const fused = new Map<string, HybridSearchResult>();
+    const entryFor = (item: MediaItem): HybridSearchResult => {
+      let entry = fused.get(item.id);
+      if (!entry) {
+        entry = { item, score: 0, vectorRank: null, textRank: null, similarity: null, textScore: null };
+        fused.set(item.id, entry);
+      }
+      return entry;
+    };
+
+    vectorResults.forEach((result, index) => {
+      const entry = entryFor(result.item);
+      entry.vectorRank = index + 1;
+      entry.similarity = result.similarity;
+      entry.bestPassage = result.bestPassage;
+      entry.score += vectorWeight / (rrfK + index + 1);
+    });
+
+    textResults.forEach((result, index) => {
+      const entry = entryFor(result.item);
+      entry.textRank = index + 1;
+      entry.textScore = result.textScore;
+      entry.score += textWeight / (rrfK + index + 1);
+    });
+
+    const page = paginateByScore(
+      [...fused.values()],
+      validatedLimit,
+      cursor,
+      result => ({ score: result.score, id: result.item.id })
+    );
+    await this.highlightService.annotate(page.results, query, vectorMatches?.queryEmbedding);
+
+    console.log(
+      `Hybrid search: ${vectorResults.length} vector + ${textResults.length} full-text candidates, ` +
+      `returning ${page.results.length} of ${page.total} for query "${query}"`
+    );
+
+    return {
+      query,
+      ...page,
+      facets: facets ? await this.facetService.countFacets([...fused.keys()]) : undefined,
+      // Either ranking may have stopped at its candidate limit before every match
+      facetsTruncated: facets
+        ? Boolean(vectorMatches && (vectorMatches.candidatesTruncated || vectorMatches.nextCursor !== null)) ||
+          textResults.length >= HybridSearchSettings.CANDIDATE_LIMIT
+        : undefined,
+      searchMetadata: {
+        vectorCandidates: vectorResults.length,
+        textCandidates: textResults.length,
+        weights: { vector: vectorWeight, text: textWeight },
+        rrfK,
+        searchType: 'hybrid',
+      },
+    };
+  }
+
+  /**
+   * Full-text ranking over media_items.searchVector (GIN indexed)
+   * The query is parsed with websearch_to_tsquery, so quotes, OR and -negation work
+   * @private
+   */
+  private async findTextCandidates(
+    query: string,
+    limit: number,
+    filters: SearchFilters = {}
+  ): Promise<Array<{ item: MediaItem; textScore: number }>> {
+    const params: any[] = [query, HybridSearchSettings.TEXT_SEARCH_CONFIG, limit];
+    const filterConditions = buildFilterConditions(filters, params);
+
+    let rows: Array<MediaItem & { textScore: number }>;
+    try {
+      rows = await this.mediaRepository.query(
+        `
+        SELECT 
+          id, title, type, content, description, "filePath", url, "mimeType", 
+          embedding, "createdAt", "updatedAt",
+          ts_rank_cd("searchVector", tsquery) as "textScore"
+        FROM media_items, websearch_to_tsquery($2::regconfig, $1) tsquery
+        WHERE "searchVector" @@ tsquery
+          ${filterConditions}
+        ORDER BY "textScore" DESC, "createdAt" DESC
+        LIMIT $3
+        `,
+        params
+      );
+    } catch (error) {
+      console.error('Error in full-text search query:', error);
+      return [];
+    }
+
+    return rows.map(row => {
+      const item = new MediaItem();
+      item.id = row.id;
+      item.title = row.title;
+      item.type = row.type;
+      item.content = row.content;
+      item.description = row.description;
+      item.filePath = row.filePath;
+      item.url = row.url;
+      item.mimeType = row.mimeType;
+      item.embedding = row.embedding;
+      item.createdAt = row.createdAt;
+      item.updatedAt = row.updatedAt;
+      return { item, textScore: row.textScore };
+    });
+  }
+
+  /**
+   * Fuzzy search: finds items even with typos or partial matches
+   * Trigram mode scores in Postgres with pg_trgm (GIN indexed); levenshtein mode,
+   * also used when the trigram query fails, matches every item in-process.
    * 
-   * @param query - Search query (can have typos)
+   * @param query - Search query (can have typos); may use inline syntax (see parseSearchQuery)
    * @param limit - Maximum number of results
    * @param minScore - Minimum fuzzy match score (0-1)
    * @param searchFields - Fields to search in (default: all)
-   * @returns Array of search results with fuzzy match scores
+   * @param filters - Metadata filters, applied in SQL before matching
+   * @param cursor - nextCursor of the previous page (omit for the first page)
+   * @param mode - Matching mode (see FuzzySearchSettings.DEFAULT_MODE)
+   * @param autoCorrect - Search with the best spelling suggestion when the query has no results
+   * @returns One page of search results with fuzzy match scores, by score then id,
+   * the mode that produced them, the parsed query and spelling suggestions
+   * @throws SearchFilterError when the inline syntax is invalid
    */
   async fuzzySearch(
     query: string,
     limit: number = FuzzySearchSettings.DEFAULT_LIMIT,
     minScore: number = FuzzySearchSettings.DEFAULT_MIN_SCORE,
-    searchFields: ('title' | 'description' | 'content')[] = [...FuzzySearchSettings.DEFAULT_SEARCH_FIELDS]
-  ): Promise<Array<{
-    item: MediaItem;
-    fuzzyScore: number;
-    matchedField: string;
-    matchedText?: string;
-  }>> {
+    searchFields: FuzzySearchField[] = [...FuzzySearchSettings.DEFAULT_SEARCH_FIELDS],
+    filters: SearchFilters = {},
+    cursor?: string,
+    mode: FuzzySearchMode = FuzzySearchSettings.DEFAULT_MODE,
+    autoCorrect: boolean = SpellingSettings.DEFAULT_AUTO_CORRECT
+  ): Promise<SearchPage<FuzzySearchResult> & SpellingCorrection & { mode: FuzzySearchMode; parsedQuery: ParsedQuery }> {
+    decodeScoreCursor(cursor);
+    const parsedQuery = parseSearchQuery(query ?? '');
     if (!query || query.trim() === '') {
-      return [];
+      return { results: [], total: 0, nextCursor: null, mode, parsedQuery, suggestions: [] };
     }
 
     const validatedLimit = validateLimit(limit);
-    const queryLower = query.toLowerCase().trim();
+    const fields = FuzzySearchSettings.DEFAULT_SEARCH_FIELDS.filter(field => searchFields.includes(field));
+    const searchText = getSearchText(parsedQuery).trim();
+    const combinedFilters = applyParsedQuery(filters, parsedQuery);
+
+    let results = mode === 'trigram'
+      ? await this.findTrigramMatches(searchText, minScore, fields, combinedFilters)
+      : null;
+    if (results === null) {
+      results = await this.findLevenshteinMatches(searchText.toLowerCase(), minScore, fields, combinedFilters);
+      mode = 'levenshtein';
+    }
 
-    // Get all media items
-    const allItems = await this.mediaRepository.find();
+    // Sort by fuzzy score (descending) and cut the requested page
+    const page = paginateByScore(results, validatedLimit, cursor, result => ({ score: result.fuzzyScore, id: result.item.id }));
 
-    const results: Array<{
-      item: MediaItem;
-      fuzzyScore: number;
-      matchedField: string;
-      matchedText?: string;
-    }> = [];
+    const suggestions = await this.vocabularyService.suggest(query, searchText);
+    if (autoCorrect && page.total === 0 && suggestions.length > 0) {
+      const corrected = await this.fuzzySearch(
+        suggestions[0].text, limit, minScore, searchFields, filters, cursor, mode, false
+      );
+      return { ...corrected, suggestions, correctedQuery: suggestions[0].text };
+    }
+
+    await this.highlightService.annotate(page.results, this.getHighlightText(parsedQuery));
+    return { ...page, mode, parsedQuery, suggestions };
+  }
+
+  /**
+   * Words to highlight for a parsed query: the free text and the phrases
+   * (operators and exclusions never appear in matching items)
+   * @private
+   */
+  private getHighlightText(parsedQuery: ParsedQuery): string {
+    return [parsedQuery.text, ...parsedQuery.phrases].join(' ');
+  }
+
+  /**
+   * Fuzzy matches scored by pg_trgm
+   * A field scores the better of similarity (whole value) and word_similarity
+   * (best matching extent, so a word inside long content still scores high).
+   * The % and <% operators use the trigram GIN indexes; their thresholds are
+   * set to minScore for this transaction only.
+   * @returns Matches, or null when the trigram query fails (e.g. pg_trgm not installed)
+   * @private
+   */
+  private async findTrigramMatches(
+    query: string,
+    minScore: number,
+    fields: FuzzySearchField[],
+    filters: SearchFilters
+  ): Promise<FuzzySearchResult[] | null> {
+    if (fields.length === 0) return [];
+
+    const params: any[] = [query, PaginationSettings.MAX_SEARCH_RESULTS];
+    const filterConditions = buildFilterConditions(filters, params);
+    const scoreColumns = fields.map(field =>
+      `GREATEST(similarity(COALESCE("${field}", ''), $1), word_similarity($1, COALESCE("${field}", ''))) as "${field}Score"`);
+    const matchConditions = fields.map(field => `"${field}" % $1 OR $1 <% "${field}"`);
+
+    let rows: Array<MediaItem & Partial<Record<`${FuzzySearchField}Score`, number>>>;
+    try {
+      rows = await AppDataSource.transaction(async manager => {
+        await manager.query(
+          `SELECT set_config('pg_trgm.similarity_threshold', $1, true), set_config('pg_trgm.word_similarity_threshold', $1, true)`,
+          [String(minScore)]
+        );
+        return await manager.query(
+          `
+          SELECT * FROM (
+            SELECT 
+              id, title, type, content, description, "filePath", url, "mimeType", 
+              embedding, "createdAt", "updatedAt",
+              ${scoreColumns.join(',\n              ')}
+            FROM media_items
+            WHERE (${matchConditions.join(' OR ')})
+              ${filterConditions}
+          ) scored
+          ORDER BY GREATEST(${fields.map(field => `"${field}Score"`).join(', ')}) DESC, id ASC
+          LIMIT $2
+          `,
+          params
+        );
+      });
+    } catch (error) {
+      console.warn('⚠ Trigram fuzzy search failed, falling back to in-process matching:', error instanceof Error ? error.message : error);
+      return null;
+    }
+
+    const results: FuzzySearchResult[] = [];
+    for (const row of rows) {
+      let bestScore = 0;
+      let bestField: FuzzySearchField | '' = '';
+      for (const field of fields) {
+        const score = row[`${field}Score`] ?? 0;
+        if (score > bestScore) {
+          bestScore = score;
+          bestField = field;
+        }
+      }
+      if (bestField === '' || bestScore < minScore) continue;
+
+      const item = new MediaItem();
+      item.id = row.id;
+      item.title = row.title;
+      item.type = row.type;
+      item.content = row.content;
+      item.description = row.description;
+      item.filePath = row.filePath;
+      item.url = row.url;
+      item.mimeType = row.mimeType;
+      item.embedding = row.embedding;
+      item.createdAt = row.createdAt;
+      item.updatedAt = row.updatedAt;
+
+      const matchedText = bestField === 'title' ? item.title : (item[bestField] ?? '').substring(0, 100);
+      results.push({
+        item,
+        fuzzyScore: bestScore,
+        matchedField: bestField,
+        matchedText: matchedText || undefined,
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Fuzzy matches scored in-process with Levenshtein distance (see utils/fuzzySearch.ts)
+   * Loads every item matching the filters, so it scales with the library size
+   * @private
+   */
+  private async findLevenshteinMatches(
+    queryLower: string,
+    minScore: number,
+    searchFields: FuzzySearchField[],
+    filters: SearchFilters
+  ): Promise<FuzzySearchResult[]> {
+    // Get all media items (only those matching the filters)
+    const allItems = hasSearchFilters(filters)
+      ? await this.findFilteredItems(filters)
+      : await this.mediaRepository.find();
+
+    const results: FuzzySearchResult[] = [];
 
     for (const item of allItems) {
       let bestScore = 0;
@@ -1324,10 +2602,34 @@ export class MediaService {
       }
     }
 
-    // Sort by fuzzy score (descending) and limit
-    return results
-      .sort((a, b) => b.fuzzyScore - a.fuzzyScore)
-      .slice(0, validatedLimit);
+    return results;
+  }
+
+  /**
+   * Load the items matching metadata filters
+   * @private
+   */
+  private async findFilteredItems(filters: SearchFilters): Promise<MediaItem[]> {
+    const params: any[] = [];
+    const rows: Array<{ id: string }> = await this.mediaRepository.query(
+      `SELECT id FROM media_items WHERE TRUE ${buildFilterConditions(filters, params)}`,
+      params
+    );
+    if (rows.length === 0) return [];
+    return await this.mediaRepository.find({ where: { id: In(rows.map(row => row.id)) } });
   }
 }
 
+/**
+ * Merge candidate lists of several query phrasings: each item keeps its nearest match
+ */
+function mergeCandidateLists(lists: CandidateRow[][]): CandidateRow[] {
+  const best = new Map<string, CandidateRow>();
+  for (const row of lists.flat()) {
+    const current = best.get(row.id);
+    if (!current || row.distance < current.distance) {
+      best.set(row.id, row);
+    }
+  }
+  return [...best.values()].sort((a, b) => a.distance - b.distance);
+}
@@ -0,0 +1,328 @@
+import { Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { MediaItem } from '../entities/MediaItem';
+import { SearchFilters, buildFilterConditions } from '../utils/searchFilters';
+import { HybridSearchSettings, QueryExpansionSettings } from '../config/vectordb.settings';
+
+/**
+ * How several phrasings of a query are combined
+ * - off: one expanded query is embedded
+ * - vector: the phrasings are embedded and their mean vector is searched
+ * - results: each phrasing is searched and every item keeps its best similarity
+ */
+export type MultiQueryMode = 'off' | 'vector' | 'results';
+
+/**
+ * Per-request expansion options
+ */
+export interface QueryExpansionOptions {
+  enabled: boolean;
+  synonyms: boolean; // Dictionary synonyms and acronyms
+  corpusTerms: boolean; // Terms co-occurring with the query in matching items
+  multiQuery: MultiQueryMode;
+}
+
+/**
+ * Expansions applied to a query
+ */
+export interface QueryExpansion {
+  expandedQuery: string; // Query plus every expansion (embedded when multiQuery is off)
+  synonyms: Array<{ term: string; expansions: string[] }>;
+  corpusTerms: string[];
+  variants: string[]; // Phrasings embedded when multiQuery is on (the original first)
+  multiQuery: MultiQueryMode;
+}
+
+const MULTI_QUERY_MODES: MultiQueryMode[] = ['off', 'vector', 'results'];
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
+  'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been',
+  'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would',
+  'could', 'should', 'may', 'might', 'must', 'can', 'this', 'that',
+  'these', 'those', 'what', 'which', 'who', 'whom', 'whose', 'where',
+  'when', 'why', 'how', 'all', 'each', 'every', 'both', 'few', 'more',
+  'most', 'other', 'some', 'such', 'no', 'nor', 'not', 'only', 'own',
+  'same', 'so', 'than', 'too', 'very', 'just', 'about', 'into', 'through',
+  'its', 'it', 'you', 'your', 'our', 'we', 'they', 'their', 'his', 'her',
+  'also', 'here', 'there', 'new', 'one', 'get', 'use', 'using', 'via',
+]);
+
+/**
+ * Validate expansion options from a request
+ * @param input - undefined for the defaults, a boolean to turn expansion on or off, or an
+ * object of { enabled, synonyms, corpusTerms, multiQuery }
+ * @returns Options, or null if the input is not valid
+ */
+export function normalizeExpansionOptions(input: unknown): QueryExpansionOptions | null {
+  const options: QueryExpansionOptions = {
+    enabled: QueryExpansionSettings.DEFAULT_ENABLED,
+    synonyms: true,
+    corpusTerms: QueryExpansionSettings.CORPUS_TERMS_ENABLED,
+    multiQuery: QueryExpansionSettings.DEFAULT_MULTI_QUERY,
+  };
+  if (input === undefined || input === null) return options;
+  if (typeof input === 'boolean') return { ...options, enabled: input };
+  if (typeof input !== 'object' || Array.isArray(input)) return null;
+
+  const raw = input as Record<string, unknown>;
+  for (const key of ['enabled', 'synonyms', 'corpusTerms'] as const) {
+    if (raw[key] === undefined) continue;
+    if (typeof raw[key] !== 'boolean') return null;
+    options[key] = raw[key] as boolean;
+  }
+  if (raw.enabled === undefined) {
+    // Asking for any expansion detail implies expansion
+    options.enabled = true;
+  }
+  if (raw.multiQuery !== undefined) {
+    if (typeof raw.multiQuery === 'boolean') {
+      options.multiQuery = raw.multiQuery ? 'vector' : 'off';
+    } else if (MULTI_QUERY_MODES.includes(raw.multiQuery as MultiQueryMode)) {
+      options.multiQuery = raw.multiQuery as MultiQueryMode;
+    } else {
+      return null;
+    }
+  }
+  return options;
+}
+
+/**
+ * Mean of unit-normalized query vectors (one search vector for several phrasings)
+ */
+export function fuseQueryVectors(embeddings: number[][]): number[] {
+  const fused = new Array<number>(embeddings[0]?.length ?? 0).fill(0);
+  for (const embedding of embeddings) {
+    const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0)) || 1;
+    for (let i = 0; i < fused.length; i++) {
+      fused[i] += embedding[i] / norm / embeddings.length;
+    }
+  }
+  return fused;
+}
+
+/**
+ * Query Expansion Service
+ * Expands semantic search queries with dictionary synonyms and acronyms
+ * (QueryExpansionSettings.SYNONYMS) and with terms that co-occur with the
+ * query in the best full-text matches, and builds alternative phrasings
+ * for multi-query embedding
+ */
+export class QueryExpansionService {
+  private mediaRepository: Repository<MediaItem>;
+  private reverseSynonyms: Map<string, string[]>;
+
+  constructor() {
+    this.mediaRepository = AppDataSource.getRepository(MediaItem);
+
+    // "machine learning" → ["ml"], "guide" → ["tutorial", "howto"], ...
+    this.reverseSynonyms = new Map();
+    for (const [term, expansions] of Object.entries(QueryExpansionSettings.SYNONYMS)) {
+      for (const expansion of expansions) {
+        const key = normalizeText(expansion);
+        this.reverseSynonyms.set(key, [...(this.reverseSynonyms.get(key) ?? []), normalizeText(term)]);
+      }
+    }
+  }
+
+  /**
+   * Expand a query
+   * @param query - Free text of the query
+   * @param options - Expansion options (see normalizeExpansionOptions)
+   * @param filters - Only sample co-occurring terms from items matching these filters
+   */
+  async expand(query: string, options: QueryExpansionOptions, filters: SearchFilters = {}): Promise<QueryExpansion> {
+    const cleanQuery = query.trim().replace(/\s+/g, ' ');
+    const none: QueryExpansion = {
+      expandedQuery: cleanQuery,
+      synonyms: [],
+      corpusTerms: [],
+      variants: [cleanQuery],
+      multiQuery: 'off',
+    };
+    if (!options.enabled) return none;
+
+    const normalizedQuery = normalizeText(cleanQuery);
+    const synonyms = options.synonyms ? this.findSynonyms(normalizedQuery) : [];
+    const synonymTerms = synonyms.flatMap(synonym => synonym.expansions);
+
+    const queryWords = normalizedQuery.split(' ').filter(word => word.length > 1 && !STOP_WORDS.has(word));
+    const corpusTerms = options.corpusTerms
+      ? await this.findCorpusTerms(queryWords, [...queryWords, ...synonymTerms.flatMap(term => term.split(' '))], filters)
+      : [];
+
+    const additions = [...synonymTerms, ...corpusTerms];
+    return {
+      expandedQuery: additions.length > 0 ? `${cleanQuery} ${additions.join(' ')}` : cleanQuery,
+      synonyms,
+      corpusTerms,
+      variants: options.multiQuery === 'off'
+        ? [cleanQuery]
+        : this.buildVariants(cleanQuery, normalizedQuery, synonyms, corpusTerms),
+      multiQuery: options.multiQuery,
+    };
+  }
+
+  /**
+   * Dictionary entries (and reverse entries) found in the query, with their expansions
+   * not already in the query
+   * @private
+   */
+  private findSynonyms(normalizedQuery: string): Array<{ term: string; expansions: string[] }> {
+    const found: Array<{ term: string; expansions: string[] }> = [];
+    const seen = new Set<string>();
+    const lookups: Array<[string, readonly string[]]> = [
+      ...Object.entries(QueryExpansionSettings.SYNONYMS),
+      ...this.reverseSynonyms.entries(),
+    ];
+
+    for (const [rawTerm, rawExpansions] of lookups) {
+      const term = normalizeText(rawTerm);
+      if (!containsPhrase(normalizedQuery, term)) continue;
+
+      const existing = found.find(entry => entry.term === term);
+      const expansions = rawExpansions
+        .map(normalizeText)
+        .filter(expansion => !containsPhrase(normalizedQuery, expansion) && !seen.has(expansion))
+        .slice(0, QueryExpansionSettings.MAX_SYNONYMS_PER_TERM - (existing?.expansions.length ?? 0));
+      if (expansions.length === 0) continue;
+
+      expansions.forEach(expansion => seen.add(expansion));
+      if (existing) {
+        existing.expansions.push(...expansions);
+      } else {
+        found.push({ term, expansions });
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Terms that are frequent in the best full-text matches of the query but
+   * not in the corpus as a whole (title and description only)
+   * @param queryWords - Query words to match
+   * @param excludedWords - Words never returned (the query and its synonyms)
+   * @private
+   */
+  private async findCorpusTerms(
+    queryWords: string[],
+    excludedWords: string[],
+    filters: SearchFilters
+  ): Promise<string[]> {
+    if (queryWords.length === 0) return [];
+
+    try {
+      // Items matching any query word, best first
+      const params: any[] = [queryWords.join(' or '), HybridSearchSettings.TEXT_SEARCH_CONFIG, QueryExpansionSettings.CORPUS_SAMPLE_SIZE];
+      const filterConditions = buildFilterConditions(filters, params);
+      const sample: Array<{ title: string; description: string | null }> = await this.mediaRepository.query(
+        `
+        SELECT title, description
+        FROM media_items, websearch_to_tsquery($2::regconfig, $1) tsquery
+        WHERE "searchVector" @@ tsquery
+          ${filterConditions}
+        ORDER BY ts_rank_cd("searchVector", tsquery) DESC
+        LIMIT $3
+        `,
+        params
+      );
+      if (sample.length < QueryExpansionSettings.MIN_CO_OCCURRENCE) return [];
+
+      // Number of sampled items each word appears in
+      const excluded = new Set(excludedWords);
+      const sampleCounts = new Map<string, number>();
+      for (const row of sample) {
+        const words = new Set(normalizeText(`${row.title} ${row.description ?? ''}`).split(' '));
+        for (const word of words) {
+          if (!isCandidateTerm(word, excluded)) continue;
+          sampleCounts.set(word, (sampleCounts.get(word) ?? 0) + 1);
+        }
+      }
+      const candidates = [...sampleCounts.entries()]
+        .filter(([, count]) => count >= QueryExpansionSettings.MIN_CO_OCCURRENCE)
+        .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+        .slice(0, QueryExpansionSettings.MAX_CORPUS_TERMS * 4)
+        .map(([word]) => word);
+      if (candidates.length === 0) return [];
+
+      // Lift against the whole corpus, so words common everywhere are dropped
+      const corpusCounts: Array<{ term: string; documentCount: number; total: number }> = await this.mediaRepository.query(
+        `
+        SELECT
+          t.term,
+          (SELECT COUNT(*) FROM media_items WHERE "searchVector" @@ plainto_tsquery($2::regconfig, t.term))::int as "documentCount",
+          (SELECT COUNT(*) FROM media_items)::int as total
+        FROM unnest($1::text[]) AS t(term)
+        `,
+        [candidates, HybridSearchSettings.TEXT_SEARCH_CONFIG]
+      );
+
+      return corpusCounts
+        .map(row => ({
+          term: row.term,
+          lift: (sampleCounts.get(row.term)! / sample.length) / (Math.max(row.documentCount, 1) / Math.max(row.total, 1)),
+        }))
+        .filter(row => row.lift >= QueryExpansionSettings.MIN_LIFT)
+        .sort((a, b) => b.lift - a.lift || (sampleCounts.get(b.term)! - sampleCounts.get(a.term)!))
+        .slice(0, QueryExpansionSettings.MAX_CORPUS_TERMS)
+        .map(row => row.term);
+    } catch (error) {
+      // Expansion only helps recall; search with the dictionary expansions alone
+      console.warn('⚠ Co-occurring terms unavailable:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  /**
+   * Alternative phrasings: the original query, the query with dictionary terms
+   * replaced by their first expansion, and the query with co-occurring terms
+   * @private
+   */
+  private buildVariants(
+    query: string,
+    normalizedQuery: string,
+    synonyms: Array<{ term: string; expansions: string[] }>,
+    corpusTerms: string[]
+  ): string[] {
+    const variants = [query];
+    if (synonyms.length > 0) {
+      let rephrased = ` ${normalizedQuery} `;
+      for (const synonym of synonyms) {
+        rephrased = rephrased.replace(` ${synonym.term} `, ` ${synonym.expansions[0]} `);
+      }
+      variants.push(rephrased.trim());
+    }
+    if (corpusTerms.length > 0) {
+      variants.push(`${query} ${corpusTerms.join(' ')}`);
+    }
+
+    const unique = [...new Set(variants)];
+    return unique.slice(0, Math.max(1, QueryExpansionSettings.MAX_QUERY_VARIANTS));
+  }
+}
+
+/**
+ * Lowercase words separated by single spaces
+ */
+function normalizeText(text: string): string {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).join(' ');
+}
+
+/**
+ * Whole-word phrase match in normalized text
+ */
+function containsPhrase(normalizedText: string, phrase: string): boolean {
+  return phrase !== '' && ` ${normalizedText} `.includes(` ${phrase} `);
+}
+
+/**
+ * Word worth adding to a query: not a stop word, number or (a form of) an excluded word
+ */
+function isCandidateTerm(word: string, excluded: Set<string>): boolean {
+  if (word.length < 3 || STOP_WORDS.has(word) || /^\p{N}+$/u.test(word)) return false;
+  for (const excludedWord of excluded) {
+    if (excludedWord.length > 2 && (word.startsWith(excludedWord) || excludedWord.startsWith(word))) return false;
+    if (word === excludedWord) return false;
+  }
+  return true;
+}
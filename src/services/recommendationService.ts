@@ -1,7 +1,11 @@
 import { AppDataSource } from '../config/database';
 import { MediaItem } from '../entities/MediaItem';
 import { MediaService, SimilaritySearchResult } from './mediaService';
-import { generateEmbedding } from '../utils/embeddings';
+import { EmbeddingCacheService, taskTypeForUsage } from './embeddingCacheService';
+import { getEmbeddingProvider } from '../utils/embeddingProviders';
+import { EmbeddingError } from '../utils/embeddingErrors';
+import { SearchFilters, buildFilterConditions } from '../utils/searchFilters';
+import { diversify, takeMMRPool } from '../utils/mmr';
 import { Repository, In } from 'typeorm';
 import {
   RecommendationSettings,
@@ -28,6 +32,7 @@ export interface RecommendationResult {
   similarity: number;
   distance: number;
   recommendationScore: number; // Weighted score for recommendations
+  mmrScore?: number; // Maximal marginal relevance when the recommendations were diversified
   reason?: string; // Why this item was recommended
 }
 
@@ -45,6 +50,7 @@ export interface RecommendationResponse {
     averageSimilarity: number;
     minSimilarity: number;
     maxSimilarity: number;
+    mmrLambda?: number; // Set when the recommendations were diversified
   };
 }
 
@@ -55,10 +61,12 @@ export interface RecommendationResponse {
 export class RecommendationService {
   private mediaRepository: Repository<MediaItem>;
   private mediaService: MediaService;
+  private embeddingCache: EmbeddingCacheService;
 
   constructor() {
     this.mediaRepository = AppDataSource.getRepository(MediaItem);
     this.mediaService = new MediaService();
+    this.embeddingCache = new EmbeddingCacheService();
   }
 
   /**
@@ -69,12 +77,16 @@ export class RecommendationService {
    * @param limit - Maximum number of recommendations
    * @param minSimilarity - Minimum similarity threshold (0-1)
    * @param excludeIds - Item IDs to exclude from results
+   * @param filters - Metadata filters, applied in SQL before ranking
+   * @param mmrLambda - Diversify the recommendations by maximal marginal relevance (see diversify)
    */
   async getItemBasedRecommendations(
     itemId: string,
     limit: number = RecommendationSettings.DEFAULT_LIMIT,
     minSimilarity: number = RecommendationSettings.DEFAULT_MIN_SIMILARITY,
-    excludeIds: string[] = []
+    excludeIds: string[] = [],
+    filters: SearchFilters = {},
+    mmrLambda?: number
   ): Promise<RecommendationResponse> {
     // Get the source item
     const sourceItem = await this.mediaRepository.findOne({ where: { id: itemId } });
@@ -87,6 +99,10 @@ export class RecommendationService {
       throw new Error('Source item does not have an embedding');
     }
 
+    if (!sourceItem.embeddingModel) {
+      throw new Error('Source item embedding has no recorded model; re-embed it first');
+    }
+
     // Validate inputs
     const validatedLimit = validateLimit(limit);
     const validatedMinSimilarity = validateSimilarity(minSimilarity);
@@ -96,7 +112,11 @@ export class RecommendationService {
     const allResults = await this.findSimilarItems(
       sourceItem.embedding,
       validatedLimit * LimitSettings.CANDIDATE_MULTIPLIER, // Get more candidates for filtering
-      excludeList
+      excludeList,
+      sourceItem.embeddingModel,
+      sourceItem.embeddingTaskType ?? null,
+      sourceItem.embeddingDimension ?? null,
+      filters
     );
 
     // Filter by similarity threshold
@@ -112,7 +132,7 @@ export class RecommendationService {
     }
 
     // Limit results
-    filteredResults = filteredResults.slice(0, limit);
+    filteredResults = this.limitResults(filteredResults, limit, mmrLambda, r => r.similarity);
 
     // Calculate metadata
     const similarities = filteredResults.map(r => r.similarity);
@@ -124,6 +144,7 @@ export class RecommendationService {
         : 0,
       minSimilarity: similarities.length > 0 ? Math.min(...similarities) : 0,
       maxSimilarity: similarities.length > 0 ? Math.max(...similarities) : 0,
+      mmrLambda,
     };
 
     return {
@@ -146,12 +167,16 @@ export class RecommendationService {
    * @param limit - Maximum number of recommendations
    * @param minSimilarity - Minimum similarity threshold (0-1)
    * @param excludeIds - Item IDs to exclude from results
+   * @param filters - Metadata filters, applied in SQL before ranking
+   * @param mmrLambda - Diversify the recommendations by maximal marginal relevance (see diversify)
    */
   async getMultiItemRecommendations(
     itemIds: string[],
     limit: number = RecommendationSettings.DEFAULT_LIMIT,
     minSimilarity: number = RecommendationSettings.DEFAULT_MIN_SIMILARITY,
-    excludeIds: string[] = []
+    excludeIds: string[] = [],
+    filters: SearchFilters = {},
+    mmrLambda?: number
   ): Promise<RecommendationResponse> {
     if (itemIds.length === 0) {
       throw new Error('At least one source item ID is required');
@@ -166,11 +191,16 @@ export class RecommendationService {
       throw new Error('No source items found');
     }
 
-    // Filter items with embeddings
-    const itemsWithEmbeddings = sourceItems.filter(item => item.embedding);
+    // Filter items with document embeddings from the current model (vectors from different models can't be averaged)
+    const { modelName: embeddingModel, dimension: embeddingDimension } = getEmbeddingProvider();
+    const documentTaskType = taskTypeForUsage('document');
+    const itemsWithEmbeddings = sourceItems.filter(item =>
+      item.embedding && item.embeddingModel === embeddingModel &&
+      item.embeddingDimension === embeddingDimension && item.embeddingTaskType === documentTaskType
+    );
     
     if (itemsWithEmbeddings.length === 0) {
-      throw new Error('None of the source items have embeddings');
+      throw new Error('None of the source items have embeddings from the current model');
     }
 
     // Calculate average embedding from all source items
@@ -185,7 +215,11 @@ export class RecommendationService {
     const allResults = await this.findSimilarItems(
       avgEmbedding,
       validatedLimit * LimitSettings.CANDIDATE_MULTIPLIER,
-      excludeList
+      excludeList,
+      embeddingModel,
+      documentTaskType,
+      embeddingDimension,
+      filters
     );
 
     // Filter by similarity threshold
@@ -201,7 +235,7 @@ export class RecommendationService {
     }
 
     // Limit results
-    filteredResults = filteredResults.slice(0, validatedLimit);
+    filteredResults = this.limitResults(filteredResults, validatedLimit, mmrLambda, r => r.similarity);
 
     // Calculate metadata
     const similarities = filteredResults.map(r => r.similarity);
@@ -213,6 +247,7 @@ export class RecommendationService {
         : 0,
       minSimilarity: similarities.length > 0 ? Math.min(...similarities) : 0,
       maxSimilarity: similarities.length > 0 ? Math.max(...similarities) : 0,
+      mmrLambda,
     };
 
     // Create reason text
@@ -241,19 +276,23 @@ export class RecommendationService {
    * @param limit - Maximum number of recommendations
    * @param minSimilarity - Minimum similarity threshold (0-1)
    * @param excludeIds - Item IDs to exclude from results
+   * @param filters - Metadata filters, applied in SQL before ranking
+   * @param mmrLambda - Diversify the recommendations by maximal marginal relevance (see diversify)
    */
   async getContentBasedRecommendations(
     query: string,
     limit: number = RecommendationSettings.DEFAULT_LIMIT,
     minSimilarity: number = RecommendationSettings.DEFAULT_MIN_SIMILARITY,
-    excludeIds: string[] = []
+    excludeIds: string[] = [],
+    filters: SearchFilters = {},
+    mmrLambda?: number
   ): Promise<RecommendationResponse> {
     if (!query || query.trim() === '') {
       throw new Error('Query is required for content-based recommendations');
     }
 
-    // Generate embedding for the query
-    const queryEmbedding = await generateEmbedding(query);
+    // Generate embedding for the query (cached)
+    const queryEmbedding = await this.embeddingCache.getEmbedding(query, 'query');
     const queryVector = `[${queryEmbedding.join(',')}]`;
 
     // Validate inputs
@@ -264,7 +303,11 @@ export class RecommendationService {
     const allResults = await this.findSimilarItems(
       queryVector,
       validatedLimit * LimitSettings.CANDIDATE_MULTIPLIER,
-      excludeIds
+      excludeIds,
+      getEmbeddingProvider().modelName,
+      taskTypeForUsage('document'),
+      getEmbeddingProvider().dimension,
+      filters
     );
 
     // Filter by similarity threshold
@@ -280,7 +323,7 @@ export class RecommendationService {
     }
 
     // Limit results
-    filteredResults = filteredResults.slice(0, validatedLimit);
+    filteredResults = this.limitResults(filteredResults, validatedLimit, mmrLambda, r => r.similarity);
 
     // Calculate metadata
     const similarities = filteredResults.map(r => r.similarity);
@@ -292,6 +335,7 @@ export class RecommendationService {
         : 0,
       minSimilarity: similarities.length > 0 ? Math.min(...similarities) : 0,
       maxSimilarity: similarities.length > 0 ? Math.max(...similarities) : 0,
+      mmrLambda,
     };
 
     return {
@@ -318,6 +362,8 @@ export class RecommendationService {
     limit?: number;
     minSimilarity?: number;
     excludeIds?: string[];
+    filters?: SearchFilters;
+    mmrLambda?: number; // Diversify the combined recommendations (see diversify)
     weights?: {
       itemBased?: number;
       contentBased?: number;
@@ -331,6 +377,8 @@ export class RecommendationService {
       limit = RecommendationSettings.DEFAULT_LIMIT,
       minSimilarity = RecommendationSettings.DEFAULT_MIN_SIMILARITY,
       excludeIds = [],
+      filters = {},
+      mmrLambda,
       weights = RecommendationSettings.HYBRID_WEIGHTS,
     } = options;
 
@@ -348,8 +396,8 @@ export class RecommendationService {
     if (itemIds.length > 0) {
       try {
         const itemBased = itemIds.length === 1
-          ? await this.getItemBasedRecommendations(itemIds[0], validatedLimit * LimitSettings.CANDIDATE_MULTIPLIER, validatedMinSimilarity, excludeIds)
-          : await this.getMultiItemRecommendations(itemIds, validatedLimit * LimitSettings.CANDIDATE_MULTIPLIER, validatedMinSimilarity, excludeIds);
+          ? await this.getItemBasedRecommendations(itemIds[0], validatedLimit * LimitSettings.CANDIDATE_MULTIPLIER, validatedMinSimilarity, excludeIds, filters)
+          : await this.getMultiItemRecommendations(itemIds, validatedLimit * LimitSettings.CANDIDATE_MULTIPLIER, validatedMinSimilarity, excludeIds, filters);
 
         itemBased.recommendations.forEach(rec => {
           const existing = allRecommendations.get(rec.item.id);
@@ -382,7 +430,8 @@ export class RecommendationService {
           query,
           validatedLimit * LimitSettings.CANDIDATE_MULTIPLIER,
           validatedMinSimilarity,
-          excludeIds
+          excludeIds,
+          filters
         );
 
         contentBased.recommendations.forEach(rec => {
@@ -405,14 +454,21 @@ export class RecommendationService {
           }
         });
       } catch (error) {
+        // Without item-based results there is nothing to fall back to
+        if (error instanceof EmbeddingError && allRecommendations.size === 0) {
+          throw error;
+        }
         console.warn('Error getting content-based recommendations:', error);
       }
     }
 
     // Sort by recommendation score and limit
-    const recommendations = Array.from(allRecommendations.values())
-      .sort((a, b) => b.recommendationScore - a.recommendationScore)
-      .slice(0, validatedLimit);
+    const recommendations = this.limitResults(
+      Array.from(allRecommendations.values()).sort((a, b) => b.recommendationScore - a.recommendationScore),
+      validatedLimit,
+      mmrLambda,
+      r => r.recommendationScore
+    );
 
     // Calculate metadata
     const similarities = recommendations.map(r => r.similarity);
@@ -424,6 +480,7 @@ export class RecommendationService {
         : 0,
       minSimilarity: similarities.length > 0 ? Math.min(...similarities) : 0,
       maxSimilarity: similarities.length > 0 ? Math.max(...similarities) : 0,
+      mmrLambda,
     };
 
     return {
@@ -435,24 +492,48 @@ export class RecommendationService {
     };
   }
 
+  /**
+   * Keep the best results: the first ones (already sorted by score), or the
+   * most relevant ones picked by maximal marginal relevance when mmrLambda is set
+   * @private
+   */
+  private limitResults<T extends { item: MediaItem }>(
+    results: T[],
+    limit: number,
+    mmrLambda: number | undefined,
+    score: (result: T) => number
+  ): T[] {
+    if (mmrLambda === undefined) {
+      return results.slice(0, limit);
+    }
+    return diversify(takeMMRPool(results, score), mmrLambda, limit, score, result => result.item.embedding);
+  }
+
   /**
    * Find similar items using a vector embedding
+   * Only items embedded by the same model, task type and dimension as the source vector, and
+   * matching the filters, are compared
    * @private
    */
   private async findSimilarItems(
     sourceVector: string,
     limit: number,
-    excludeIds: string[] = []
+    excludeIds: string[],
+    embeddingModel: string,
+    embeddingTaskType: string | null,
+    embeddingDimension: number | null,
+    filters: SearchFilters = {}
   ): Promise<RecommendationResult[]> {
     const distanceExpression = 'embedding::vector <=> $1::vector';
     const excludeCondition = excludeIds.length > 0
-      ? `AND id NOT IN (${excludeIds.map((_, i) => `$${i + 3}`).join(', ')})`
+      ? `AND id NOT IN (${excludeIds.map((_, i) => `$${i + 6}`).join(', ')})`
       : '';
 
-    const params: any[] = [sourceVector, limit];
+    const params: any[] = [sourceVector, limit, embeddingModel, embeddingTaskType, embeddingDimension];
     if (excludeIds.length > 0) {
       params.push(...excludeIds);
     }
+    const filterConditions = buildFilterConditions(filters, params);
 
     let results;
     try {
@@ -465,7 +546,11 @@ export class RecommendationService {
           (1 - (${distanceExpression})) as similarity
         FROM media_items
         WHERE embedding IS NOT NULL
+          AND "embeddingModel" = $3
+          AND "embeddingTaskType" IS NOT DISTINCT FROM $4
+          AND "embeddingDimension" IS NOT DISTINCT FROM $5
           ${excludeCondition}
+          ${filterConditions}
         ORDER BY (${distanceExpression}) ASC
         LIMIT $2
         `,
@@ -0,0 +1,418 @@
+import { Repository, EntityManager, In } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { MediaItem } from '../entities/MediaItem';
+import { SavedSearch } from '../entities/SavedSearch';
+import { SavedSearchMatch } from '../entities/SavedSearchMatch';
+import { getEmbeddingProvider } from '../utils/embeddingProviders';
+import { EmbeddingCacheService, taskTypeForUsage } from './embeddingCacheService';
+import type { SearchMode } from './unifiedSearchService';
+import { SearchFilters, parseSearchFilters, buildFilterConditions, escapeLike } from '../utils/searchFilters';
+import { parseSearchQuery, getSearchText, applyParsedQuery } from '../utils/queryParser';
+import { encodeCursor, decodeListingCursor } from '../utils/pagination';
+import {
+  SavedSearchSettings,
+  KeywordSearchSettings,
+  HybridSearchSettings,
+  FuzzySearchSettings,
+} from '../config/vectordb.settings';
+
+/**
+ * Saved search with its match counts
+ */
+export interface SavedSearchSummary {
+  id: string;
+  name: string;
+  query: string;
+  mode: SearchMode;
+  filters: Record<string, unknown>;
+  threshold: number; // Threshold in effect (the mode default when none was saved)
+  lastCheckedAt: Date | null;
+  createdAt: Date;
+  newMatches: number; // Recorded since the last check
+  unseenMatches: number; // Not marked seen
+}
+
+/**
+ * Matches returned by a check of a saved search
+ */
+export interface SavedSearchCheck {
+  savedSearch: SavedSearchSummary;
+  since: Date | null; // lastCheckedAt before this check
+  matches: SavedSearchMatch[]; // Oldest first, with their media item
+  hasMore: boolean; // More new matches than SavedSearchSettings.MAX_MATCHES_PER_CHECK
+}
+
+/**
+ * One page of the matches of a saved search
+ */
+export interface SavedSearchMatchPage {
+  savedSearch: SavedSearchSummary;
+  matches: SavedSearchMatch[]; // Oldest first, with their media item
+  nextCursor: string | null; // Pass back as cursor to continue after these matches
+  hasMore: boolean;
+}
+
+/**
+ * Saved Search Service
+ * Keeps named searches and scores every newly embedded item against them
+ * (see EmbeddingPipelineService), so clients can poll for new matches
+ * instead of re-running their searches.
+ *
+ * An item is scored in SQL on its own row, with the saved filters and the
+ * query's inline syntax applied:
+ * - keyword: keyword score (see KeywordSearchSettings)
+ * - vector, semantic: cosine similarity of the item vector to the query
+ * - fuzzy: trigram score over title, description and content
+ * - hybrid: cosine similarity; a full-text match (web search syntax) always matches
+ */
+export class SavedSearchService {
+  private savedSearchRepository: Repository<SavedSearch>;
+  private matchRepository: Repository<SavedSearchMatch>;
+  private embeddingCache: EmbeddingCacheService;
+
+  constructor() {
+    this.savedSearchRepository = AppDataSource.getRepository(SavedSearch);
+    this.matchRepository = AppDataSource.getRepository(SavedSearchMatch);
+    this.embeddingCache = new EmbeddingCacheService();
+  }
+
+  /**
+   * Save a search
+   * @param name - Display name
+   * @param query - Search query (inline syntax, except hybrid which reads web search syntax)
+   * @param mode - Search mode the items are scored with
+   * @param filters - Metadata filters (see parseSearchFilters)
+   * @param threshold - Minimum score of a match (default: SavedSearchSettings.DEFAULT_THRESHOLDS of the mode)
+   * @throws SearchFilterError when the filters or the inline syntax are invalid
+   */
+  async create(
+    name: string,
+    query: string,
+    mode: SearchMode,
+    filters: unknown = {},
+    threshold?: number
+  ): Promise<SavedSearchSummary> {
+    // Validate now, so matching never meets a search it cannot run
+    parseSearchFilters(filters);
+    if (mode !== 'hybrid') {
+      parseSearchQuery(query);
+    }
+
+    const savedSearch = await this.savedSearchRepository.save(this.savedSearchRepository.create({
+      name,
+      query,
+      mode,
+      filters: (filters ?? {}) as Record<string, unknown>,
+      threshold: threshold ?? null,
+      lastCheckedAt: null,
+    }));
+    return this.summarize(savedSearch, 0, 0);
+  }
+
+  /**
+   * Every saved search with its new and unseen match counts, newest first
+   */
+  async list(): Promise<SavedSearchSummary[]> {
+    const rows: Array<{ id: string; newMatches: string; unseenMatches: string }> = await this.savedSearchRepository.query(
+      `SELECT s.id,
+              COUNT(m.id) FILTER (WHERE m."createdAt" > COALESCE(s."lastCheckedAt", '-infinity')) as "newMatches",
+              COUNT(m.id) FILTER (WHERE NOT m.seen) as "unseenMatches"
+       FROM saved_searches s
+       LEFT JOIN saved_search_matches m ON m."savedSearchId" = s.id
+       GROUP BY s.id`
+    );
+    const counts = new Map(rows.map(row => [row.id, row]));
+
+    const savedSearches = await this.savedSearchRepository.find({ order: { createdAt: 'DESC' } });
+    return savedSearches.map(savedSearch => this.summarize(
+      savedSearch,
+      parseInt(counts.get(savedSearch.id)?.newMatches || '0'),
+      parseInt(counts.get(savedSearch.id)?.unseenMatches || '0')
+    ));
+  }
+
+  /**
+   * Delete a saved search and its matches
+   * @returns false when it does not exist
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = await this.savedSearchRepository.delete(id);
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Matches of a saved search, oldest first, without moving its last check
+   * Safe to repeat: a retried or prefetched request returns the same page.
+   * @param options.cursor - nextCursor of a previous page (default: from the first match)
+   * @param options.unseen - Only matches not marked seen
+   * @param options.limit - Page size (at most SavedSearchSettings.MAX_MATCHES_PER_CHECK)
+   * @returns null when the saved search does not exist
+   * @throws CursorError when the cursor is invalid
+   */
+  async listMatches(
+    id: string,
+    options: { cursor?: string; unseen?: boolean; limit?: number } = {}
+  ): Promise<SavedSearchMatchPage | null> {
+    const after = decodeListingCursor(options.cursor);
+    const limit = Math.min(
+      Math.max(1, options.limit ?? SavedSearchSettings.MAX_MATCHES_PER_CHECK),
+      SavedSearchSettings.MAX_MATCHES_PER_CHECK
+    );
+
+    const savedSearch = await this.savedSearchRepository.findOne({ where: { id } });
+    if (!savedSearch) return null;
+
+    const query = this.matchRepository
+      .createQueryBuilder('match')
+      .leftJoinAndSelect('match.mediaItem', 'mediaItem')
+      .addSelect('match."createdAt"::text', 'cursorCreatedAt')
+      .where('match.savedSearchId = :id', { id });
+    if (options.unseen) {
+      query.andWhere('match.seen = false');
+    }
+    if (after) {
+      // Compared at full (microsecond) precision, like the media listing cursor
+      query.andWhere('(match.createdAt, match.id) > (:createdAt::timestamptz, :afterId::uuid)', {
+        createdAt: after.createdAt,
+        afterId: after.id,
+      });
+    }
+    const { entities, raw } = await query
+      .orderBy('match.createdAt', 'ASC')
+      .addOrderBy('match.id', 'ASC')
+      .limit(limit + 1)
+      .getRawAndEntities();
+
+    const matches = entities.slice(0, limit);
+    const last = matches.length > 0 ? raw[matches.length - 1] : undefined;
+    const { newMatches, unseenMatches } = await this.countMatches(this.savedSearchRepository.manager, id);
+    return {
+      savedSearch: this.summarize(savedSearch, newMatches, unseenMatches),
+      matches,
+      // With no new match, the same cursor continues from where the client is
+      nextCursor: last
+        ? encodeCursor({ createdAt: last.cursorCreatedAt, id: matches[matches.length - 1].id })
+        : options.cursor || null,
+      hasMore: entities.length > limit,
+    };
+  }
+
+  /**
+   * Matches recorded since the last check, and move the check forward past them
+   * Not safe to repeat (the next call continues after these matches); see listMatches
+   * @returns null when the saved search does not exist
+   */
+  async checkMatches(id: string): Promise<SavedSearchCheck | null> {
+    return await AppDataSource.transaction(async manager => {
+      // Concurrent checks of the same search must not return the same matches twice
+      const savedSearch = await manager.getRepository(SavedSearch).findOne({
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!savedSearch) return null;
+
+      // Compared in SQL: createdAt has microseconds, a JavaScript Date only milliseconds
+      const since = savedSearch.lastCheckedAt ?? null;
+      const rows = await manager.getRepository(SavedSearchMatch)
+        .createQueryBuilder('match')
+        .leftJoinAndSelect('match.mediaItem', 'mediaItem')
+        .where('match.savedSearchId = :id', { id })
+        .andWhere(`match.createdAt > COALESCE((SELECT "lastCheckedAt" FROM saved_searches WHERE id = :id), '-infinity')`)
+        .orderBy('match.createdAt', 'ASC')
+        .addOrderBy('match.id', 'ASC')
+        .take(SavedSearchSettings.MAX_MATCHES_PER_CHECK + 1)
+        .getMany();
+
+      const hasMore = rows.length > SavedSearchSettings.MAX_MATCHES_PER_CHECK;
+      const matches = rows.slice(0, SavedSearchSettings.MAX_MATCHES_PER_CHECK);
+      if (matches.length > 0) {
+        // Up to the last match returned, not now, so the next check continues after it
+        await manager.query(
+          `UPDATE saved_searches SET "lastCheckedAt" = m."createdAt"
+           FROM saved_search_matches m WHERE saved_searches.id = $1 AND m.id = $2`,
+          [id, matches[matches.length - 1].id]
+        );
+        savedSearch.lastCheckedAt = matches[matches.length - 1].createdAt;
+      }
+
+      const { newMatches, unseenMatches } = await this.countMatches(manager, id);
+      return {
+        savedSearch: this.summarize(savedSearch, newMatches, unseenMatches),
+        since,
+        matches,
+        hasMore,
+      };
+    });
+  }
+
+  /**
+   * Mark matches of a saved search seen
+   * @param id - Saved search
+   * @param matchIds - Matches to mark (default: all)
+   * @returns Number of matches marked, or null when the saved search does not exist
+   */
+  async markSeen(id: string, matchIds?: string[]): Promise<number | null> {
+    if (!await this.savedSearchRepository.findOne({ where: { id }, select: ['id'] })) return null;
+
+    const result = await this.matchRepository.update(
+      { savedSearchId: id, seen: false, ...(matchIds ? { id: In(matchIds) } : {}) },
+      { seen: true }
+    );
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Score a newly embedded item against every saved search and record the matches
+   * A saved search that fails to score is skipped, so one bad search does not hide the others
+   * @returns Number of saved searches the item matched
+   */
+  async matchItem(item: Pick<MediaItem, 'id' | 'title'>): Promise<number> {
+    const savedSearches = await this.savedSearchRepository.find();
+    let matched = 0;
+
+    for (const savedSearch of savedSearches) {
+      let score: number | null;
+      try {
+        score = await this.scoreItem(savedSearch, item.id);
+      } catch (error) {
+        console.warn(
+          `⚠ Could not match "${item.title}" against saved search "${savedSearch.name}":`,
+          error instanceof Error ? error.message : error
+        );
+        continue;
+      }
+      if (score === null) continue;
+
+      // Only count the match when it is new (re-embedding an item does not match it again)
+      const inserted: Array<{ id: string }> = await this.matchRepository.query(
+        `INSERT INTO saved_search_matches ("savedSearchId", "mediaItemId", score)
+         VALUES ($1, $2, $3)
+         ON CONFLICT ("savedSearchId", "mediaItemId") DO NOTHING
+         RETURNING id`,
+        [savedSearch.id, item.id, score]
+      );
+      if (inserted.length > 0) {
+        matched++;
+      }
+    }
+
+    if (matched > 0) {
+      console.log(`✓ "${item.title}" matched ${matched} saved search(es)`);
+    }
+    return matched;
+  }
+
+  /**
+   * Score of an item in a saved search
+   * @returns Score, or null when the item does not match (filters, query or threshold)
+   * @private
+   */
+  private async scoreItem(savedSearch: SavedSearch, itemId: string): Promise<number | null> {
+    const threshold = savedSearch.threshold ?? SavedSearchSettings.DEFAULT_THRESHOLDS[savedSearch.mode];
+    const savedFilters = parseSearchFilters(savedSearch.filters);
+
+    // Hybrid reads the query as web search syntax; the other modes parse the inline syntax
+    let searchText = savedSearch.query;
+    let filters: SearchFilters = savedFilters;
+    if (savedSearch.mode !== 'hybrid') {
+      const parsedQuery = parseSearchQuery(savedSearch.query);
+      searchText = getSearchText(parsedQuery).trim();
+      filters = applyParsedQuery(savedFilters, parsedQuery);
+    }
+
+    const params: any[] = [itemId];
+    let scoreExpression: string;
+    let matchCondition: string;
+
+    switch (savedSearch.mode) {
+      case 'keyword': {
+        const { TITLE_WEIGHT, DESCRIPTION_WEIGHT, CONTENT_WEIGHT } = KeywordSearchSettings;
+        params.push(`%${escapeLike(searchText)}%`, TITLE_WEIGHT, DESCRIPTION_WEIGHT, CONTENT_WEIGHT);
+        scoreExpression =
+          `(COALESCE(title ILIKE $2, false)::int * $3 + COALESCE(description ILIKE $2, false)::int * $4 + ` +
+          `COALESCE(content ILIKE $2, false)::int * $5)::float / ($3 + $4 + $5)`;
+        matchCondition = '(title ILIKE $2 OR description ILIKE $2 OR content ILIKE $2)';
+        break;
+      }
+
+      case 'vector':
+      case 'semantic':
+      case 'hybrid': {
+        // Only vectors of the current model (and dimension) are comparable with the query
+        const provider = getEmbeddingProvider();
+        const queryEmbedding = await this.embeddingCache.getEmbedding(searchText, 'query');
+        params.push(`[${queryEmbedding.join(',')}]`, provider.modelName, taskTypeForUsage('document'), provider.dimension);
+        scoreExpression = `CASE WHEN embedding IS NOT NULL AND "embeddingModel" = $3 AND "embeddingTaskType" = $4
+          AND "embeddingDimension" = $5 THEN 1 - (embedding::vector <=> $2::vector) END`;
+        matchCondition = 'true';
+        if (savedSearch.mode === 'hybrid') {
+          params.push(HybridSearchSettings.TEXT_SEARCH_CONFIG);
+          matchCondition = `("searchVector" @@ websearch_to_tsquery($6::regconfig, $7) OR ${scoreExpression} >= $8)`;
+          params.push(savedSearch.query, threshold);
+        }
+        break;
+      }
+
+      case 'fuzzy': {
+        params.push(searchText);
+        scoreExpression = `GREATEST(${FuzzySearchSettings.DEFAULT_SEARCH_FIELDS.map(field =>
+          `similarity(COALESCE("${field}", ''), $2), word_similarity($2, COALESCE("${field}", ''))`).join(', ')})`;
+        matchCondition = 'true';
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown search mode: ${savedSearch.mode}`);
+    }
+
+    const filterConditions = buildFilterConditions(filters, params);
+    const rows: Array<{ score: number | null }> = await this.savedSearchRepository.query(
+      `SELECT ${scoreExpression} as score FROM media_items
+       WHERE id = $1 AND ${matchCondition}
+         ${filterConditions}`,
+      params
+    );
+    if (rows.length === 0) return null;
+
+    const score = rows[0].score;
+    if (savedSearch.mode === 'hybrid') {
+      // Matched on full text, possibly without a comparable vector
+      return score ?? 0;
+    }
+    return score !== null && score >= threshold ? score : null;
+  }
+
+  /**
+   * New (since the last check) and unseen match counts of a saved search
+   * @private
+   */
+  private async countMatches(manager: EntityManager, id: string): Promise<{ newMatches: number; unseenMatches: number }> {
+    const [{ newMatches, unseenMatches }] = await manager.query(
+      `SELECT COUNT(*) FILTER (WHERE m."createdAt" > COALESCE(s."lastCheckedAt", '-infinity')) as "newMatches",
+              COUNT(*) FILTER (WHERE NOT m.seen) as "unseenMatches"
+       FROM saved_search_matches m JOIN saved_searches s ON s.id = m."savedSearchId"
+       WHERE m."savedSearchId" = $1`,
+      [id]
+    );
+    return { newMatches: parseInt(newMatches), unseenMatches: parseInt(unseenMatches) };
+  }
+
+  /**
+   * Saved search with its effective threshold and match counts
+   * @private
+   */
+  private summarize(savedSearch: SavedSearch, newMatches: number, unseenMatches: number): SavedSearchSummary {
+    return {
+      id: savedSearch.id,
+      name: savedSearch.name,
+      query: savedSearch.query,
+      mode: savedSearch.mode,
+      filters: savedSearch.filters,
+      threshold: savedSearch.threshold ?? SavedSearchSettings.DEFAULT_THRESHOLDS[savedSearch.mode],
+      lastCheckedAt: savedSearch.lastCheckedAt ?? null,
+      createdAt: savedSearch.createdAt,
+      newMatches,
+      unseenMatches,
+    };
+  }
+}
@@ -0,0 +1,368 @@
+import { Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { EmbeddingState, EmbeddingRole } from '../entities/EmbeddingState';
+import {
+  EmbeddingProvider,
+  createEmbeddingProvider,
+  createConfiguredEmbeddingProvider,
+  getEmbeddingProvider,
+  setEmbeddingProvider,
+} from '../utils/embeddingProviders';
+import { EmbeddingBackfillService, BackfillOptions, BackfillProgress } from './embeddingBackfillService';
+import { EmbeddingMigrationService } from './embeddingMigrationService';
+import { ChunkService } from './chunkService';
+import { FieldEmbeddingService } from './fieldEmbeddingService';
+import { taskTypeForUsage } from './embeddingCacheService';
+import { ChunkingSettings, FieldEmbeddingSettings } from '../config/vectordb.settings';
+
+/**
+ * Model recorded for an embedding column
+ */
+export interface EmbeddingModelInfo {
+  provider: string;
+  modelName: string;
+  dimension: number;
+}
+
+/**
+ * Shadow re-embedding status
+ */
+export interface ShadowEmbeddingStatus {
+  active: EmbeddingModelInfo;
+  shadow: EmbeddingModelInfo | null;
+  totalItems: number; // Items that have (or need) a vector
+  readyItems: number; // Items with a shadow vector from the shadow model
+  pendingChunkItems: number; // Long-content items not yet chunked for the shadow model
+  pendingFieldItems: number; // Items without field vectors from the shadow model
+  coverage: number; // readyItems / totalItems (0-1)
+  fillInProgress: boolean;
+  readyToSwap: boolean;
+}
+
+/**
+ * Shadow swap result
+ */
+export interface ShadowSwapResult {
+  previous: EmbeddingModelInfo;
+  active: EmbeddingModelInfo;
+  swappedItems: number;
+}
+
+// Background fill started through the admin routes (one at a time per process)
+let runningFill: Promise<void> | null = null;
+
+function describe(provider: EmbeddingProvider): EmbeddingModelInfo {
+  return { provider: provider.name, modelName: provider.modelName, dimension: provider.dimension };
+}
+
+function sameModel(a: EmbeddingModelInfo, b: EmbeddingModelInfo): boolean {
+  return a.provider === b.provider && a.modelName === b.modelName && a.dimension === b.dimension;
+}
+
+/**
+ * Shadow Embedding Service
+ * Re-embeds the library into media_items.shadowEmbedding with a new model while
+ * every search keeps reading media_items.embedding, then swaps the two columns
+ * in one transaction once the shadow column covers every item.
+ *
+ * The model behind each column is recorded in embedding_state, so all server
+ * processes embed queries with the model of the active column.
+ */
+export class ShadowEmbeddingService {
+  private stateRepository: Repository<EmbeddingState>;
+  private backfillService: EmbeddingBackfillService;
+  private migrationService: EmbeddingMigrationService;
+  private chunkService: ChunkService;
+  private fieldEmbeddingService: FieldEmbeddingService;
+
+  constructor() {
+    this.stateRepository = AppDataSource.getRepository(EmbeddingState);
+    this.backfillService = new EmbeddingBackfillService();
+    this.migrationService = new EmbeddingMigrationService();
+    this.chunkService = new ChunkService();
+    this.fieldEmbeddingService = new FieldEmbeddingService();
+  }
+
+  /**
+   * Use the model recorded for the active column (if any) for all embeddings
+   * in this process. Without a record the configured provider stays active.
+   * @returns The active provider
+   */
+  async loadActiveProvider(): Promise<EmbeddingProvider> {
+    const state = await this.stateRepository.findOne({ where: { role: 'active' } });
+    if (!state) {
+      return getEmbeddingProvider();
+    }
+
+    const current = getEmbeddingProvider();
+    if (!sameModel(describe(current), state)) {
+      setEmbeddingProvider(createEmbeddingProvider(state.provider, state.modelName, state.dimension));
+      console.log(`✓ Active embedding model: ${state.provider} (${state.modelName}, ${state.dimension}d)`);
+    }
+    return getEmbeddingProvider();
+  }
+
+  /**
+   * Record a provider as the model of the active column and use it in this process
+   */
+  async setActiveProvider(provider: EmbeddingProvider): Promise<void> {
+    await this.saveState('active', describe(provider));
+    setEmbeddingProvider(provider);
+  }
+
+  /**
+   * Get the provider for the shadow column, or null when no shadow re-embed is running
+   */
+  async getShadowProvider(): Promise<EmbeddingProvider | null> {
+    const state = await this.stateRepository.findOne({ where: { role: 'shadow' } });
+    if (!state) return null;
+    return createEmbeddingProvider(state.provider, state.modelName, state.dimension);
+  }
+
+  /**
+   * Start a shadow re-embed with a new model
+   * Vectors already in the shadow column from the same model are kept, so
+   * restarting an interrupted shadow re-embed does not redo finished items.
+   *
+   * @param providerName - Provider name ('gemini', 'openai' or 'local')
+   * @param modelName - Model override (default: the provider's configured model)
+   * @param dimension - Dimension override (default: EmbeddingSettings.DIMENSION)
+   */
+  async start(providerName: string, modelName?: string, dimension?: number): Promise<ShadowEmbeddingStatus> {
+    const target = describe(createEmbeddingProvider(providerName, modelName, dimension));
+    const active = describe(await this.loadActiveProvider());
+
+    if (sameModel(target, active)) {
+      throw new Error(`${target.modelName} (${target.dimension}d) is already the active embedding model`);
+    }
+
+    // The shadow column holds vectors of any dimension
+    if (await this.migrationService.getColumnDimension('media_items', 'shadowEmbedding') !== null) {
+      await AppDataSource.query('ALTER TABLE media_items ALTER COLUMN "shadowEmbedding" TYPE vector');
+    }
+
+    await this.saveState('shadow', target);
+
+    // Drop chunks and field vectors of models that are neither active nor the new shadow model
+    for (const table of ['media_chunks', 'media_field_embeddings']) {
+      await AppDataSource.query(
+        `DELETE FROM ${table} WHERE "embeddingModel" NOT IN ($1, $2)`,
+        [active.modelName, target.modelName]
+      );
+    }
+
+    console.log(`✓ Shadow re-embed started: ${target.provider} (${target.modelName}, ${target.dimension}d)`);
+    return await this.getStatus();
+  }
+
+  /**
+   * Fill the shadow column (and shadow chunks and field vectors) for every item that still needs it
+   * Resumable: only items without a vector from the shadow model are processed
+   */
+  async fill(
+    options: BackfillOptions = {}
+  ): Promise<{ backfill: BackfillProgress; chunkedItems: number; fieldItems: number }> {
+    const provider = await this.getShadowProvider();
+    if (!provider) {
+      throw new Error('No shadow re-embed has been started');
+    }
+
+    const backfill = await this.backfillService.run({ ...options, target: 'shadow', provider });
+    const chunkedItems = await this.chunkService.backfillMissingChunks(provider);
+    const fieldItems = await this.fieldEmbeddingService.backfillMissingFields(provider);
+    return { backfill, chunkedItems, fieldItems };
+  }
+
+  /**
+   * Start filling the shadow column in the background (no-op if a fill is already running)
+   * @returns Whether a new fill was started
+   */
+  startBackgroundFill(options: BackfillOptions = {}): boolean {
+    if (runningFill) return false;
+
+    runningFill = this.fill(options)
+      .then(result => {
+        console.log(
+          `✅ Shadow fill complete! Generated: ${result.backfill.succeeded}, Skipped: ${result.backfill.skipped}, ` +
+          `Failed: ${result.backfill.failed}, Chunked: ${result.chunkedItems}, Fields: ${result.fieldItems}`
+        );
+      })
+      .catch(error => {
+        console.error('Error during shadow fill:', error instanceof Error ? error.message : error);
+      })
+      .finally(() => {
+        runningFill = null;
+      });
+    return true;
+  }
+
+  /**
+   * Report how much of the library the shadow column covers
+   */
+  async getStatus(): Promise<ShadowEmbeddingStatus> {
+    const active = describe(await this.loadActiveProvider());
+    const shadowState = await this.stateRepository.findOne({ where: { role: 'shadow' } });
+    const shadow = shadowState
+      ? { provider: shadowState.provider, modelName: shadowState.modelName, dimension: shadowState.dimension }
+      : null;
+
+    const coverage = await this.countCoverage(shadow);
+
+    return {
+      active,
+      shadow,
+      ...coverage,
+      coverage: coverage.totalItems > 0 ? coverage.readyItems / coverage.totalItems : 1,
+      fillInProgress: runningFill !== null,
+      readyToSwap: shadow !== null &&
+        coverage.readyItems === coverage.totalItems &&
+        coverage.pendingChunkItems === 0 &&
+        coverage.pendingFieldItems === 0,
+    };
+  }
+
+  /**
+   * Atomically make the shadow column the active one
+   *
+   * Runs in one transaction: writes to media_items are blocked, coverage is
+   * re-checked, then the vector and model columns are swapped by renaming them.
+   * The previous vectors end up in the shadow column, so swapping back to the
+   * previous model only needs a start + fill for the items created since.
+   */
+  async swap(): Promise<ShadowSwapResult> {
+    const result = await AppDataSource.transaction(async manager => {
+      const shadowState = await manager.findOne(EmbeddingState, { where: { role: 'shadow' } });
+      if (!shadowState) {
+        throw new Error('No shadow re-embed has been started');
+      }
+      const shadow = { provider: shadowState.provider, modelName: shadowState.modelName, dimension: shadowState.dimension };
+      const previous = describe(getEmbeddingProvider());
+
+      // Block inserts/updates (reads continue) until the swap commits
+      await manager.query('LOCK TABLE media_items IN SHARE ROW EXCLUSIVE MODE');
+
+      const coverage = await this.countCoverage(shadow, manager.query.bind(manager));
+      if (coverage.readyItems < coverage.totalItems || coverage.pendingChunkItems > 0 || coverage.pendingFieldItems > 0) {
+        throw new Error(
+          `Shadow embeddings cover ${coverage.readyItems} of ${coverage.totalItems} items ` +
+          `(${coverage.pendingChunkItems} items still need chunks, ${coverage.pendingFieldItems} need field vectors); ` +
+          'run the fill again before swapping'
+        );
+      }
+
+      for (const [live, staged] of [
+        ['embedding', 'shadowEmbedding'],
+        ['embeddingModel', 'shadowEmbeddingModel'],
+        ['embeddingDimension', 'shadowEmbeddingDimension'],
+        ['embeddingTaskType', 'shadowEmbeddingTaskType'],
+      ]) {
+        await manager.query(`ALTER TABLE media_items RENAME COLUMN "${live}" TO "${live}_swap"`);
+        await manager.query(`ALTER TABLE media_items RENAME COLUMN "${staged}" TO "${live}"`);
+        await manager.query(`ALTER TABLE media_items RENAME COLUMN "${live}_swap" TO "${staged}"`);
+      }
+
+      await manager.save(EmbeddingState, { role: 'active', ...shadow });
+      await manager.delete(EmbeddingState, { role: 'shadow' });
+
+      return { previous, active: shadow, swappedItems: coverage.readyItems };
+    });
+
+    setEmbeddingProvider(createEmbeddingProvider(result.active.provider, result.active.modelName, result.active.dimension));
+    console.log(
+      `✓ Swapped embeddings: ${result.previous.modelName} (${result.previous.dimension}d) → ` +
+      `${result.active.modelName} (${result.active.dimension}d), ${result.swappedItems} items`
+    );
+    return result;
+  }
+
+  /**
+   * Warn when EMBEDDING_PROVIDER / EMBEDDING_MODEL point at a model other than
+   * the one recorded for the active column
+   */
+  async checkConfiguredProvider(): Promise<void> {
+    let configured: EmbeddingProvider;
+    try {
+      configured = createConfiguredEmbeddingProvider();
+    } catch (error) {
+      return; // Configured provider is unusable (e.g. missing API key); nothing to compare
+    }
+
+    const active = describe(getEmbeddingProvider());
+    if (!sameModel(describe(configured), active)) {
+      console.warn(
+        `⚠ Configured embedding model ${configured.modelName} (${configured.dimension}d) differs from the active model ` +
+        `${active.modelName} (${active.dimension}d). Start a shadow re-embed (npm run shadow:embeddings -- start) ` +
+        `or re-embed in place (npm run reembed:embeddings) to switch.`
+      );
+    }
+  }
+
+  /**
+   * Count items covered by the shadow model
+   * @private
+   */
+  private async countCoverage(
+    shadow: EmbeddingModelInfo | null,
+    query: (sql: string, parameters?: any[]) => Promise<any> = AppDataSource.query.bind(AppDataSource)
+  ): Promise<{ totalItems: number; readyItems: number; pendingChunkItems: number; pendingFieldItems: number }> {
+    const rows = await query(
+      `SELECT
+         COUNT(*) FILTER (WHERE embedding IS NOT NULL OR "shadowEmbedding" IS NOT NULL) as total,
+         COUNT(*) FILTER (
+           WHERE "shadowEmbedding" IS NOT NULL
+             AND "shadowEmbeddingModel" = $1
+             AND "shadowEmbeddingDimension" = $2
+             AND "shadowEmbeddingTaskType" = $3
+         ) as ready
+       FROM media_items`,
+      [shadow?.modelName ?? null, shadow?.dimension ?? null, taskTypeForUsage('document')]
+    );
+
+    let pendingChunkItems = 0;
+    if (shadow && ChunkingSettings.ENABLED) {
+      const chunkRows = await query(
+        `SELECT COUNT(*) as count
+         FROM media_items item
+         WHERE LENGTH(item.content) > $1
+           AND NOT EXISTS (
+             SELECT 1 FROM media_chunks c
+             WHERE c."mediaItemId" = item.id AND c."embeddingModel" = $2 AND c."embeddingTaskType" = $3
+               AND c."embeddingDimension" = $4
+           )`,
+        [ChunkingSettings.MIN_CONTENT_LENGTH, shadow.modelName, taskTypeForUsage('document'), shadow.dimension]
+      );
+      pendingChunkItems = parseInt(chunkRows[0]?.count || '0');
+    }
+
+    let pendingFieldItems = 0;
+    if (shadow && FieldEmbeddingSettings.ENABLED) {
+      const fieldRows = await query(
+        `SELECT COUNT(*) as count
+         FROM media_items item
+         WHERE (item.embedding IS NOT NULL OR item."shadowEmbedding" IS NOT NULL)
+           AND NOT EXISTS (
+             SELECT 1 FROM media_field_embeddings f
+             WHERE f."mediaItemId" = item.id AND f."embeddingModel" = $1 AND f."embeddingTaskType" = $2
+               AND f."embeddingDimension" = $3
+           )`,
+        [shadow.modelName, taskTypeForUsage('document'), shadow.dimension]
+      );
+      pendingFieldItems = parseInt(fieldRows[0]?.count || '0');
+    }
+
+    return {
+      totalItems: parseInt(rows[0]?.total || '0'),
+      readyItems: parseInt(rows[0]?.ready || '0'),
+      pendingChunkItems,
+      pendingFieldItems,
+    };
+  }
+
+  /**
+   * Upsert the model recorded for a column
+   * @private
+   */
+  private async saveState(role: EmbeddingRole, info: EmbeddingModelInfo): Promise<void> {
+    await this.stateRepository.save({ role, ...info });
+  }
+}
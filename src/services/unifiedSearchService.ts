@@ -0,0 +1,296 @@
+import { MediaItem } from '../entities/MediaItem';
+import {
+  MediaService,
+  DistanceMetric,
+  FuzzySearchField,
+  FuzzySearchMode,
+  ScoreExplanation,
+} from './mediaService';
+import { VocabularyService, QuerySuggestion } from './vocabularyService';
+import { SearchFacets } from './facetService';
+import { BestPassage } from './chunkService';
+import { FieldWeights, FieldMatch } from './fieldEmbeddingService';
+import { HighlightSpan, Snippet } from './highlightService';
+import { QueryExpansionOptions } from './queryExpansionService';
+import { RerankerName } from '../utils/rerankers';
+import { SearchFilters } from '../utils/searchFilters';
+import { ParsedQuery } from '../utils/queryParser';
+import {
+  LimitSettings,
+  FuzzySearchSettings,
+  SearchSettings,
+  SemanticSearchSettings,
+} from '../config/vectordb.settings';
+
+/**
+ * Search modes of the unified search
+ */
+export type SearchMode = 'keyword' | 'vector' | 'semantic' | 'fuzzy' | 'hybrid';
+
+export const SEARCH_MODES: readonly SearchMode[] = ['keyword', 'vector', 'semantic', 'fuzzy', 'hybrid'];
+
+/**
+ * Options of a unified search; each mode reads the options it supports
+ */
+export interface UnifiedSearchOptions {
+  limit?: number;
+  cursor?: string;
+  filters?: SearchFilters;
+  autoCorrect?: boolean; // keyword, vector, semantic, fuzzy
+  explain?: boolean; // vector, semantic
+  facets?: boolean; // vector, semantic, hybrid
+  mmrLambda?: number; // vector, semantic
+  fieldWeights?: FieldWeights; // vector, semantic
+  metric?: DistanceMetric; // vector
+  maxDistance?: number; // vector
+  minSimilarity?: number; // semantic
+  includeRelated?: boolean; // semantic
+  contextBoost?: boolean; // semantic
+  expansion?: QueryExpansionOptions; // semantic
+  reranker?: RerankerName; // semantic
+  minScore?: number; // fuzzy
+  searchFields?: FuzzySearchField[]; // fuzzy
+  fuzzyMode?: FuzzySearchMode; // fuzzy
+  vectorWeight?: number; // hybrid
+  textWeight?: number; // hybrid
+  rrfK?: number; // hybrid
+}
+
+/**
+ * One result of a unified search, whatever the mode
+ */
+export interface UnifiedSearchResult {
+  item: Omit<MediaItem, 'embedding' | 'shadowEmbedding'>; // Vectors are left out of the envelope
+  score: number; // Score the mode ranks by (similarity, relevance, fuzzy, keyword or fused score)
+  scores: {
+    similarity?: number | null;
+    distance?: number;
+    relevance?: number;
+    rerank?: number;
+    mmr?: number;
+    fuzzy?: number;
+    keyword?: number;
+    text?: number | null; // Full-text ts_rank_cd (hybrid)
+    vectorRank?: number | null;
+    textRank?: number | null;
+  };
+  matchedFields?: string[]; // Fields containing the query (keyword, fuzzy)
+  bestPassage?: BestPassage;
+  fieldScores?: FieldMatch['fieldScores'];
+  explanation?: ScoreExplanation;
+  highlights?: HighlightSpan[];
+  snippet?: Snippet;
+}
+
+/**
+ * Response envelope shared by every mode
+ */
+export interface UnifiedSearchResponse {
+  query: string;
+  mode: SearchMode;
+  parsedQuery?: ParsedQuery; // Not for hybrid, whose full-text side reads web search syntax
+  suggestions: QuerySuggestion[];
+  correctedQuery?: string;
+  count: number;
+  total: number;
+  nextCursor: string | null;
+  results: UnifiedSearchResult[];
+  facets?: SearchFacets; // Requested with facets (vector, semantic and hybrid)
+  facetsTruncated?: boolean; // The facets were counted over a full candidate pool, so more items may match
+  metadata: Record<string, unknown>; // Mode-specific details (search metadata, related concepts, ...)
+}
+
+/**
+ * Unified Search Service
+ * Runs any search mode of MediaService and returns its page in one envelope
+ */
+export class UnifiedSearchService {
+  private mediaService: MediaService;
+  private vocabularyService: VocabularyService;
+
+  constructor() {
+    this.mediaService = new MediaService();
+    this.vocabularyService = new VocabularyService();
+  }
+
+  /**
+   * Search in the given mode
+   * @param query - Search query
+   * @param mode - Search mode
+   * @param options - Common and mode-specific options
+   * @throws SearchFilterError, CursorError and EmbeddingError as the underlying search does
+   */
+  async search(query: string, mode: SearchMode, options: UnifiedSearchOptions = {}): Promise<UnifiedSearchResponse> {
+    const { limit = LimitSettings.DEFAULT_SEARCH_LIMIT, cursor, filters = {}, autoCorrect } = options;
+
+    switch (mode) {
+      case 'keyword': {
+        const page = await this.mediaService.keywordSearch(query, limit, filters, cursor, autoCorrect);
+        return this.envelope(query, mode, page, page.results.map(r => ({
+          item: r.item,
+          score: r.keywordScore,
+          scores: { keyword: r.keywordScore },
+          matchedFields: r.matchedFields,
+          highlights: r.highlights,
+          snippet: r.snippet,
+        })), {});
+      }
+
+      case 'vector': {
+        const metric = options.metric ?? SearchSettings.DEFAULT_METRIC;
+        const page = await this.mediaService.searchMedia(
+          query, limit, options.maxDistance, metric, options.fieldWeights, filters, cursor,
+          autoCorrect, options.mmrLambda, options.explain, options.facets
+        );
+        return this.envelope(query, mode, page, page.results.map(r => ({
+          item: r.item,
+          score: r.similarity,
+          scores: { similarity: r.similarity, distance: r.distance, mmr: r.mmrScore },
+          bestPassage: r.bestPassage,
+          fieldScores: r.fieldScores,
+          explanation: r.explanation,
+          highlights: r.highlights,
+          snippet: r.snippet,
+        })), { metric, fieldWeights: options.fieldWeights });
+      }
+
+      case 'semantic': {
+        const result = await this.mediaService.semanticSearch(query, limit, {
+          minSimilarity: options.minSimilarity ?? SemanticSearchSettings.DEFAULT_MIN_SIMILARITY,
+          includeRelated: options.includeRelated ?? SemanticSearchSettings.DEFAULT_INCLUDE_RELATED,
+          contextBoost: options.contextBoost ?? SemanticSearchSettings.DEFAULT_CONTEXT_BOOST,
+          fieldWeights: options.fieldWeights,
+          filters,
+          cursor,
+          expansion: options.expansion,
+          autoCorrect,
+          reranker: options.reranker,
+          mmrLambda: options.mmrLambda,
+          explain: options.explain,
+          facets: options.facets,
+        });
+        return this.envelope(query, mode, result, result.results.map(r => ({
+          item: r.item,
+          score: r.rerankScore ?? r.relevanceScore ?? r.similarity,
+          scores: {
+            similarity: r.similarity,
+            distance: r.distance,
+            relevance: r.relevanceScore,
+            rerank: r.rerankScore,
+            mmr: r.mmrScore,
+          },
+          bestPassage: r.bestPassage,
+          fieldScores: r.fieldScores,
+          explanation: r.explanation,
+          highlights: r.highlights,
+          snippet: r.snippet,
+        })), {
+          ...result.searchMetadata,
+          relatedConcepts: result.relatedConcepts,
+          helpfulMessage: result.helpfulMessage,
+        });
+      }
+
+      case 'fuzzy': {
+        const page = await this.mediaService.fuzzySearch(
+          query,
+          limit,
+          options.minScore ?? FuzzySearchSettings.DEFAULT_MIN_SCORE,
+          options.searchFields ?? [...FuzzySearchSettings.DEFAULT_SEARCH_FIELDS],
+          filters,
+          cursor,
+          options.fuzzyMode ?? FuzzySearchSettings.DEFAULT_MODE,
+          autoCorrect
+        );
+        return this.envelope(query, mode, page, page.results.map(r => ({
+          item: r.item,
+          score: r.fuzzyScore,
+          scores: { fuzzy: r.fuzzyScore },
+          matchedFields: [r.matchedField],
+          highlights: r.highlights,
+          snippet: r.snippet,
+        })), { fuzzyMode: page.mode });
+      }
+
+      case 'hybrid': {
+        const [result, suggestions] = await Promise.all([
+          this.mediaService.hybridSearch(query, limit, {
+            vectorWeight: options.vectorWeight,
+            textWeight: options.textWeight,
+            rrfK: options.rrfK,
+            filters,
+            cursor,
+            facets: options.facets,
+          }),
+          this.vocabularyService.suggest(query, query),
+        ]);
+        return this.envelope(query, mode, { ...result, suggestions }, result.results.map(r => ({
+          item: r.item,
+          score: r.score,
+          scores: {
+            similarity: r.similarity,
+            text: r.textScore,
+            vectorRank: r.vectorRank,
+            textRank: r.textRank,
+          },
+          bestPassage: r.bestPassage,
+          highlights: r.highlights,
+          snippet: r.snippet,
+        })), result.searchMetadata);
+      }
+
+      default:
+        throw new Error(`Unknown search mode: ${mode}`);
+    }
+  }
+
+  /**
+   * Wrap a page of converted results in the shared envelope
+   * @private
+   */
+  private envelope(
+    query: string,
+    mode: SearchMode,
+    page: {
+      total: number;
+      nextCursor: string | null;
+      parsedQuery?: ParsedQuery;
+      suggestions: QuerySuggestion[];
+      correctedQuery?: string;
+      facets?: SearchFacets;
+      facetsTruncated?: boolean;
+    },
+    results: UnifiedSearchResult[],
+    metadata: Record<string, unknown>
+  ): UnifiedSearchResponse {
+    return {
+      query,
+      mode,
+      parsedQuery: page.parsedQuery,
+      suggestions: page.suggestions,
+      correctedQuery: page.correctedQuery,
+      count: results.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
+      results: results.map(result => ({ ...result, item: withoutVectors(result.item) })),
+      facets: page.facets,
+      facetsTruncated: page.facetsTruncated,
+      metadata,
+    };
+  }
+}
+
+/**
+ * Copy of an item without its vectors (they are only used for ranking)
+ */
+function withoutVectors(item: UnifiedSearchResult['item']): UnifiedSearchResult['item'] {
+  const { embedding, shadowEmbedding, ...rest } = item as MediaItem;
+  return rest;
+}
+
+/**
+ * Check whether a value names a search mode
+ */
+export function isSearchMode(mode: unknown): mode is SearchMode {
+  return SEARCH_MODES.includes(mode as SearchMode);
+}
@@ -0,0 +1,236 @@
+import { Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { MediaItem } from '../entities/MediaItem';
+import { VocabularyTerm } from '../entities/VocabularyTerm';
+import { BKTree } from '../utils/bkTree';
+import { SpellingSettings, PerformanceSettings } from '../config/vectordb.settings';
+
+/**
+ * Corrected query proposed for a search
+ */
+export interface QuerySuggestion {
+  text: string; // Query with the corrections applied
+  corrections: Array<{ word: string; correction: string; distance: number }>;
+}
+
+/**
+ * In-memory copy of vocabulary_terms, shared by every VocabularyService
+ */
+interface VocabularyIndex {
+  tree: BKTree;
+  counts: Map<string, number>;
+  loadedAt: number;
+}
+
+let vocabularyIndex: VocabularyIndex | null = null;
+let loadingIndex: Promise<VocabularyIndex> | null = null;
+
+/**
+ * Distinct vocabulary words of an item (lowercase)
+ */
+export function extractVocabularyTerms(item: Pick<MediaItem, 'title' | 'description' | 'content'>): string[] {
+  const text = [item.title, item.description, item.content].filter(Boolean).join(' ');
+  return [...new Set(tokenize(text).filter(isVocabularyWord))];
+}
+
+/**
+ * Vocabulary Service
+ * Maintains the library vocabulary (vocabulary_terms) and proposes "did you
+ * mean" corrections for query words it does not contain, looked up in a
+ * BK-tree by Levenshtein distance
+ */
+export class VocabularyService {
+  private vocabularyRepository: Repository<VocabularyTerm>;
+
+  constructor() {
+    this.vocabularyRepository = AppDataSource.getRepository(VocabularyTerm);
+  }
+
+  /**
+   * Count the words of a new item
+   */
+  async addItem(item: MediaItem): Promise<void> {
+    const terms = extractVocabularyTerms(item);
+    if (terms.length === 0) return;
+
+    await this.vocabularyRepository.query(
+      `INSERT INTO vocabulary_terms (term, "documentCount")
+       SELECT term, 1 FROM unnest($1::text[]) AS t(term)
+       ON CONFLICT (term) DO UPDATE SET "documentCount" = vocabulary_terms."documentCount" + 1`,
+      [terms]
+    );
+
+    if (vocabularyIndex) {
+      for (const term of terms) {
+        vocabularyIndex.counts.set(term, (vocabularyIndex.counts.get(term) ?? 0) + 1);
+        vocabularyIndex.tree.add(term);
+      }
+    }
+  }
+
+  /**
+   * Uncount the words of a deleted item (words no item contains any more are removed)
+   */
+  async removeItem(item: MediaItem): Promise<void> {
+    const terms = extractVocabularyTerms(item);
+    if (terms.length === 0) return;
+
+    await AppDataSource.transaction(async manager => {
+      await manager.query(
+        `UPDATE vocabulary_terms SET "documentCount" = "documentCount" - 1 WHERE term = ANY($1::text[])`,
+        [terms]
+      );
+      await manager.query(
+        `DELETE FROM vocabulary_terms WHERE term = ANY($1::text[]) AND "documentCount" <= 0`,
+        [terms]
+      );
+    });
+
+    if (vocabularyIndex) {
+      // Removed words stay in the tree until the next reload but are never suggested
+      for (const term of terms) {
+        vocabularyIndex.counts.set(term, Math.max(0, (vocabularyIndex.counts.get(term) ?? 0) - 1));
+      }
+    }
+  }
+
+  /**
+   * Build the vocabulary from every item when it is empty
+   * (libraries created before the vocabulary existed)
+   * @returns Number of words indexed
+   */
+  async buildIfEmpty(): Promise<number> {
+    if (await this.vocabularyRepository.count({ take: 1 }) > 0) return 0;
+
+    const mediaRepository = AppDataSource.getRepository(MediaItem);
+    const counts = new Map<string, number>();
+    for (let offset = 0; ; offset += PerformanceSettings.BATCH_SIZE) {
+      const items = await mediaRepository.find({
+        select: ['id', 'title', 'description', 'content'],
+        order: { id: 'ASC' },
+        skip: offset,
+        take: PerformanceSettings.BATCH_SIZE,
+      });
+      for (const item of items) {
+        for (const term of extractVocabularyTerms(item)) {
+          counts.set(term, (counts.get(term) ?? 0) + 1);
+        }
+      }
+      if (items.length < PerformanceSettings.BATCH_SIZE) break;
+    }
+
+    const entries = [...counts.entries()];
+    for (let start = 0; start < entries.length; start += PerformanceSettings.BATCH_SIZE * 10) {
+      const batch = entries.slice(start, start + PerformanceSettings.BATCH_SIZE * 10);
+      await this.vocabularyRepository.query(
+        `INSERT INTO vocabulary_terms (term, "documentCount")
+         SELECT * FROM unnest($1::text[], $2::int[])
+         ON CONFLICT (term) DO NOTHING`,
+        [batch.map(([term]) => term), batch.map(([, count]) => count)]
+      );
+    }
+
+    vocabularyIndex = null;
+    return entries.length;
+  }
+
+  /**
+   * Corrected queries for the query words missing from the vocabulary
+   * The first suggestion corrects every such word with its closest, most
+   * frequent match; the others swap in the runner-up corrections one word at a time.
+   *
+   * @param query - Query as typed (corrections are applied to it)
+   * @param text - Words of the query to check (free text, without operators)
+   * @returns Suggestions, best first (empty when every word is known)
+   */
+  async suggest(query: string, text: string): Promise<QuerySuggestion[]> {
+    if (!SpellingSettings.ENABLED) return [];
+
+    let index: VocabularyIndex;
+    try {
+      index = await this.getIndex();
+    } catch (error) {
+      // Suggestions only help; never fail a search because of them
+      console.warn('⚠ Vocabulary unavailable, no spelling suggestions:', error instanceof Error ? error.message : error);
+      return [];
+    }
+    if (index.counts.size === 0) return [];
+
+    const misspelled: Array<{ word: string; candidates: Array<{ correction: string; distance: number }> }> = [];
+    for (const word of new Set(tokenize(text).filter(isVocabularyWord))) {
+      if ((index.counts.get(word) ?? 0) > 0) continue;
+
+      const maxDistance = word.length <= SpellingSettings.SHORT_WORD_LENGTH ? 1 : SpellingSettings.MAX_EDIT_DISTANCE;
+      const candidates = index.tree.search(word, maxDistance)
+        .map(match => ({ correction: match.word, distance: match.distance, count: index.counts.get(match.word) ?? 0 }))
+        .filter(candidate => candidate.count > 0)
+        .sort((a, b) => a.distance - b.distance || b.count - a.count)
+        .slice(0, SpellingSettings.MAX_SUGGESTIONS)
+        .map(({ correction, distance }) => ({ correction, distance }));
+      if (candidates.length > 0) {
+        misspelled.push({ word, candidates });
+      }
+    }
+    if (misspelled.length === 0) return [];
+
+    const best = misspelled.map(entry => ({ word: entry.word, ...entry.candidates[0] }));
+    const choices = [best];
+    for (let i = 0; i < misspelled.length; i++) {
+      for (const candidate of misspelled[i].candidates.slice(1)) {
+        choices.push(best.map((correction, j) => (j === i ? { word: correction.word, ...candidate } : correction)));
+      }
+    }
+
+    return choices.slice(0, SpellingSettings.MAX_SUGGESTIONS).map(corrections => ({
+      text: corrections.reduce((corrected, { word, correction }) => replaceWord(corrected, word, correction), query),
+      corrections,
+    }));
+  }
+
+  /**
+   * Load the vocabulary into memory (reloaded after SpellingSettings.REFRESH_INTERVAL)
+   * @private
+   */
+  private async getIndex(): Promise<VocabularyIndex> {
+    if (vocabularyIndex && Date.now() - vocabularyIndex.loadedAt < SpellingSettings.REFRESH_INTERVAL) {
+      return vocabularyIndex;
+    }
+
+    loadingIndex ??= (async () => {
+      try {
+        const rows: Array<{ term: string; documentCount: number }> = await this.vocabularyRepository.query(
+          `SELECT term, "documentCount" FROM vocabulary_terms WHERE "documentCount" > 0`
+        );
+        const tree = new BKTree();
+        const counts = new Map<string, number>();
+        for (const row of rows) {
+          tree.add(row.term);
+          counts.set(row.term, row.documentCount);
+        }
+        vocabularyIndex = { tree, counts, loadedAt: Date.now() };
+        return vocabularyIndex;
+      } finally {
+        loadingIndex = null;
+      }
+    })();
+    return loadingIndex;
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function isVocabularyWord(word: string): boolean {
+  return word.length >= SpellingSettings.MIN_TERM_LENGTH &&
+    word.length <= SpellingSettings.MAX_TERM_LENGTH &&
+    !/^\p{N}+$/u.test(word);
+}
+
+/**
+ * Replace a whole word, whatever its case
+ */
+function replaceWord(text: string, word: string, replacement: string): string {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'giu'), replacement);
+}
@@ -0,0 +1,71 @@
+/**
+ * BK-tree
+ * Indexes words by Levenshtein distance, so all words within a few edits of a
+ * query word are found without comparing it against the whole vocabulary
+ */
+
+import { levenshteinDistance } from './fuzzySearch';
+
+interface BKNode {
+  word: string;
+  children: Map<number, BKNode>; // Keyed by distance to this node's word
+}
+
+export class BKTree {
+  private root: BKNode | null = null;
+  private count = 0;
+
+  /**
+   * Add a word (duplicates are ignored)
+   */
+  add(word: string): void {
+    if (!this.root) {
+      this.root = { word, children: new Map() };
+      this.count++;
+      return;
+    }
+
+    let node = this.root;
+    while (true) {
+      const distance = levenshteinDistance(word, node.word);
+      if (distance === 0) return;
+
+      const child = node.children.get(distance);
+      if (!child) {
+        node.children.set(distance, { word, children: new Map() });
+        this.count++;
+        return;
+      }
+      node = child;
+    }
+  }
+
+  /**
+   * Find the words within maxDistance edits of a word, nearest first
+   */
+  search(word: string, maxDistance: number): Array<{ word: string; distance: number }> {
+    const matches: Array<{ word: string; distance: number }> = [];
+    const stack = this.root ? [this.root] : [];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      const distance = levenshteinDistance(word, node.word);
+      if (distance <= maxDistance) {
+        matches.push({ word: node.word, distance });
+      }
+
+      // Triangle inequality: only subtrees in [distance - max, distance + max] can match
+      for (const [childDistance, child] of node.children) {
+        if (Math.abs(childDistance - distance) <= maxDistance) {
+          stack.push(child);
+        }
+      }
+    }
+
+    return matches.sort((a, b) => a.distance - b.distance);
+  }
+
+  get size(): number {
+    return this.count;
+  }
+}
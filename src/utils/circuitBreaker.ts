@@ -0,0 +1,105 @@
+/**
+ * Circuit breaker states
+ * - closed: calls go through
+ * - open: calls fail fast until the reset timeout has passed
+ * - half_open: one trial call is let through; success closes, failure reopens
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit breaker snapshot (for stats endpoints)
+ */
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  retryAfterMs: number; // Time until a trial call is allowed (0 unless open)
+}
+
+/**
+ * Minimal consecutive-failure circuit breaker
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private openUntil = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private failureThreshold: number,
+    private resetTimeoutMs: number
+  ) {}
+
+  /**
+   * Check whether a call may go through now
+   * Moves an expired open circuit to half-open and admits a single trial call
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() >= this.openUntil) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'closed') return true;
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Record a successful call
+   */
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Give back a half-open trial that proved nothing either way (e.g. an
+   * unclassified error), so the next call can be the trial
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a failed call
+   * @param minOpenMs - Keep the circuit open at least this long (e.g. provider Retry-After)
+   */
+  recordFailure(minOpenMs: number = 0): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.openUntil = this.openedAt + Math.max(this.resetTimeoutMs, minOpenMs);
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Milliseconds until a trial call is allowed (0 when not open)
+   */
+  getRetryAfterMs(): number {
+    if (this.state !== 'open') return 0;
+    return Math.max(0, this.openUntil - Date.now());
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt) : null,
+      retryAfterMs: this.getRetryAfterMs(),
+    };
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Kinds of embedding failures
+ * - rate_limit: too many requests, retry after a delay
+ * - quota: billing/usage quota exhausted, retrying will not help until it resets
+ * - auth: missing or invalid API key
+ * - invalid_input: the provider rejected the text (too long, empty, ...)
+ * - unavailable: network error or 5xx from the provider
+ * - circuit_open: calls are suspended after repeated provider failures
+ * - unknown: anything else
+ */
+export type EmbeddingErrorKind =
+  | 'rate_limit'
+  | 'quota'
+  | 'auth'
+  | 'invalid_input'
+  | 'unavailable'
+  | 'circuit_open'
+  | 'unknown';
+
+/**
+ * Classified embedding error
+ */
+export class EmbeddingError extends Error {
+  readonly kind: EmbeddingErrorKind;
+  readonly status?: number; // HTTP status returned by the provider
+  readonly retryAfterMs?: number; // Delay requested by the provider (Retry-After) or the circuit breaker
+
+  constructor(kind: EmbeddingErrorKind, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'EmbeddingError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  /** Worth retrying the same request after a delay */
+  get retryable(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'unavailable';
+  }
+
+  /** Caused by the provider being unusable (counts towards opening the circuit) */
+  get providerFailure(): boolean {
+    return this.kind !== 'invalid_input' && this.kind !== 'unknown' && this.kind !== 'circuit_open';
+  }
+}
+
+/**
+ * Parse a Retry-After header value (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * Classify an HTTP error response from an embedding provider
+ */
+export function classifyHttpError(status: number, body: string, retryAfterMs?: number): EmbeddingError {
+  const message = `Embedding request failed with status ${status}: ${body}`;
+
+  if (status === 429) {
+    return /insufficient_quota|exceeded your current quota|billing/i.test(body)
+      ? new EmbeddingError('quota', message, status, retryAfterMs)
+      : new EmbeddingError('rate_limit', message, status, retryAfterMs);
+  }
+  if (status === 401 || status === 403) {
+    return new EmbeddingError('auth', message, status);
+  }
+  if (status === 400 || status === 413 || status === 422) {
+    return new EmbeddingError('invalid_input', message, status);
+  }
+  if (status >= 500 || status === 408) {
+    return new EmbeddingError('unavailable', message, status, retryAfterMs);
+  }
+  return new EmbeddingError('unknown', message, status);
+}
+
+/**
+ * Classify any error thrown while embedding
+ * Handles EmbeddingError (returned as-is), SDK errors that embed the HTTP
+ * status in the message (e.g. "[429 Too Many Requests] ..."), and network errors
+ */
+export function classifyEmbeddingError(error: unknown): EmbeddingError {
+  if (error instanceof EmbeddingError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  // @google/generative-ai formats HTTP failures as "[<status> <statusText>] <message>"
+  const statusMatch = message.match(/\[(\d{3})[^\]]*\]/);
+  if (statusMatch) {
+    const status = parseInt(statusMatch[1]);
+    if (/API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message)) {
+      return new EmbeddingError('auth', message, status);
+    }
+    return classifyHttpError(status, message);
+  }
+
+  if (/API key|GEMINI_API_KEY/i.test(message)) {
+    return new EmbeddingError('auth', message);
+  }
+  if (/fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|network/i.test(message)) {
+    return new EmbeddingError('unavailable', message);
+  }
+  return new EmbeddingError('unknown', message);
+}
@@ -0,0 +1,373 @@
+/**
+ * Embedding Providers
+ *
+ * Pluggable backends for turning text into vectors. The active provider is
+ * selected by the EMBEDDING_PROVIDER environment variable (falls back to
+ * EmbeddingSettings.PROVIDER):
+ * - gemini: Google Gemini embedding API (requires GEMINI_API_KEY)
+ * - openai: Any OpenAI-compatible /embeddings HTTP endpoint
+ * - local:  Deterministic hashing provider, works offline (dev and CI)
+ */
+
+import { GoogleGenerativeAI, EmbedContentRequest, TaskType } from '@google/generative-ai';
+import * as dotenv from 'dotenv';
+import { EmbeddingSettings } from '../config/vectordb.settings';
+import { classifyHttpError, parseRetryAfter } from './embeddingErrors';
+
+dotenv.config();
+
+/**
+ * Supported embedding provider names
+ */
+export type EmbeddingProviderName = 'gemini' | 'openai' | 'local';
+
+/**
+ * What a vector is used for
+ * Asymmetric retrieval models embed queries and documents differently;
+ * vectors of different task types must never be compared
+ */
+export type EmbeddingTaskType = 'retrieval_query' | 'retrieval_document';
+
+/**
+ * Options for a single embedding
+ */
+export interface EmbedOptions {
+  taskType?: EmbeddingTaskType;
+  title?: string; // Document title (retrieval_document only, used by providers that support it)
+}
+
+/**
+ * Options for a batch of embeddings (titles match texts by index)
+ */
+export interface EmbedBatchOptions {
+  taskType?: EmbeddingTaskType;
+  titles?: Array<string | undefined>;
+}
+
+/**
+ * Common interface implemented by every embedding backend
+ */
+export interface EmbeddingProvider {
+  /** Provider identifier */
+  readonly name: EmbeddingProviderName;
+  /** Model used to produce the vectors */
+  readonly modelName: string;
+  /** Length of the vectors produced by this provider */
+  readonly dimension: number;
+  /** Generate an embedding for a single text */
+  embed(text: string, options?: EmbedOptions): Promise<number[]>;
+  /** Generate embeddings for several texts in one request (same order as input) */
+  embedBatch(texts: string[], options?: EmbedBatchOptions): Promise<number[][]>;
+}
+
+/**
+ * Google Gemini embedding provider
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'gemini' as const;
+  readonly modelName: string;
+  readonly dimension: number;
+  private genAI: GoogleGenerativeAI;
+
+  constructor(
+    apiKey: string = process.env.GEMINI_API_KEY || '',
+    modelName: string = process.env.EMBEDDING_MODEL || EmbeddingSettings.MODEL_NAME,
+    dimension: number = EmbeddingSettings.DIMENSION
+  ) {
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY is not set in environment variables');
+    }
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.modelName = modelName;
+    this.dimension = dimension;
+  }
+
+  async embed(text: string, options: EmbedOptions = {}): Promise<number[]> {
+    const model = this.genAI.getGenerativeModel({ model: this.modelName });
+
+    const result = await model.embedContent(this.toRequest(text, options.taskType, options.title));
+
+    // The embedding response structure varies by model
+    // For text-embedding-004: result.embedding.values
+    // For older models: result.embeddings (array)
+    let embedding: number[] | Float32Array | undefined;
+
+    if (result.embedding?.values) {
+      embedding = result.embedding.values;
+    } else {
+      // Fallback: check if result has embeddings property (for older API structure)
+      const resultAny = result as unknown as { embeddings?: number[][] };
+      if (resultAny.embeddings && resultAny.embeddings.length > 0) {
+        embedding = resultAny.embeddings[0];
+      }
+    }
+
+    if (!embedding || embedding.length === 0) {
+      throw new Error('Failed to generate embedding from Gemini API');
+    }
+
+    // Convert to array of numbers (handles Float32Array, regular arrays, etc.)
+    return Array.from(embedding);
+  }
+
+  async embedBatch(texts: string[], options: EmbedBatchOptions = {}): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const model = this.genAI.getGenerativeModel({ model: this.modelName });
+
+    const result = await model.batchEmbedContents({
+      requests: texts.map((text, i) => this.toRequest(text, options.taskType, options.titles?.[i])),
+    });
+
+    if (!result.embeddings || result.embeddings.length !== texts.length) {
+      throw new Error(
+        `Gemini batch embedding returned ${result.embeddings?.length ?? 0} embeddings for ${texts.length} texts`
+      );
+    }
+
+    return result.embeddings.map(embedding => Array.from(embedding.values));
+  }
+
+  /**
+   * Build an embed request with the Gemini task type (titles are only accepted for documents)
+   */
+  private toRequest(text: string, taskType?: EmbeddingTaskType, title?: string): EmbedContentRequest {
+    const request: EmbedContentRequest = {
+      content: { role: 'user', parts: [{ text }] },
+    };
+    if (taskType === 'retrieval_query') {
+      request.taskType = TaskType.RETRIEVAL_QUERY;
+    } else if (taskType === 'retrieval_document') {
+      request.taskType = TaskType.RETRIEVAL_DOCUMENT;
+      if (title) request.title = title;
+    }
+    return request;
+  }
+}
+
+/**
+ * OpenAI-compatible HTTP embedding provider
+ * Works with OpenAI, Azure-style proxies, Ollama, LM Studio, vLLM, etc.
+ * as long as they expose POST {baseUrl}/embeddings
+ * The `dimensions` parameter is only sent when OPENAI_EMBEDDING_DIMENSIONS is set:
+ * text-embedding-ada-002 and most self-hosted models reject it
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly modelName: string;
+  readonly dimension: number;
+  private baseUrl: string;
+  private apiKey?: string;
+  private requestDimensions: boolean;
+
+  /**
+   * @param dimension - Expected vector length (default: OPENAI_EMBEDDING_DIMENSIONS, else EmbeddingSettings.DIMENSION)
+   * @param requestDimensions - Ask the model for `dimension` dimensions (default: whether OPENAI_EMBEDDING_DIMENSIONS is set)
+   */
+  constructor(
+    baseUrl: string = process.env.OPENAI_EMBEDDING_BASE_URL || EmbeddingSettings.OPENAI_BASE_URL,
+    apiKey: string | undefined = process.env.OPENAI_API_KEY,
+    modelName: string = process.env.EMBEDDING_MODEL || EmbeddingSettings.OPENAI_MODEL_NAME,
+    dimension: number = getConfiguredOpenAIDimensions() ?? EmbeddingSettings.DIMENSION,
+    requestDimensions: boolean = getConfiguredOpenAIDimensions() !== undefined
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.modelName = modelName;
+    this.dimension = dimension;
+    this.requestDimensions = requestDimensions;
+  }
+
+  async embed(text: string, options: EmbedOptions = {}): Promise<number[]> {
+    const [embedding] = await this.request(this.withPrefix(text, options.taskType));
+
+    if (!embedding || embedding.length === 0) {
+      throw new Error('Failed to generate embedding from OpenAI-compatible API');
+    }
+
+    return embedding;
+  }
+
+  async embedBatch(texts: string[], options: EmbedBatchOptions = {}): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const embeddings = await this.request(texts.map(text => this.withPrefix(text, options.taskType)));
+    if (embeddings.length !== texts.length) {
+      throw new Error(
+        `OpenAI-compatible API returned ${embeddings.length} embeddings for ${texts.length} texts`
+      );
+    }
+    return embeddings;
+  }
+
+  /**
+   * Add the configured query/document prefix (e.g. "query: " / "passage: " for E5 models)
+   * The OpenAI API has no task types, so asymmetric models are instructed through the text
+   */
+  private withPrefix(text: string, taskType?: EmbeddingTaskType): string {
+    if (taskType === 'retrieval_query') return EmbeddingSettings.OPENAI_QUERY_PREFIX + text;
+    if (taskType === 'retrieval_document') return EmbeddingSettings.OPENAI_DOCUMENT_PREFIX + text;
+    return text;
+  }
+
+  /**
+   * POST to the /embeddings endpoint (input may be a string or an array)
+   */
+  private async request(input: string | string[]): Promise<number[][]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.modelName,
+        input,
+        // Otherwise the model's native size, checked against dimension by the caller
+        dimensions: this.requestDimensions ? this.dimension : undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw classifyHttpError(response.status, body, parseRetryAfter(response.headers.get('retry-after')));
+    }
+
+    const json = await response.json() as { data?: Array<{ embedding: number[]; index?: number }> };
+    const data = json.data || [];
+
+    // Responses carry an index per input; sort to preserve input order
+    return data
+      .slice()
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(entry => entry.embedding);
+  }
+}
+
+/**
+ * Deterministic local embedding provider
+ *
+ * Uses the hashing trick over word unigrams and character trigrams, so texts
+ * sharing vocabulary land close together. No network or API key required;
+ * the same text always produces the same vector (task types are ignored).
+ * Intended for development and CI, not for production-quality semantic recall.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly modelName: string;
+  readonly dimension: number;
+
+  constructor(
+    dimension: number = EmbeddingSettings.DIMENSION,
+    modelName: string = EmbeddingSettings.LOCAL_MODEL_NAME
+  ) {
+    this.dimension = dimension;
+    this.modelName = modelName;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array(this.dimension).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    for (const word of words) {
+      // Whole words carry more weight than their trigrams
+      this.addFeature(vector, `w:${word}`, 1.0);
+
+      const padded = `#${word}#`;
+      for (let i = 0; i <= padded.length - 3; i++) {
+        this.addFeature(vector, `t:${padded.substring(i, i + 3)}`, 0.5);
+      }
+    }
+
+    // L2-normalize so cosine distance behaves like real embeddings
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    if (norm === 0) {
+      return vector;
+    }
+    return vector.map(v => v / norm);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.embed(text)));
+  }
+
+  /**
+   * Hash a feature into a bucket with a sign bit (reduces collision bias)
+   */
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const index = hash % this.dimension;
+    const sign = (hash >>> 31) === 0 ? 1 : -1;
+    vector[index] += sign * weight;
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Dimensions to request from the OpenAI-compatible provider (OPENAI_EMBEDDING_DIMENSIONS), if configured
+ */
+function getConfiguredOpenAIDimensions(): number | undefined {
+  const dimensions = parseInt(process.env.OPENAI_EMBEDDING_DIMENSIONS || '');
+  return dimensions > 0 ? dimensions : undefined;
+}
+
+let activeProvider: EmbeddingProvider | null = null;
+
+/**
+ * Create a provider by name
+ * 
+ * @param name - Provider name ('gemini', 'openai' or 'local')
+ * @param modelName - Model override (default: the provider's configured model)
+ * @param dimension - Dimension override (default: EmbeddingSettings.DIMENSION)
+ */
+export function createEmbeddingProvider(name: string, modelName?: string, dimension?: number): EmbeddingProvider {
+  switch (name) {
+    case 'gemini':
+      return new GeminiEmbeddingProvider(undefined, modelName, dimension);
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider(undefined, undefined, modelName, dimension);
+    case 'local':
+      return new LocalHashEmbeddingProvider(dimension, modelName);
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+}
+
+/**
+ * Create the provider configured through the environment (EMBEDDING_PROVIDER)
+ */
+export function createConfiguredEmbeddingProvider(): EmbeddingProvider {
+  return createEmbeddingProvider(process.env.EMBEDDING_PROVIDER || EmbeddingSettings.PROVIDER);
+}
+
+/**
+ * Get the active embedding provider (created lazily, then reused)
+ * Defaults to the configured provider; replaced with setEmbeddingProvider when
+ * the database records a different active model (see shadowEmbeddingService.ts)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!activeProvider) {
+    activeProvider = createConfiguredEmbeddingProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Override the active provider (useful for scripts and tests)
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider): void {
+  activeProvider = provider;
+}
@@ -1,53 +1,177 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import * as dotenv from 'dotenv';
-import { EmbeddingSettings, MediaMatchingSettings } from '../config/vectordb.settings';
+import { EmbeddingSettings, MediaMatchingSettings, PerformanceSettings } from '../config/vectordb.settings';
 import { MediaItem, MediaType } from '../entities/MediaItem';
+import { EmbeddingField } from '../entities/MediaFieldEmbedding';
 import { 
   extractFileMetadata, 
   generateEnhancedTextForMedia,
   extractMediaKeywords 
 } from './mediaMetadata';
 import { getOrGenerateTranscription } from './transcription';
+import { EmbeddingProvider, EmbedOptions, EmbedBatchOptions, getEmbeddingProvider } from './embeddingProviders';
+import { EmbeddingError, classifyEmbeddingError } from './embeddingErrors';
+import { CircuitBreaker, CircuitBreakerStatus } from './circuitBreaker';
 
 dotenv.config();
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+// One circuit breaker per provider model, so a failing shadow model does not block searches
+const circuitBreakers = new Map<string, CircuitBreaker>();
 
-export async function generateEmbedding(text: string): Promise<number[]> {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY is not set in environment variables');
+function getCircuitBreaker(provider: EmbeddingProvider): CircuitBreaker {
+  const key = `${provider.name}:${provider.modelName}`;
+  let breaker = circuitBreakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(
+      EmbeddingSettings.CIRCUIT_FAILURE_THRESHOLD,
+      EmbeddingSettings.CIRCUIT_RESET_TIMEOUT
+    );
+    circuitBreakers.set(key, breaker);
   }
+  return breaker;
+}
 
-  try {
-    // Use the embedding model from settings
-    // It produces 768-dimensional vectors (from EmbeddingSettings.DIMENSION)
-    const model = genAI.getGenerativeModel({ model: EmbeddingSettings.MODEL_NAME });
-    
-    const result = await model.embedContent(text);
-    
-    // The embedding response structure varies by model
-    // For text-embedding-004: result.embedding.values
-    // For older models: result.embeddings (array)
-    let embedding: number[] | Float32Array | undefined;
-    
-    if (result.embedding?.values) {
-      embedding = result.embedding.values;
-    } else {
-      // Fallback: check if result has embeddings property (for older API structure)
-      const resultAny = result as unknown as { embeddings?: number[][] };
-      if (resultAny.embeddings && resultAny.embeddings.length > 0) {
-        embedding = resultAny.embeddings[0];
+/**
+ * Get the circuit breaker state for a provider (default: the active provider)
+ */
+export function getEmbeddingCircuitStatus(
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): CircuitBreakerStatus {
+  return getCircuitBreaker(provider).getStatus();
+}
+
+/**
+ * Call the provider with retries and the circuit breaker
+ * - rate_limit / unavailable errors are retried with exponential backoff and full
+ *   jitter, or after the provider's Retry-After when it fits in RETRY_MAX_DELAY
+ * - other errors are thrown immediately
+ * - when the circuit is open, fails fast with an EmbeddingError of kind circuit_open
+ * - a half-open trial is not retried: its failure reopens the circuit right away
+ * - best-effort calls (optional extras such as snippets) are tried once, only while the
+ *   circuit is closed, and are not recorded, so they can never open the circuit for searches
+ */
+async function callProvider<T>(provider: EmbeddingProvider, call: () => Promise<T>, bestEffort: boolean = false): Promise<T> {
+  const breaker = getCircuitBreaker(provider);
+
+  if (bestEffort) {
+    if (breaker.getState() !== 'closed') {
+      throw new EmbeddingError(
+        'circuit_open',
+        `Embedding provider "${provider.name}" (${provider.modelName}) is recovering; skipping a best-effort call`,
+        undefined,
+        breaker.getRetryAfterMs()
+      );
+    }
+    return await call();
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    if (!breaker.canRequest()) {
+      const retryAfterMs = breaker.getRetryAfterMs();
+      throw new EmbeddingError(
+        'circuit_open',
+        `Embedding provider "${provider.name}" (${provider.modelName}) is unavailable after repeated failures; ` +
+        `retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+        undefined,
+        retryAfterMs
+      );
+    }
+
+    const trial = breaker.getState() === 'half_open';
+    try {
+      const result = await call();
+      breaker.recordSuccess();
+      return result;
+    } catch (rawError) {
+      const error = classifyEmbeddingError(rawError);
+      if (error.kind === 'invalid_input') {
+        // The provider answered; the request itself was bad
+        breaker.recordSuccess();
+        throw error;
+      }
+      if (!error.providerFailure) {
+        // Says nothing about the provider: neither close nor reopen the circuit
+        breaker.releaseTrial();
+        throw error;
+      }
+
+      const backoff = Math.random() * Math.min(
+        EmbeddingSettings.RETRY_MAX_DELAY,
+        EmbeddingSettings.RETRY_BASE_DELAY * Math.pow(2, attempt)
+      );
+      const delay = error.retryAfterMs ?? backoff;
+
+      if (trial || !error.retryable || attempt >= EmbeddingSettings.MAX_RETRIES || delay > EmbeddingSettings.RETRY_MAX_DELAY) {
+        breaker.recordFailure(error.retryAfterMs);
+        throw error;
       }
+
+      console.warn(`⚠ Embedding ${error.kind} (attempt ${attempt + 1}), retrying in ${Math.round(delay)}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
     }
+  }
+}
+
+/**
+ * Generate an embedding using the active provider, or the given one
+ * (see utils/embeddingProviders.ts)
+ * Errors are thrown as classified EmbeddingErrors (see utils/embeddingErrors.ts)
+ */
+export async function generateEmbedding(
+  text: string,
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+  options: EmbedOptions = {}
+): Promise<number[]> {
+  try {
+    const embedding = await callProvider(provider, () => provider.embed(text, options));
 
-    if (!embedding || embedding.length === 0) {
-      throw new Error('Failed to generate embedding from Gemini API');
+    if (embedding.length !== provider.dimension) {
+      throw new Error(
+        `Embedding provider "${provider.name}" returned ${embedding.length} dimensions, expected ${provider.dimension}`
+      );
     }
 
-    // Convert to array of numbers (handles Float32Array, regular arrays, etc.)
-    return Array.from(embedding);
+    return embedding;
   } catch (error) {
-    console.error('Error generating embedding:', error);
+    console.error('Error generating embedding:', error instanceof Error ? error.message : error);
+    throw error;
+  }
+}
+
+/**
+ * Generate embeddings for several texts with as few provider calls as possible
+ * Texts are sent in chunks of PerformanceSettings.BATCH_SIZE; output order matches input
+ * @param bestEffort - No retries and no circuit breaker accounting (see callProvider)
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+  options: EmbedBatchOptions = {},
+  bestEffort: boolean = false
+): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  try {
+    for (let i = 0; i < texts.length; i += PerformanceSettings.BATCH_SIZE) {
+      const chunk = texts.slice(i, i + PerformanceSettings.BATCH_SIZE);
+      const chunkOptions: EmbedBatchOptions = {
+        taskType: options.taskType,
+        titles: options.titles?.slice(i, i + PerformanceSettings.BATCH_SIZE),
+      };
+      const chunkEmbeddings = await callProvider(provider, () => provider.embedBatch(chunk, chunkOptions), bestEffort);
+
+      for (const embedding of chunkEmbeddings) {
+        if (embedding.length !== provider.dimension) {
+          throw new Error(
+            `Embedding provider "${provider.name}" returned ${embedding.length} dimensions, expected ${provider.dimension}`
+          );
+        }
+      }
+      embeddings.push(...chunkEmbeddings);
+    }
+
+    return embeddings;
+  } catch (error) {
+    console.error('Error generating batch embeddings:', error instanceof Error ? error.message : error);
     throw error;
   }
 }
@@ -69,7 +193,8 @@ export async function prepareTextForEmbedding(
 ): Promise<string> {
   // For audio/video items, use enhanced text preparation
   if (item && (item.type === MediaType.AUDIO || item.type === MediaType.VIDEO)) {
-    return await prepareEnhancedTextForMedia(item, title, description, content);
+    const fields = await prepareFieldTextsForEmbedding(item, title, description, content);
+    return joinFieldTexts(fields);
   }
 
   // For other types, use simple concatenation
@@ -81,28 +206,45 @@ export async function prepareTextForEmbedding(
 }
 
 /**
- * Prepare enhanced text for audio/video media items
- * Includes metadata, transcription, and contextual information
+ * Prepare the text of each embedded field of an item (see MediaFieldEmbedding)
+ * Joined with joinFieldTexts, the fields give the same text as prepareTextForEmbedding
+ *
+ * @returns Text per field (empty string when the field has no text)
  */
-async function prepareEnhancedTextForMedia(
+export async function prepareFieldTextsForEmbedding(
   item: MediaItem,
   title?: string,
   description?: string,
   content?: string
-): Promise<string> {
-  const parts: string[] = [];
+): Promise<Record<EmbeddingField, string>> {
+  const itemTitle = title || item.title || '';
+  const itemDescription = description || item.description || '';
 
-  // Use provided title or item title
-  const itemTitle = title || item.title;
-  if (itemTitle) {
-    parts.push(itemTitle);
-  }
+  const body = item.type === MediaType.AUDIO || item.type === MediaType.VIDEO
+    ? await prepareEnhancedBodyForMedia(item, itemTitle, itemDescription, content)
+    : content || item.content || '';
 
-  // Use provided description or item description
-  const itemDescription = description || item.description;
-  if (itemDescription) {
-    parts.push(itemDescription);
-  }
+  return { title: itemTitle, description: itemDescription, body };
+}
+
+/**
+ * Join field texts into the text of the combined item vector
+ */
+export function joinFieldTexts(fields: Record<EmbeddingField, string>): string {
+  return [fields.title, fields.description, fields.body].filter(text => text).join(' ');
+}
+
+/**
+ * Prepare the body text of audio/video media items
+ * Includes metadata, transcription, and contextual information
+ */
+async function prepareEnhancedBodyForMedia(
+  item: MediaItem,
+  itemTitle: string,
+  itemDescription: string,
+  content?: string
+): Promise<string> {
+  const parts: string[] = [];
 
   // Extract metadata if enabled (works for both file paths and URLs)
   let metadata;
@@ -119,14 +261,19 @@ async function prepareEnhancedTextForMedia(
     }
   }
 
+  // Stored with the embedding (duration facet and filter)
+  if (metadata?.duration) {
+    item.duration = metadata.duration;
+  }
+
   // Generate enhanced text with metadata
   if (MediaMatchingSettings.INCLUDE_METADATA_IN_EMBEDDINGS && metadata) {
     const enhancedText = generateEnhancedTextForMedia(item, metadata);
     // Add enhanced text (but avoid duplicating title/description)
     const enhancedParts = enhancedText.split(' ').filter(part => {
       const partLower = part.toLowerCase();
-      return !itemTitle?.toLowerCase().includes(partLower) && 
-             !itemDescription?.toLowerCase().includes(partLower);
+      return !itemTitle.toLowerCase().includes(partLower) && 
+             !itemDescription.toLowerCase().includes(partLower);
     });
     parts.push(...enhancedParts);
   }
@@ -123,22 +123,63 @@ export function findFuzzyMatches(text: string, query: string, threshold: number
   
   // Try matching query against sliding windows of text
   for (let i = 0; i <= words.length - queryWords.length; i++) {
+    const position = currentPos;
+    currentPos += words[i].length;
+
+    // Windows start at a word, so position is the offset of the window's first character
+    if (words[i].trim() === '') continue;
+
     const window = words.slice(i, i + queryWords.length * 2).join('').trim();
-    if (window.length === 0) continue;
-    
     const score = fuzzyMatch(window, queryLower, threshold);
     if (score > 0) {
       matches.push({
         score,
         matchedText: window.substring(0, 100), // Limit length
-        position: currentPos
+        position
       });
     }
-    
-    currentPos += words[i].length;
   }
   
   // Sort by score descending
   return matches.sort((a, b) => b.score - a.score);
 }
 
+/**
+ * Find the words of a text that match any of the given terms
+ * A word matches exactly, by prefix, or with a fuzzy similarity of at least threshold
+ * @returns Character spans of the matching words (end exclusive), in text order
+ */
+export function findWordMatches(text: string, terms: string[], threshold: number = 0.75): Array<{
+  start: number;
+  end: number;
+  score: number;
+}> {
+  const spans: Array<{ start: number; end: number; score: number }> = [];
+  const termsLower = terms.map(term => term.toLowerCase()).filter(term => term.length > 0);
+  if (termsLower.length === 0) return spans;
+
+  for (const match of text.matchAll(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu)) {
+    const word = match[0].toLowerCase();
+    let bestScore = 0;
+    for (const term of termsLower) {
+      if (word === term) {
+        bestScore = 1.0;
+        break;
+      }
+      if (term.length >= 3 && word.startsWith(term)) {
+        bestScore = Math.max(bestScore, 0.9);
+      }
+      const similarity = fuzzySimilarity(term, word);
+      if (similarity >= threshold) {
+        bestScore = Math.max(bestScore, similarity);
+      }
+    }
+
+    if (bestScore > 0) {
+      spans.push({ start: match.index!, end: match.index! + match[0].length, score: bestScore });
+    }
+  }
+
+  return spans;
+}
+
@@ -0,0 +1,45 @@
+/**
+ * Minimal in-process LRU cache with optional per-entry TTL
+ * Relies on Map preserving insertion order: the first key is the least recently used
+ */
+export class LRUCache<K, V> {
+  private entries = new Map<K, { value: V; expiresAt: number }>();
+
+  constructor(
+    private maxEntries: number,
+    private ttlMs: number = 0 // 0 = never expire
+  ) {}
+
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (this.ttlMs > 0 && entry.expiresAt < Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move to most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: K, value: V): void {
+    if (this.entries.has(key)) {
+      this.entries.delete(key);
+    } else if (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as K;
+      this.entries.delete(oldestKey);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
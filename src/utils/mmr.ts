@@ -0,0 +1,112 @@
+/**
+ * Maximal Marginal Relevance (MMR)
+ * Re-ranks candidates so that each next result is relevant to the query but
+ * unlike the results already picked:
+ *
+ *   mmr = lambda * relevance - (1 - lambda) * max(similarity to picked results)
+ *
+ * lambda = 1 keeps the relevance order; lower values favor distinct content
+ * (re-uploads and episodes sharing a description stop crowding the top).
+ */
+
+import { MMRSettings } from '../config/vectordb.settings';
+
+/**
+ * Validate an MMR option from a request
+ * @param input - true for MMRSettings.DEFAULT_LAMBDA, or lambda between 0 and 1 (number or numeric string)
+ * @returns Lambda, undefined when MMR is not requested, or null if the input is not valid
+ */
+export function normalizeMMRLambda(input: unknown): number | undefined | null {
+  if (input === undefined || input === null || input === '' || input === false || input === 'false') return undefined;
+  if (input === true || input === 'true') return MMRSettings.DEFAULT_LAMBDA;
+
+  const lambda = typeof input === 'number' ? input : typeof input === 'string' ? Number(input) : NaN;
+  return !isNaN(lambda) && lambda >= 0 && lambda <= 1 ? lambda : null;
+}
+
+/**
+ * Re-rank candidates by maximal marginal relevance
+ * Candidates without a usable vector count as unlike every other candidate.
+ *
+ * @param candidates - Candidates to choose from
+ * @param lambda - Relevance/diversity trade-off (0-1)
+ * @param limit - Number of candidates to pick (default: all)
+ * @param relevance - Relevance of a candidate to the query
+ * @param embedding - Vector of a candidate ("[1,2,3]" as stored, or numbers)
+ * @returns Picked candidates in MMR order, each with the MMR score it was picked with
+ */
+export function diversify<T>(
+  candidates: T[],
+  lambda: number,
+  limit: number = candidates.length,
+  relevance: (candidate: T) => number,
+  embedding: (candidate: T) => string | number[] | null | undefined
+): Array<T & { mmrScore: number }> {
+  const pool = candidates.map(candidate => ({
+    candidate,
+    relevance: relevance(candidate),
+    vector: normalize(parseVector(embedding(candidate))),
+    maxSimilarity: 0, // To the picked candidates
+  }));
+
+  const picked: Array<T & { mmrScore: number }> = [];
+  while (picked.length < limit && pool.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    for (let i = 0; i < pool.length; i++) {
+      const score = lambda * pool[i].relevance - (1 - lambda) * pool[i].maxSimilarity;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    }
+
+    const [best] = pool.splice(bestIndex, 1);
+    picked.push({ ...best.candidate, mmrScore: bestScore });
+
+    // Only the newly picked vector can raise the other candidates' max similarity
+    if (best.vector) {
+      for (const entry of pool) {
+        if (entry.vector) {
+          entry.maxSimilarity = Math.max(entry.maxSimilarity, dot(entry.vector, best.vector));
+        }
+      }
+    }
+  }
+  return picked;
+}
+
+/**
+ * Candidates allowed into an MMR pool: the MMRSettings.MAX_CANDIDATES most relevant
+ */
+export function takeMMRPool<T>(candidates: T[], relevance: (candidate: T) => number): T[] {
+  return [...candidates]
+    .sort((a, b) => relevance(b) - relevance(a))
+    .slice(0, MMRSettings.MAX_CANDIDATES);
+}
+
+function parseVector(value: string | number[] | null | undefined): number[] | null {
+  if (Array.isArray(value)) return value;
+  if (typeof value !== 'string' || !value.startsWith('[')) return null;
+  try {
+    const vector = JSON.parse(value);
+    return Array.isArray(vector) ? vector : null;
+  } catch {
+    return null;
+  }
+}
+
+function normalize(vector: number[] | null): number[] | null {
+  if (!vector) return null;
+  const norm = Math.sqrt(dot(vector, vector));
+  return norm > 0 ? vector.map(value => value / norm) : null;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
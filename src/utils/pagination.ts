@@ -0,0 +1,132 @@
+/**
+ * Pagination Utilities
+ * Opaque cursors for keyset pagination: the listing pages by (createdAt, id),
+ * search results by (score, id) so ties never repeat or skip an item
+ */
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Position after the last item of a listing page
+ */
+export interface ListingCursor {
+  createdAt: string; // Full-precision timestamp as returned by postgres
+  id: string;
+}
+
+/**
+ * Position after the last result of a search page
+ */
+export interface ScoreCursor {
+  score: number;
+  id: string;
+  asOf?: string; // Reference time of time-dependent scores (recency boost), kept across pages
+}
+
+/**
+ * One page of search results
+ */
+export interface SearchPage<T> {
+  results: T[];
+  total: number; // Results across all pages
+  nextCursor: string | null; // Pass back as cursor for the next page (null: last page)
+}
+
+/**
+ * Invalid cursor input (reported to clients as 400)
+ */
+export class CursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CursorError';
+  }
+}
+
+/**
+ * Encode a cursor position as an opaque URL-safe string
+ */
+export function encodeCursor(position: ListingCursor | ScoreCursor): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Decode a listing cursor
+ * @throws CursorError when the cursor is not a listing cursor
+ */
+export function decodeListingCursor(cursor?: string): ListingCursor | undefined {
+  if (cursor === undefined || cursor === null || cursor === '') return undefined;
+  const position = decode(cursor);
+  if (
+    typeof position.createdAt !== 'string' || isNaN(Date.parse(position.createdAt)) ||
+    typeof position.id !== 'string' || !UUID_PATTERN.test(position.id)
+  ) {
+    throw new CursorError('cursor does not belong to this listing');
+  }
+  return { createdAt: position.createdAt, id: position.id };
+}
+
+/**
+ * Decode a search cursor
+ * @throws CursorError when the cursor is not a search cursor
+ */
+export function decodeScoreCursor(cursor?: string): ScoreCursor | undefined {
+  if (cursor === undefined || cursor === null || cursor === '') return undefined;
+  const position = decode(cursor);
+  if (
+    typeof position.score !== 'number' || typeof position.id !== 'string' ||
+    (position.asOf !== undefined && (typeof position.asOf !== 'string' || isNaN(Date.parse(position.asOf))))
+  ) {
+    throw new CursorError('cursor does not belong to a search');
+  }
+  return position.asOf === undefined
+    ? { score: position.score, id: position.id }
+    : { score: position.score, id: position.id, asOf: position.asOf as string };
+}
+
+/**
+ * Take one page from ranked results, ordered by score (descending) then id
+ * @param results - All ranked results of the search
+ * @param limit - Page size
+ * @param cursor - nextCursor of the previous page (omit for the first page)
+ * @param key - Score and id of a result
+ * @throws CursorError when the cursor is invalid
+ */
+export function paginateByScore<T>(
+  results: T[],
+  limit: number,
+  cursor: string | undefined,
+  key: (result: T) => ScoreCursor
+): SearchPage<T> {
+  const after = decodeScoreCursor(cursor);
+  const sorted = [...results].sort((a, b) => {
+    const keyA = key(a);
+    const keyB = key(b);
+    return keyB.score - keyA.score || (keyA.id < keyB.id ? -1 : keyA.id > keyB.id ? 1 : 0);
+  });
+
+  const remaining = after
+    ? sorted.filter(result => {
+        const position = key(result);
+        return position.score < after.score || (position.score === after.score && position.id > after.id);
+      })
+    : sorted;
+  const page = remaining.slice(0, limit);
+
+  return {
+    results: page,
+    total: results.length,
+    nextCursor: remaining.length > limit && page.length > 0 ? encodeCursor(key(page[page.length - 1])) : null,
+  };
+}
+
+function decode(cursor: string): Record<string, unknown> {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (position && typeof position === 'object' && !Array.isArray(position)) {
+      return position;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new CursorError('cursor is not valid');
+}
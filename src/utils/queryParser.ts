@@ -0,0 +1,119 @@
+/**
+ * Search Query Parser
+ * Splits a typed query into free text (what gets embedded or matched) and
+ * constraints: inline filters, "quoted phrases" that must appear and
+ * -excluded terms that must not
+ *
+ *   podcast about rust type:audio after:2024-01-01 -beginner "memory safety"
+ *   → text "podcast about rust", filters { type: [audio], createdAfter: 2024-01-01 },
+ *     phrases ["memory safety"], excludedTerms ["beginner"]
+ */
+
+import { SearchFilters, SearchFilterError, parseSearchFilters } from './searchFilters';
+
+/**
+ * Inline filter operators and the SearchFilters key they set
+ */
+const QUERY_OPERATORS = {
+  type: 'type',
+  mime: 'mimeType',
+  platform: 'platform',
+  after: 'createdAfter',
+  before: 'createdBefore',
+} as const;
+
+type QueryOperator = keyof typeof QUERY_OPERATORS;
+
+/**
+ * Parsed search query
+ */
+export interface ParsedQuery {
+  text: string; // Free text, without operators, phrases and exclusions
+  phrases: string[]; // "Quoted" phrases that must appear
+  excludedTerms: string[]; // -terms and -"phrases" that must not appear
+  filters: SearchFilters; // Filters from inline operators
+}
+
+// -? then an optional operator name, then a quoted or bare value
+const TOKEN_PATTERN = /(-?)(?:([a-zA-Z]+):)?(?:"([^"]*)"|(\S+))/g;
+
+/**
+ * Parse a search query
+ * Lists can be given as type:audio,video or by repeating the operator.
+ * Unknown operators (e.g. c:drive) are kept as free text.
+ *
+ * @throws SearchFilterError when an operator value is invalid or an operator is negated
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const words: string[] = [];
+  const phrases: string[] = [];
+  const excludedTerms: string[] = [];
+  const operatorValues: Partial<Record<QueryOperator, string[]>> = {};
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [token, negation, name, quoted, bare] = match;
+    const operator = name?.toLowerCase() as QueryOperator | undefined;
+    const value = quoted ?? bare.replace(/"/g, '');
+
+    if (operator && Object.prototype.hasOwnProperty.call(QUERY_OPERATORS, operator)) {
+      if (negation) {
+        throw new SearchFilterError(`Negated filters are not supported: ${token}`);
+      }
+      if (value.trim() !== '') {
+        (operatorValues[operator] ??= []).push(...value.split(','));
+      }
+    } else if (name) {
+      // Not an operator: keep "name:value" as it was typed
+      const text = `${name}:${value}`;
+      (negation ? excludedTerms : words).push(text);
+    } else if (quoted !== undefined) {
+      if (quoted.trim() !== '') {
+        (negation ? excludedTerms : phrases).push(quoted.trim());
+      }
+    } else if (value !== '') {
+      (negation ? excludedTerms : words).push(value);
+    }
+  }
+
+  // Validate operator values like body filters (single dates, lists otherwise)
+  const raw: Record<string, unknown> = {};
+  for (const [operator, values] of Object.entries(operatorValues) as Array<[QueryOperator, string[]]>) {
+    const key = QUERY_OPERATORS[operator];
+    raw[key] = key === 'createdAfter' || key === 'createdBefore' ? values[values.length - 1] : values;
+  }
+
+  return {
+    text: words.join(' '),
+    phrases,
+    excludedTerms,
+    filters: parseSearchFilters(raw),
+  };
+}
+
+/**
+ * Text to embed or match for a parsed query: the free text, or the phrases
+ * when the query has nothing else
+ * @throws SearchFilterError when the query has no text at all
+ */
+export function getSearchText(parsed: ParsedQuery): string {
+  const text = parsed.text.trim() !== '' ? parsed.text : parsed.phrases.join(' ');
+  if (text.trim() === '') {
+    throw new SearchFilterError('Search query needs some text besides filters and exclusions');
+  }
+  return text;
+}
+
+/**
+ * Combine request filters with the constraints of a parsed query
+ * Inline operators override the same request filter; phrases and exclusions are added.
+ */
+export function applyParsedQuery(filters: SearchFilters, parsed: ParsedQuery): SearchFilters {
+  const combined: SearchFilters = { ...filters, ...parsed.filters };
+  if (parsed.phrases.length > 0) {
+    combined.mustContain = [...(filters.mustContain ?? []), ...parsed.phrases];
+  }
+  if (parsed.excludedTerms.length > 0) {
+    combined.mustNotContain = [...(filters.mustNotContain ?? []), ...parsed.excludedTerms];
+  }
+  return combined;
+}
@@ -0,0 +1,198 @@
+/**
+ * Rerankers
+ *
+ * Pluggable second stage for semantic search: after vector retrieval, the
+ * candidates are scored again against the query. The default reranker is
+ * selected by the RERANKER environment variable (falls back to
+ * RerankerSettings.DEFAULT_RERANKER) and can be overridden per request:
+ * - none:          keeps the relevance order
+ * - bm25:          lexical BM25 over the candidate set, blended with relevance
+ * - cross-encoder: HTTP cross-encoder endpoint (CROSS_ENCODER_URL)
+ */
+
+import * as dotenv from 'dotenv';
+import { RerankerSettings } from '../config/vectordb.settings';
+
+dotenv.config();
+
+/**
+ * Supported reranker names
+ */
+export type RerankerName = 'none' | 'bm25' | 'cross-encoder';
+
+export const RERANKER_NAMES: readonly RerankerName[] = ['none', 'bm25', 'cross-encoder'];
+
+/**
+ * Candidate to rerank
+ */
+export interface RerankDocument {
+  text: string; // Title, description and content
+  score: number; // Score from retrieval (relevance)
+}
+
+/**
+ * Common interface implemented by every reranker
+ */
+export interface Reranker {
+  /** Reranker identifier */
+  readonly name: RerankerName;
+  /** Score documents against a query (same order as input, higher is more relevant) */
+  rerank(query: string, documents: RerankDocument[]): Promise<number[]>;
+}
+
+/**
+ * Reranker that keeps the retrieval scores
+ */
+export class NoopReranker implements Reranker {
+  readonly name = 'none' as const;
+
+  async rerank(_query: string, documents: RerankDocument[]): Promise<number[]> {
+    return documents.map(document => document.score);
+  }
+}
+
+/**
+ * Lexical BM25 reranker
+ *
+ * Term statistics come from the candidate set itself, so it needs no index.
+ * BM25 is normalized by the best candidate's score and blended with the
+ * retrieval score (RerankerSettings.BM25_WEIGHT), so candidates without any
+ * query word keep their semantic order instead of all tying at zero.
+ */
+export class BM25Reranker implements Reranker {
+  readonly name = 'bm25' as const;
+
+  constructor(
+    private k1: number = RerankerSettings.BM25_K1,
+    private b: number = RerankerSettings.BM25_B,
+    private weight: number = RerankerSettings.BM25_WEIGHT
+  ) {}
+
+  async rerank(query: string, documents: RerankDocument[]): Promise<number[]> {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || documents.length === 0) {
+      return documents.map(document => document.score);
+    }
+
+    const termCounts = documents.map(document => {
+      const counts = new Map<string, number>();
+      const tokens = tokenize(document.text);
+      for (const token of tokens) {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+      }
+      return { counts, length: tokens.length };
+    });
+    const averageLength = termCounts.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+
+    // Documents containing each query term
+    const documentFrequency = new Map<string, number>();
+    for (const term of queryTerms) {
+      documentFrequency.set(term, termCounts.filter(doc => doc.counts.has(term)).length);
+    }
+
+    const bm25 = termCounts.map(doc => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = doc.counts.get(term) ?? 0;
+        if (frequency === 0) continue;
+        const df = documentFrequency.get(term)!;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + this.b * doc.length / averageLength));
+      }
+      return score;
+    });
+
+    const best = Math.max(...bm25);
+    return documents.map((document, i) =>
+      this.weight * (best > 0 ? bm25[i] / best : 0) + (1 - this.weight) * document.score
+    );
+  }
+}
+
+/**
+ * Cross-encoder reranker served over HTTP
+ * Accepts Cohere/Jina-style ({ results: [{ index, relevance_score }] }) and
+ * text-embeddings-inference-style ([{ index, score }]) responses
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly name = 'cross-encoder' as const;
+
+  constructor(
+    private url: string = process.env.CROSS_ENCODER_URL || RerankerSettings.CROSS_ENCODER_URL,
+    private model: string = process.env.CROSS_ENCODER_MODEL || RerankerSettings.CROSS_ENCODER_MODEL,
+    private timeoutMs: number = RerankerSettings.CROSS_ENCODER_TIMEOUT
+  ) {}
+
+  async rerank(query: string, documents: RerankDocument[]): Promise<number[]> {
+    if (documents.length === 0) return [];
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.model,
+        query,
+        documents: documents.map(document => document.text),
+        texts: documents.map(document => document.text), // text-embeddings-inference name
+        top_n: documents.length,
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Rerank request failed with status ${response.status}: ${body}`);
+    }
+
+    const json = await response.json() as
+      | { results?: Array<{ index: number; relevance_score?: number; score?: number }> }
+      | Array<{ index: number; score?: number; relevance_score?: number }>;
+    const entries = Array.isArray(json) ? json : json.results ?? [];
+
+    // Responses are sorted by score; put the scores back in input order
+    const scores = new Array<number>(documents.length).fill(NaN);
+    for (const entry of entries) {
+      scores[entry.index] = entry.relevance_score ?? entry.score ?? NaN;
+    }
+    if (scores.some(score => typeof score !== 'number' || isNaN(score))) {
+      throw new Error('Rerank response does not score every document');
+    }
+    return scores;
+  }
+}
+
+/**
+ * Check whether a value names a reranker
+ */
+export function isRerankerName(name: unknown): name is RerankerName {
+  return RERANKER_NAMES.includes(name as RerankerName);
+}
+
+/**
+ * Create a reranker by name
+ */
+export function createReranker(name: RerankerName): Reranker {
+  switch (name) {
+    case 'bm25':
+      return new BM25Reranker();
+    case 'cross-encoder':
+      return new CrossEncoderReranker();
+    case 'none':
+      return new NoopReranker();
+    default:
+      throw new Error(`Unknown reranker: ${name}`);
+  }
+}
+
+/**
+ * Name of the reranker used when a request does not choose one (RERANKER)
+ */
+export function getDefaultRerankerName(): RerankerName {
+  const configured = process.env.RERANKER || RerankerSettings.DEFAULT_RERANKER;
+  return isRerankerName(configured) ? configured : 'none';
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
@@ -0,0 +1,101 @@
+/**
+ * Vector Arithmetic (Rocchio)
+ * Builds one query vector from positive and negative examples:
+ *
+ *   query = a * mean(positive texts) + b * mean(positive items)
+ *         - c * mean(negative items) - d * mean(negative texts)
+ *
+ * so a search can ask for "like these, but not like those" or
+ * "like this item, but about X". Every vector is unit-normalized before
+ * averaging, so long and short documents weigh the same.
+ */
+
+import { RocchioSettings } from '../config/vectordb.settings';
+
+/**
+ * Weights of the four example groups
+ */
+export interface RocchioWeights {
+  positiveText: number;
+  positiveItems: number;
+  negativeItems: number;
+  negativeText: number;
+}
+
+/**
+ * Vectors of the examples, by group (a group may be empty)
+ */
+export interface RocchioExampleVectors {
+  positiveText: number[][];
+  positiveItems: number[][];
+  negativeItems: number[][];
+  negativeText: number[][];
+}
+
+const WEIGHT_KEYS: readonly (keyof RocchioWeights)[] = ['positiveText', 'positiveItems', 'negativeItems', 'negativeText'];
+
+/**
+ * Weights from RocchioSettings
+ */
+export function getDefaultRocchioWeights(): RocchioWeights {
+  return {
+    positiveText: RocchioSettings.POSITIVE_TEXT_WEIGHT,
+    positiveItems: RocchioSettings.POSITIVE_ITEM_WEIGHT,
+    negativeItems: RocchioSettings.NEGATIVE_ITEM_WEIGHT,
+    negativeText: RocchioSettings.NEGATIVE_TEXT_WEIGHT,
+  };
+}
+
+/**
+ * Validate weights from a request (missing keys keep their RocchioSettings default)
+ * @returns Weights, or null if the input is not an object of non-negative numbers
+ */
+export function normalizeRocchioWeights(input: unknown): RocchioWeights | null {
+  const weights = getDefaultRocchioWeights();
+  if (input === undefined || input === null) return weights;
+  if (typeof input !== 'object' || Array.isArray(input)) return null;
+
+  const raw = input as Record<string, unknown>;
+  for (const key of Object.keys(raw)) {
+    const weight = raw[key];
+    if (!WEIGHT_KEYS.includes(key as keyof RocchioWeights) || typeof weight !== 'number' || !(weight >= 0)) {
+      return null;
+    }
+    weights[key as keyof RocchioWeights] = weight;
+  }
+  return weights;
+}
+
+/**
+ * Combine example vectors into a unit-length query vector
+ * @returns Query vector, or null when the positive examples carry no weight
+ * or the negatives cancel them out
+ */
+export function buildRocchioVector(examples: RocchioExampleVectors, weights: RocchioWeights): number[] | null {
+  const positive = weights.positiveText * examples.positiveText.length + weights.positiveItems * examples.positiveItems.length;
+  if (positive === 0) return null;
+
+  const dimension = [...examples.positiveText, ...examples.positiveItems][0].length;
+  const query = new Array<number>(dimension).fill(0);
+  const terms: Array<[number[][], number]> = [
+    [examples.positiveText, weights.positiveText],
+    [examples.positiveItems, weights.positiveItems],
+    [examples.negativeItems, -weights.negativeItems],
+    [examples.negativeText, -weights.negativeText],
+  ];
+  for (const [vectors, weight] of terms) {
+    if (vectors.length === 0 || weight === 0) continue;
+    for (const vector of vectors) {
+      if (vector.length !== dimension) {
+        throw new Error(`Example vectors have different dimensions (${vector.length} and ${dimension})`);
+      }
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      for (let i = 0; i < dimension; i++) {
+        query[i] += weight * vector[i] / norm / vectors.length;
+      }
+    }
+  }
+
+  const norm = Math.sqrt(query.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? query.map(value => value / norm) : null;
+}
@@ -0,0 +1,238 @@
+/**
+ * Search Filter Utilities
+ * Structured metadata filters shared by every search and recommendation route,
+ * compiled to SQL conditions so they apply before the vector ORDER BY ... LIMIT
+ */
+
+import { MediaType } from '../entities/MediaItem';
+
+/**
+ * URL platforms that can be filtered on (postgres regular expressions matched against MediaItem.url)
+ */
+export const URL_PLATFORM_PATTERNS = {
+  youtube: '(youtube\\.com|youtu\\.be)/',
+  vimeo: 'vimeo\\.com/',
+  dailymotion: '(dailymotion\\.com|dai\\.ly)/',
+  tiktok: 'tiktok\\.com/',
+  instagram: 'instagram\\.com/',
+} as const;
+
+export type UrlPlatform = keyof typeof URL_PLATFORM_PATTERNS;
+
+/**
+ * Duration buckets that can be filtered on (longest duration in seconds, inclusive; null: unbounded)
+ */
+export const DURATION_BUCKETS = {
+  short: 300, // Up to 5 minutes
+  medium: 1800, // Up to 30 minutes
+  long: null,
+} as const;
+
+export type DurationBucket = keyof typeof DURATION_BUCKETS;
+
+/**
+ * Metadata filters (all given conditions must match)
+ */
+export interface SearchFilters {
+  type?: MediaType[]; // Any of these media types
+  mimeType?: string[]; // Any of these MIME types; "audio/*" matches a whole family
+  createdAfter?: Date; // Inclusive
+  createdBefore?: Date; // Exclusive
+  hasFilePath?: boolean; // Uploaded file present (true) or absent (false)
+  hasUrl?: boolean; // External URL present (true) or absent (false)
+  platform?: UrlPlatform[]; // URL hosted on any of these platforms
+  duration?: DurationBucket[]; // Duration in any of these buckets (items without a known duration never match)
+  mustContain?: string[]; // Title, description or content contains every one of these (case-insensitive)
+  mustNotContain?: string[]; // ... and none of these
+}
+
+/**
+ * Invalid filter input (reported to clients as 400)
+ */
+export class SearchFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchFilterError';
+  }
+}
+
+/**
+ * Parse filters from a request body object or query string
+ * Lists accept arrays or comma-separated strings, booleans accept true/false or "true"/"false",
+ * dates accept anything Date can parse. Unknown keys are ignored.
+ *
+ * @throws SearchFilterError when a value is invalid
+ */
+export function parseSearchFilters(input: unknown): SearchFilters {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new SearchFilterError('filters must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const filters: SearchFilters = {};
+
+  const types = parseList(raw.type, 'type');
+  if (types) {
+    const validTypes = Object.values(MediaType) as string[];
+    const invalid = types.filter(type => !validTypes.includes(type));
+    if (invalid.length > 0) {
+      throw new SearchFilterError(`Unknown media type: ${invalid.join(', ')} (expected ${validTypes.join(', ')})`);
+    }
+    filters.type = types as MediaType[];
+  }
+
+  const mimeTypes = parseList(raw.mimeType, 'mimeType');
+  if (mimeTypes) {
+    filters.mimeType = mimeTypes.map(mimeType => mimeType.toLowerCase());
+  }
+
+  const platforms = parseList(raw.platform, 'platform');
+  if (platforms) {
+    const validPlatforms = Object.keys(URL_PLATFORM_PATTERNS);
+    const invalid = platforms.filter(platform => !validPlatforms.includes(platform.toLowerCase()));
+    if (invalid.length > 0) {
+      throw new SearchFilterError(`Unknown platform: ${invalid.join(', ')} (expected ${validPlatforms.join(', ')})`);
+    }
+    filters.platform = platforms.map(platform => platform.toLowerCase() as UrlPlatform);
+  }
+
+  const durations = parseList(raw.duration, 'duration');
+  if (durations) {
+    const validBuckets = Object.keys(DURATION_BUCKETS);
+    const invalid = durations.filter(bucket => !validBuckets.includes(bucket.toLowerCase()));
+    if (invalid.length > 0) {
+      throw new SearchFilterError(`Unknown duration: ${invalid.join(', ')} (expected ${validBuckets.join(', ')})`);
+    }
+    filters.duration = durations.map(bucket => bucket.toLowerCase() as DurationBucket);
+  }
+
+  filters.mustContain = parseList(raw.mustContain, 'mustContain');
+  filters.mustNotContain = parseList(raw.mustNotContain, 'mustNotContain');
+  filters.createdAfter = parseDate(raw.createdAfter, 'createdAfter');
+  filters.createdBefore = parseDate(raw.createdBefore, 'createdBefore');
+  filters.hasFilePath = parseBoolean(raw.hasFilePath, 'hasFilePath');
+  filters.hasUrl = parseBoolean(raw.hasUrl, 'hasUrl');
+
+  // Drop unset keys so an empty filter object stays empty
+  for (const key of Object.keys(filters) as Array<keyof SearchFilters>) {
+    if (filters[key] === undefined) delete filters[key];
+  }
+  return filters;
+}
+
+/**
+ * Check whether any filter is set
+ */
+export function hasSearchFilters(filters: SearchFilters = {}): boolean {
+  return Object.keys(filters).length > 0;
+}
+
+/**
+ * Compile filters to SQL conditions on media_items columns
+ * Parameter values are appended to params, so placeholders continue after the
+ * caller's own parameters.
+ *
+ * @param filters - Filters to compile
+ * @param params - Query parameters (mutated)
+ * @returns "AND ..." conditions, or an empty string without filters
+ */
+export function buildFilterConditions(filters: SearchFilters = {}, params: any[]): string {
+  const conditions: string[] = [];
+  const param = (value: any): string => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (filters.type && filters.type.length > 0) {
+    conditions.push(`type::text = ANY(${param(filters.type)}::text[])`);
+  }
+
+  if (filters.mimeType && filters.mimeType.length > 0) {
+    // "audio/*" → "audio/%"; LIKE wildcards in the input are matched literally
+    const patterns = filters.mimeType.map(mimeType => escapeLike(mimeType).replace(/\*$/, '%'));
+    conditions.push(`LOWER("mimeType") LIKE ANY(${param(patterns)}::text[])`);
+  }
+
+  if (filters.createdAfter) {
+    conditions.push(`"createdAt" >= ${param(filters.createdAfter)}`);
+  }
+  if (filters.createdBefore) {
+    conditions.push(`"createdAt" < ${param(filters.createdBefore)}`);
+  }
+
+  if (filters.hasFilePath !== undefined) {
+    conditions.push(filters.hasFilePath
+      ? `("filePath" IS NOT NULL AND "filePath" <> '')`
+      : `("filePath" IS NULL OR "filePath" = '')`);
+  }
+  if (filters.hasUrl !== undefined) {
+    conditions.push(filters.hasUrl
+      ? `(url IS NOT NULL AND url <> '')`
+      : `(url IS NULL OR url = '')`);
+  }
+
+  if (filters.platform && filters.platform.length > 0) {
+    const pattern = filters.platform.map(platform => URL_PLATFORM_PATTERNS[platform]).join('|');
+    conditions.push(`url ~* ${param(pattern)}`);
+  }
+
+  if (filters.duration && filters.duration.length > 0) {
+    conditions.push(`${durationBucketExpression()} = ANY(${param(filters.duration)}::text[])`);
+  }
+
+  // Phrases and excluded terms are matched as substrings of the item text
+  const itemText = `(COALESCE(title, '') || ' ' || COALESCE(description, '') || ' ' || COALESCE(content, ''))`;
+  for (const phrase of filters.mustContain ?? []) {
+    conditions.push(`${itemText} ILIKE ${param(`%${escapeLike(phrase)}%`)}`);
+  }
+  for (const term of filters.mustNotContain ?? []) {
+    conditions.push(`${itemText} NOT ILIKE ${param(`%${escapeLike(term)}%`)}`);
+  }
+
+  return conditions.map(condition => `AND ${condition}`).join(' ');
+}
+
+/**
+ * SQL expression naming the duration bucket of a media_items row (NULL without a duration)
+ */
+export function durationBucketExpression(): string {
+  const cases = (Object.entries(DURATION_BUCKETS) as Array<[DurationBucket, number | null]>)
+    .map(([bucket, maxSeconds]) => maxSeconds === null
+      ? `WHEN duration IS NOT NULL THEN '${bucket}'`
+      : `WHEN duration <= ${maxSeconds} THEN '${bucket}'`);
+  return `(CASE ${cases.join(' ')} END)`;
+}
+
+/**
+ * Escape LIKE wildcards (and the escape character) so they match literally
+ */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+function parseList(value: unknown, name: string): string[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const list = Array.isArray(value) ? value : String(value).split(',');
+  if (list.some(entry => typeof entry !== 'string')) {
+    throw new SearchFilterError(`${name} must be a string or an array of strings`);
+  }
+  const trimmed = (list as string[]).map(entry => entry.trim()).filter(entry => entry !== '');
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function parseDate(value: unknown, name: string): Date | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) {
+    throw new SearchFilterError(`${name} must be a valid date`);
+  }
+  return date;
+}
+
+function parseBoolean(value: unknown, name: string): boolean | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (value === true || value === 'true') return true;
+  if (value === false || value === 'false') return false;
+  throw new SearchFilterError(`${name} must be true or false`);
+}
@@ -0,0 +1,119 @@
+/**
+ * Text Chunking Utilities
+ * Splits long text into overlapping chunks for multi-vector indexing
+ */
+
+export interface TextChunk {
+  index: number;
+  content: string;
+  startOffset: number; // Character offset in the source text (inclusive)
+  endOffset: number; // Character offset in the source text (exclusive)
+}
+
+/**
+ * Split text into overlapping chunks of roughly chunkSize characters
+ * Chunk ends prefer sentence boundaries, then whitespace, so passages stay readable.
+ * Offsets always refer to the original text, so chunk.content === text.slice(start, end).
+ * 
+ * @param text - Source text
+ * @param chunkSize - Target chunk length in characters
+ * @param overlap - Characters shared between consecutive chunks
+ * @param maxChunks - Stop after this many chunks (0 = unlimited)
+ */
+export function chunkText(
+  text: string,
+  chunkSize: number,
+  overlap: number,
+  maxChunks: number = 0
+): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  if (!text || text.trim() === '') return chunks;
+
+  if (text.length <= chunkSize) {
+    return [{ index: 0, content: text, startOffset: 0, endOffset: text.length }];
+  }
+
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + chunkSize, text.length);
+
+    if (end < text.length) {
+      // Look for a natural break in the last 20% of the window
+      const searchFrom = start + Math.floor(chunkSize * 0.8);
+      const tail = text.slice(searchFrom, end);
+      const sentenceBreak = Math.max(
+        tail.lastIndexOf('. '),
+        tail.lastIndexOf('! '),
+        tail.lastIndexOf('? '),
+        tail.lastIndexOf('\n')
+      );
+      if (sentenceBreak >= 0) {
+        end = searchFrom + sentenceBreak + 1;
+      } else {
+        const wordBreak = tail.lastIndexOf(' ');
+        if (wordBreak >= 0) end = searchFrom + wordBreak;
+      }
+    }
+
+    chunks.push({
+      index: chunks.length,
+      content: text.slice(start, end),
+      startOffset: start,
+      endOffset: end,
+    });
+
+    if (end >= text.length) break;
+    if (maxChunks > 0 && chunks.length >= maxChunks) break;
+
+    // Step back by the overlap, then snap forward to the next word start
+    let nextStart = Math.max(end - overlap, start + 1);
+    const nextSpace = text.indexOf(' ', nextStart);
+    if (nextSpace !== -1 && nextSpace < end) {
+      nextStart = nextSpace + 1;
+    }
+    start = nextStart;
+  }
+
+  return chunks;
+}
+
+/**
+ * Split text into windows of consecutive sentences (each window starts one sentence later)
+ * Offsets refer to the original text, as in chunkText.
+ * 
+ * @param text - Source text
+ * @param sentencesPerWindow - Sentences per window
+ * @param start - Only use the text from this offset
+ * @param end - Only use the text up to this offset (exclusive)
+ */
+export function sentenceWindows(
+  text: string,
+  sentencesPerWindow: number,
+  start: number = 0,
+  end: number = text.length
+): TextChunk[] {
+  const sentences: Array<{ start: number; end: number }> = [];
+  const range = text.slice(start, end);
+  for (const match of range.matchAll(/[^.!?\n]+(?:[.!?]+|\n|$)/g)) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const trimmed = match[0].trim();
+    if (trimmed === '') continue;
+    const sentenceStart = start + match.index! + leading;
+    sentences.push({ start: sentenceStart, end: sentenceStart + trimmed.length });
+  }
+  if (sentences.length === 0) return [];
+
+  const size = Math.max(1, sentencesPerWindow);
+  const windows: TextChunk[] = [];
+  for (let i = 0; i === 0 || i + size <= sentences.length; i++) {
+    const windowStart = sentences[i].start;
+    const windowEnd = sentences[Math.min(i + size, sentences.length) - 1].end;
+    windows.push({
+      index: windows.length,
+      content: text.slice(windowStart, windowEnd),
+      startOffset: windowStart,
+      endOffset: windowEnd,
+    });
+  }
+  return windows;
+}